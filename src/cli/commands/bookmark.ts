@@ -0,0 +1,105 @@
+/**
+ * Bookmark Commands
+ */
+
+import { Command } from 'commander';
+import ora from 'ora';
+import { CursorContext, formatBookmarksMarkdown } from '../../core/index.js';
+import { printError, printSuccess, formatAsJSON, formatBookmarksTable } from '../utils/output.js';
+import type { BookmarkOptions } from '../types.js';
+
+function parseBookmarkId(value: string): number {
+  const id = parseInt(value, 10);
+  if (isNaN(id) || id <= 0 || String(id) !== value.trim()) {
+    throw new Error(`Invalid bookmark ID: ${value}`);
+  }
+  return id;
+}
+
+export function createBookmarkCommand(): Command {
+  const cmd = new Command('bookmark');
+  cmd.description('Bookmark individual messages and review starred exchanges');
+
+  // bookmark add
+  cmd
+    .command('add')
+    .description('Bookmark a message')
+    .argument('<session-id>', 'Session ID or nickname')
+    .argument('<message-id>', 'Message bubble ID / uuid (or a unique prefix)')
+    .option('-l, --label <text>', 'Short label for the bookmark')
+    .action(async (sessionId: string, messageId: string, options: BookmarkOptions) => {
+      const spinner = ora('Adding bookmark...').start();
+
+      try {
+        const api = new CursorContext();
+
+        const bookmark = await api.bookmarkMessage(sessionId, messageId, { label: options.label });
+
+        spinner.stop();
+        printSuccess(`Bookmarked message ${bookmark.bubble_id.substring(0, 12)} (bookmark ${bookmark.id})`);
+
+        api.close();
+      } catch (error: any) {
+        spinner.stop();
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
+  // bookmark list
+  cmd
+    .command('list')
+    .description('List bookmarked exchanges across sessions (newest first)')
+    .argument('[session-id]', 'Only bookmarks in this session (ID or nickname)')
+    .option('--limit <number>', 'Maximum number of bookmarks')
+    .option('-f, --format <type>', 'Output format (table, json, markdown)', 'table')
+    .action(async (sessionId: string | undefined, options: BookmarkOptions) => {
+      const spinner = ora('Loading bookmarks...').start();
+
+      try {
+        const api = new CursorContext();
+
+        const limit = options.limit ? parseInt(options.limit.toString(), 10) : undefined;
+        const exchanges = await api.getBookmarks({ sessionId, limit });
+
+        spinner.stop();
+        if (options.format === 'json') {
+          console.log(formatAsJSON(exchanges));
+        } else if (options.format === 'markdown') {
+          console.log(formatBookmarksMarkdown(exchanges));
+        } else {
+          console.log(formatBookmarksTable(exchanges));
+        }
+
+        api.close();
+      } catch (error: any) {
+        spinner.stop();
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
+  // bookmark rm
+  cmd
+    .command('rm')
+    .alias('remove')
+    .description('Delete bookmark(s)')
+    .argument('<bookmark-ids...>', 'Bookmark ID(s) (see bookmark list)')
+    .action(async (bookmarkIds: string[]) => {
+      try {
+        const api = new CursorContext();
+
+        for (const bookmarkId of bookmarkIds) {
+          api.deleteBookmark(parseBookmarkId(bookmarkId));
+        }
+        printSuccess(`Deleted ${bookmarkIds.length} bookmark(s)`);
+
+        api.close();
+      } catch (error: any) {
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
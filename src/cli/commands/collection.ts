@@ -0,0 +1,147 @@
+/**
+ * Collection Commands
+ */
+
+import { Command } from 'commander';
+import ora from 'ora';
+import { CursorContext, formatCollectionQuery, type CollectionQuery } from '../../core/index.js';
+import { loadConfig } from '../utils/config.js';
+import { addFilterOptions, toSessionFilters } from '../utils/filters.js';
+import { formatAsTable, formatAsCompact, formatAsJSON, formatCollectionsTable, printError, printSuccess, printInfo } from '../utils/output.js';
+import type { CollectionOptions } from '../types.js';
+
+export function createCollectionCommand(): Command {
+  const cmd = new Command('collection');
+  cmd.description('Save filter combinations as named collections and run them');
+
+  // collection save
+  const save = cmd
+    .command('save')
+    .description('Save a collection (saving an existing name replaces its filters)')
+    .argument('<name>', 'Collection name')
+    .option('-q, --query <text>', 'Full-text search query')
+    .option('-p, --project <path>', 'Filter by project path')
+    .option('-t, --tag <tag>', 'Filter by tag (a parent tag like "area" includes "area/auth")')
+    .option('--tagged-only', 'Only include sessions with tags')
+    .option('--source <source>', 'Filter by source (cursor, claude, windsurf, copilot, aider, codex, gemini, import, all)');
+
+  addFilterOptions(save)
+    .option('-s, --sort <type>', 'Sort order without a query (newest, oldest, most_messages, recently_active)')
+    .option('-l, --limit <number>', 'Maximum number of sessions')
+    .option('--case-sensitive', 'Case sensitive search')
+    .option('--include-missing', 'Include sessions deleted from their source')
+    .option('-d, --description <text>', 'What the collection is for')
+    .action((name: string, options: CollectionOptions) => {
+      try {
+        const api = new CursorContext();
+
+        const query: CollectionQuery = {
+          query: options.query,
+          projectPath: options.project,
+          tag: options.tag,
+          taggedOnly: options.taggedOnly,
+          source: options.source,
+          ...toSessionFilters(options),
+          sortBy: options.sort,
+          limit: options.limit ? parseInt(options.limit.toString(), 10) : undefined,
+          caseSensitive: options.caseSensitive,
+          includeMissing: options.includeMissing
+        };
+
+        const collection = api.saveCollection(name, query, { description: options.description });
+        printSuccess(`Saved collection '${collection.name}': ${formatCollectionQuery(collection.query)}`);
+
+        api.close();
+      } catch (error: any) {
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
+  // collection list
+  cmd
+    .command('list')
+    .description('List saved collections')
+    .option('-f, --format <type>', 'Output format (table, json)', 'table')
+    .action((options: CollectionOptions) => {
+      try {
+        const api = new CursorContext();
+
+        const collections = api.getCollections();
+        if (options.format === 'json') {
+          console.log(formatAsJSON(collections));
+        } else {
+          console.log(formatCollectionsTable(collections));
+        }
+
+        api.close();
+      } catch (error: any) {
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
+  // collection run
+  cmd
+    .command('run')
+    .description('Run a saved collection against the current sessions')
+    .argument('<name>', 'Collection name')
+    .option('-f, --format <type>', 'Output format (table, compact, json)')
+    .action(async (name: string, options: CollectionOptions) => {
+      const spinner = ora(`Running collection '${name}'...`).start();
+
+      try {
+        const config = loadConfig();
+        const api = new CursorContext();
+
+        const { collection, sessions } = await api.runCollection(name);
+        const format = options.format || config.defaultFormat;
+
+        spinner.stop();
+        printInfo(`${collection.name}: ${formatCollectionQuery(collection.query)}\n`);
+
+        switch (format) {
+          case 'json':
+            console.log(formatAsJSON(sessions));
+            break;
+          case 'compact':
+            console.log(formatAsCompact(sessions));
+            break;
+          case 'table':
+          default:
+            console.log(formatAsTable(sessions));
+            break;
+        }
+
+        api.close();
+      } catch (error: any) {
+        spinner.stop();
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
+  // collection rm
+  cmd
+    .command('rm')
+    .alias('remove')
+    .description('Delete saved collection(s)')
+    .argument('<names...>', 'Collection name(s)')
+    .action((names: string[]) => {
+      try {
+        const api = new CursorContext();
+
+        for (const name of names) {
+          api.deleteCollection(name);
+        }
+        printSuccess(`Deleted ${names.length} collection(s)`);
+
+        api.close();
+      } catch (error: any) {
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
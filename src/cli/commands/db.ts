@@ -0,0 +1,103 @@
+/**
+ * Database Commands
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { MetadataDB, getMetadataDBPath } from '../../core/index.js';
+import { printError, printSuccess, printInfo, printWarning, formatAsJSON, useColors } from '../utils/output.js';
+
+export function createDbCommand(): Command {
+  const cmd = new Command('db');
+  cmd.description('Inspect and upgrade the metadata database');
+
+  // db status
+  cmd
+    .command('status')
+    .description('Show the schema version, migration history and pending migrations')
+    .option('-f, --format <type>', 'Output format (table, json)', 'table')
+    .action((options: { format?: string }) => {
+      const db = new MetadataDB(getMetadataDBPath(), { autoMigrate: false });
+
+      try {
+        const status = db.getSchemaStatus();
+
+        if (options.format === 'json') {
+          console.log(formatAsJSON(status));
+          return;
+        }
+
+        const colors = useColors();
+        const bold = (text: string) => colors ? chalk.bold(text) : text;
+
+        console.log(`\n  ${bold('Database:')} ${status.dbPath}`);
+        console.log(`  ${bold('Schema version:')} ${status.currentVersion} (latest: ${status.latestVersion})\n`);
+
+        for (const entry of status.history) {
+          const applied = entry.applied_at ? new Date(entry.applied_at).toLocaleString() : 'before history was kept';
+          console.log(`  ✓ v${entry.version} ${entry.description} ${colors ? chalk.gray(`(${applied})`) : `(${applied})`}`);
+        }
+        for (const migration of status.pending) {
+          console.log(`  ${colors ? chalk.yellow('○') : '○'} v${migration.version} ${migration.description} ${colors ? chalk.gray('(pending)') : '(pending)'}`);
+        }
+        console.log();
+
+        if (status.currentVersion > status.latestVersion) {
+          printWarning('The database was created by a newer release of cursor-context');
+        } else if (status.pending.length > 0) {
+          printInfo(`Run 'cursor-context db migrate' to apply ${status.pending.length} pending migration(s)`);
+        } else {
+          printSuccess('Schema is up to date');
+        }
+      } catch (error: any) {
+        printError(error.message);
+        process.exit(1);
+      } finally {
+        db.close();
+      }
+    });
+
+  // db migrate
+  cmd
+    .command('migrate')
+    .description('Apply pending migrations (the database is backed up first)')
+    .option('--dry-run', 'Show the migrations that would be applied without changing anything')
+    .action((options: { dryRun?: boolean }) => {
+      const db = new MetadataDB(getMetadataDBPath(), { autoMigrate: false });
+
+      try {
+        const status = db.getSchemaStatus();
+        if (status.currentVersion > status.latestVersion) {
+          printError(`Schema version ${status.currentVersion} is newer than this release supports (${status.latestVersion})`);
+          process.exit(1);
+        }
+
+        const result = db.migrate({ dryRun: options.dryRun });
+
+        if (result.applied.length === 0) {
+          printSuccess(`Schema is up to date (version ${result.fromVersion})`);
+          return;
+        }
+
+        for (const migration of result.applied) {
+          console.log(`  v${migration.version} ${migration.description}`);
+        }
+
+        if (result.dryRun) {
+          printInfo(`Would migrate from version ${result.fromVersion} to ${result.toVersion}`);
+        } else {
+          printSuccess(`Migrated from version ${result.fromVersion} to ${result.toVersion}`);
+          if (result.backupPath) {
+            printInfo(`Backup saved to ${result.backupPath}`);
+          }
+        }
+      } catch (error: any) {
+        printError(error.message);
+        process.exit(1);
+      } finally {
+        db.close();
+      }
+    });
+
+  return cmd;
+}
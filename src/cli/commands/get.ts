@@ -4,7 +4,7 @@
 
 import { Command } from 'commander';
 import ora from 'ora';
-import { CursorContext } from '../../core/index.js';
+import { CursorContext, formatMessageDetails } from '../../core/index.js';
 import { loadConfig } from '../utils/config.js';
 import { formatSession, printError } from '../utils/output.js';
 import type { GetOptions } from '../types.js';
@@ -19,6 +19,9 @@ export function createGetCommand(): Command {
     .option('--messages-only', 'Show only messages (no metadata)')
     .option('--max-messages <number>', 'Maximum number of messages to show')
     .option('--no-tools', 'Exclude tool calls from output')
+    .option('--details', 'Show the model, token usage and git branch of each message (Claude Code)')
+    .option('--reasoning', 'Show the model\'s reasoning before its replies (Claude Code)')
+    .option('--subagents', 'Include the conversations of subagents started by the session (Claude Code)')
     .option('--no-color', 'Disable colors')
     .action(async (idOrNickname: string, options: GetOptions) => {
       const spinner = ora('Loading session...').start();
@@ -34,7 +37,8 @@ export function createGetCommand(): Command {
           parseOptions: {
             excludeTools: options.noTools,
             maxContentLength: 100000
-          }
+          },
+          includeSubagents: options.subagents
         });
         
         spinner.stop();
@@ -45,7 +49,11 @@ export function createGetCommand(): Command {
             console.log(JSON.stringify(session.messages, null, 2));
           } else {
             for (const msg of session.messages.slice(0, maxMessages)) {
-              console.log(`\n[${msg.role.toUpperCase()}]`);
+              const details = options.details ? formatMessageDetails(msg) : null;
+              console.log(`\n[${msg.role.toUpperCase()}]${details ? ` (${details})` : ''}`);
+              if (options.reasoning && msg.reasoning) {
+                console.log(`(reasoning) ${msg.reasoning}`);
+              }
               if (msg.content) {
                 console.log(msg.content);
               }
@@ -53,7 +61,10 @@ export function createGetCommand(): Command {
           }
         } else {
           // Show full session
-          console.log(formatSession(session, format as any));
+          console.log(formatSession(session, format as any, {
+            includeMessageDetails: options.details,
+            includeReasoning: options.reasoning
+          }));
         }
         
         api.close();
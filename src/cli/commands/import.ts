@@ -0,0 +1,69 @@
+/**
+ * Import Command
+ */
+
+import { Command } from 'commander';
+import ora from 'ora';
+import { CursorContext, type ProjectRule, type ExportProvider } from '../../core/index.js';
+import { printError, printSuccess, printInfo, formatAsJSON } from '../utils/output.js';
+import type { ImportOptions } from '../types.js';
+
+/**
+ * Parse a --rule value ("<pattern>=<project path>")
+ */
+function parseRule(value: string, rules: ProjectRule[] = []): ProjectRule[] {
+  const separator = value.lastIndexOf('=');
+  if (separator <= 0 || separator === value.length - 1) {
+    throw new Error(`Invalid rule '${value}' (expected <pattern>=<project path>)`);
+  }
+
+  return [...rules, { pattern: value.substring(0, separator), projectPath: value.substring(separator + 1) }];
+}
+
+export function createImportCommand(): Command {
+  const cmd = new Command('import');
+
+  cmd
+    .description('Import a ChatGPT or claude.ai data export (conversations.json) as read-only sessions')
+    .argument('<file>', 'Path to conversations.json or the unzipped export directory')
+    .option('--provider <provider>', 'Export format (chatgpt, claude; default: auto-detect)')
+    .option('-p, --project <path>', 'Project path for imported conversations')
+    .option('-r, --rule <pattern=path>', 'Assign a project to conversations whose title matches pattern (repeatable)', parseRule)
+    .option('-f, --format <type>', 'Output format (table, json)', 'table')
+    .action(async (file: string, options: ImportOptions) => {
+      if (options.provider && !['chatgpt', 'claude'].includes(options.provider)) {
+        printError('provider must be: chatgpt or claude');
+        process.exit(1);
+      }
+
+      const spinner = ora('Importing conversations...').start();
+
+      try {
+        const api = new CursorContext();
+        const result = await api.importExport(file, {
+          provider: options.provider as ExportProvider | undefined,
+          projectPath: options.project,
+          projectRules: options.rule
+        });
+
+        spinner.stop();
+
+        if (options.format === 'json') {
+          console.log(formatAsJSON(result));
+        } else {
+          printSuccess(`Imported ${result.total} ${result.provider === 'chatgpt' ? 'ChatGPT' : 'claude.ai'} conversation(s): ${result.added} new, ${result.updated} updated, ${result.unchanged} unchanged`);
+          if (result.sessionIds.length > 0) {
+            printInfo(`Sessions are available with the 'import:' prefix (e.g. ${result.sessionIds[0]})`);
+          }
+        }
+
+        api.close();
+      } catch (error: any) {
+        spinner.stop();
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
@@ -0,0 +1,131 @@
+/**
+ * Link Commands
+ */
+
+import { Command } from 'commander';
+import ora from 'ora';
+import { CursorContext, type SessionLinkType } from '../../core/index.js';
+import { printError, printSuccess, formatAsJSON, formatAsCompact, formatLinkedSessionsTable } from '../utils/output.js';
+import type { LinkOptions } from '../types.js';
+
+const LINK_TYPES: SessionLinkType[] = ['continues', 'supersedes', 'related'];
+
+function parseLinkType(value: string): SessionLinkType {
+  if (!LINK_TYPES.includes(value as SessionLinkType)) {
+    throw new Error(`Invalid link type: ${value}. Use one of: ${LINK_TYPES.join(', ')}`);
+  }
+  return value as SessionLinkType;
+}
+
+export function createLinkCommand(): Command {
+  const cmd = new Command('link');
+  cmd.description('Link sessions that continue, supersede or relate to each other');
+
+  // link add
+  cmd
+    .command('add')
+    .description('Link a session to another (e.g. link add part-2 continues part-1)')
+    .argument('<session-id>', 'Session ID or nickname')
+    .argument('<type>', `Link type (${LINK_TYPES.join(', ')})`)
+    .argument('<other-session-id>', 'Session ID or nickname of the linked session')
+    .action(async (sessionId: string, type: string, otherSessionId: string) => {
+      const spinner = ora('Linking sessions...').start();
+
+      try {
+        const api = new CursorContext();
+
+        const link = await api.linkSessions(sessionId, otherSessionId, parseLinkType(type));
+
+        spinner.stop();
+        printSuccess(`Linked: ${link.from_session_id} ${link.type} ${link.to_session_id}`);
+
+        api.close();
+      } catch (error: any) {
+        spinner.stop();
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
+  // link list
+  cmd
+    .command('list')
+    .description('List the sessions linked to a session')
+    .argument('<session-id>', 'Session ID or nickname')
+    .option('-f, --format <type>', 'Output format (table, json)', 'table')
+    .action(async (sessionId: string, options: LinkOptions) => {
+      const spinner = ora('Loading links...').start();
+
+      try {
+        const api = new CursorContext();
+
+        const related = await api.getLinkedSessions(sessionId);
+
+        spinner.stop();
+        if (options.format === 'json') {
+          console.log(formatAsJSON(related));
+        } else {
+          console.log(formatLinkedSessionsTable(related));
+        }
+
+        api.close();
+      } catch (error: any) {
+        spinner.stop();
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
+  // link thread
+  cmd
+    .command('thread')
+    .description('Show the chain of sessions (continues / supersedes links) a session belongs to, in order')
+    .argument('<session-id>', 'Session ID or nickname')
+    .option('-f, --format <type>', 'Output format (compact, json)', 'compact')
+    .action(async (sessionId: string, options: LinkOptions) => {
+      const spinner = ora('Loading thread...').start();
+
+      try {
+        const api = new CursorContext();
+
+        const thread = await api.getSessionThread(sessionId);
+
+        spinner.stop();
+        if (options.format === 'json') {
+          console.log(formatAsJSON(thread));
+        } else {
+          console.log(formatAsCompact(thread.sessions));
+        }
+
+        api.close();
+      } catch (error: any) {
+        spinner.stop();
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
+  // link rm
+  cmd
+    .command('rm')
+    .alias('remove')
+    .description('Remove the links between two sessions')
+    .argument('<session-id>', 'Session ID or nickname')
+    .argument('<other-session-id>', 'Session ID or nickname of the linked session')
+    .option('-t, --type <type>', 'Only remove links of this type')
+    .action(async (sessionId: string, otherSessionId: string, options: LinkOptions) => {
+      try {
+        const api = new CursorContext();
+
+        const removed = await api.unlinkSessions(sessionId, otherSessionId, options.type ? parseLinkType(options.type) : undefined);
+        printSuccess(`Removed ${removed} link(s)`);
+
+        api.close();
+      } catch (error: any) {
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
@@ -6,6 +6,7 @@ import { Command } from 'commander';
 import ora from 'ora';
 import { CursorContext } from '../../core/index.js';
 import { loadConfig } from '../utils/config.js';
+import { addFilterOptions, toSessionFilters } from '../utils/filters.js';
 import { formatAsTable, formatAsCompact, formatAsJSON, printError } from '../utils/output.js';
 import type { ListOptions } from '../types.js';
 
@@ -15,12 +16,14 @@ export function createListCommand(): Command {
   cmd
     .description('List sessions with optional filtering')
     .option('-p, --project <path>', 'Filter by project path')
-    .option('-t, --tag <tag>', 'Filter by specific tag')
+    .option('-t, --tag <tag>', 'Filter by tag (a parent tag like "area" includes "area/auth")')
     .option('--tagged-only', 'Only show sessions with tags')
-    .option('-s, --sort <type>', 'Sort order (newest, oldest, most_messages)')
+    .option('-s, --sort <type>', 'Sort order (newest, oldest, most_messages, recently_active)')
     .option('-l, --limit <number>', 'Limit number of results')
     .option('-f, --format <type>', 'Output format (table, compact, json)')
-    .option('--source <source>', 'Filter by source (cursor, claude, all)', 'all')
+    .option('--source <source>', 'Filter by source (cursor, claude, windsurf, copilot, aider, codex, gemini, import, all)', 'all');
+
+  addFilterOptions(cmd)
     .option('--no-color', 'Disable colors')
     .action(async (options: ListOptions) => {
       const spinner = ora('Loading sessions...').start();
@@ -33,7 +36,7 @@ export function createListCommand(): Command {
         const limit = options.limit ? parseInt(options.limit.toString(), 10) : config.defaultLimit;
         const sort = options.sort || config.defaultSort;
         const format = options.format || config.defaultFormat;
-        const source = (options.source || 'all') as 'cursor' | 'claude' | 'all';
+        const source = options.source || 'all';
 
         const sessions = await api.listSessions({
           projectPath: options.project,
@@ -41,7 +44,8 @@ export function createListCommand(): Command {
           taggedOnly: options.taggedOnly,
           sortBy: sort as any,
           limit,
-          source
+          source,
+          ...toSessionFilters(options)
         });
         
         spinner.stop();
@@ -0,0 +1,117 @@
+/**
+ * Note Commands
+ */
+
+import { Command } from 'commander';
+import ora from 'ora';
+import { CursorContext } from '../../core/index.js';
+import { printError, printSuccess, formatAsJSON, formatNotesTable } from '../utils/output.js';
+import type { NoteOptions } from '../types.js';
+
+function parseNoteId(value: string): number {
+  const id = parseInt(value, 10);
+  if (isNaN(id) || id <= 0 || String(id) !== value.trim()) {
+    throw new Error(`Invalid note ID: ${value}`);
+  }
+  return id;
+}
+
+export function createNoteCommand(): Command {
+  const cmd = new Command('note');
+  cmd.description('Manage markdown notes on sessions and messages');
+
+  // note add
+  cmd
+    .command('add')
+    .description('Add a note to a session, or to one of its messages')
+    .argument('<session-id>', 'Session ID or nickname')
+    .argument('<text...>', 'Note text (markdown)')
+    .option('-m, --message <id>', 'Attach the note to this message (bubble ID / uuid or a unique prefix)')
+    .action(async (sessionId: string, text: string[], options: NoteOptions) => {
+      const spinner = ora('Adding note...').start();
+
+      try {
+        const api = new CursorContext();
+
+        const note = await api.addNote(sessionId, text.join(' '), { messageId: options.message });
+
+        spinner.stop();
+        printSuccess(`Added note ${note.id} to ${note.bubble_id ? `message ${note.bubble_id.substring(0, 12)}` : 'session'}`);
+
+        api.close();
+      } catch (error: any) {
+        spinner.stop();
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
+  // note list
+  cmd
+    .command('list')
+    .description('List the notes on a session and its messages')
+    .argument('<session-id>', 'Session ID or nickname')
+    .option('-f, --format <type>', 'Output format (table, json)', 'table')
+    .action(async (sessionId: string, options: NoteOptions) => {
+      const spinner = ora('Loading notes...').start();
+
+      try {
+        const api = new CursorContext();
+
+        const notes = await api.getNotes(sessionId);
+
+        spinner.stop();
+        console.log(options.format === 'json' ? formatAsJSON(notes) : formatNotesTable(notes));
+
+        api.close();
+      } catch (error: any) {
+        spinner.stop();
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
+  // note edit
+  cmd
+    .command('edit')
+    .description('Replace the text of a note')
+    .argument('<note-id>', 'Note ID (see note list)')
+    .argument('<text...>', 'New note text (markdown)')
+    .action(async (noteId: string, text: string[]) => {
+      try {
+        const api = new CursorContext();
+
+        const note = api.updateNote(parseNoteId(noteId), text.join(' '));
+        printSuccess(`Updated note ${note.id}`);
+
+        api.close();
+      } catch (error: any) {
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
+  // note rm
+  cmd
+    .command('rm')
+    .alias('remove')
+    .description('Delete note(s)')
+    .argument('<note-ids...>', 'Note ID(s) (see note list)')
+    .action(async (noteIds: string[]) => {
+      try {
+        const api = new CursorContext();
+
+        for (const noteId of noteIds) {
+          api.deleteNote(parseNoteId(noteId));
+        }
+        printSuccess(`Deleted ${noteIds.length} note(s)`);
+
+        api.close();
+      } catch (error: any) {
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
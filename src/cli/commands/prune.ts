@@ -0,0 +1,75 @@
+/**
+ * Prune Command
+ */
+
+import { Command } from 'commander';
+import ora from 'ora';
+import { CursorContext } from '../../core/index.js';
+import { printError, printSuccess, printInfo, printWarning, formatAsTable, formatAsJSON } from '../utils/output.js';
+import type { PruneOptions } from '../types.js';
+
+export function createPruneCommand(): Command {
+  const cmd = new Command('prune');
+
+  cmd
+    .description('List, purge or restore sessions that were deleted from their source')
+    .argument('[sessionIds...]', 'Only these missing sessions (default: all)')
+    .option('-s, --source <source>', 'Source to prune (cursor, claude, windsurf, copilot, aider, codex, gemini, import, all)', 'all')
+    .option('--purge', 'Delete the missing sessions (including nicknames and tags)')
+    .option('--restore', 'Re-sync missing sessions that exist in their source again')
+    .option('--dry-run', 'Show what would be purged or restored without changing anything')
+    .option('--no-sync', 'Skip the sync that detects missing sessions first')
+    .option('-f, --format <type>', 'Output format (table, json)', 'table')
+    .action(async (sessionIds: string[], options: PruneOptions) => {
+      if (options.purge && options.restore) {
+        printError('Choose either --purge or --restore');
+        process.exit(1);
+      }
+
+      const source = options.source || 'all';
+      const spinner = ora('Checking for missing sessions...').start();
+
+      try {
+        const api = new CursorContext();
+
+        if (options.sync !== false) {
+          await api.syncSessions(undefined, source);
+        }
+
+        const result = await api.pruneSessions({
+          source,
+          sessionIds: sessionIds.length > 0 ? sessionIds : undefined,
+          purge: options.purge,
+          restore: options.restore,
+          dryRun: options.dryRun
+        });
+
+        spinner.stop();
+
+        if (options.format === 'json') {
+          console.log(formatAsJSON(result));
+        } else if (result.missing.length === 0) {
+          printSuccess('No missing sessions');
+        } else {
+          console.log(formatAsTable(result.missing));
+
+          if (options.purge) {
+            printSuccess(`${options.dryRun ? 'Would purge' : 'Purged'} ${result.purged.length} missing session(s)`);
+          } else if (options.restore) {
+            printSuccess(`${options.dryRun ? 'Would restore' : 'Restored'} ${result.restored.length} of ${result.missing.length} missing session(s)`);
+          } else {
+            printWarning(`${result.missing.length} session(s) no longer exist in their source`);
+            printInfo('Run with --purge to delete them or --restore to re-sync any that have come back');
+          }
+        }
+
+        api.close();
+      } catch (error: any) {
+        spinner.stop();
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
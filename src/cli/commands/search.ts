@@ -6,7 +6,8 @@ import { Command } from 'commander';
 import ora from 'ora';
 import { CursorContext } from '../../core/index.js';
 import { loadConfig } from '../utils/config.js';
-import { formatAsTable, formatAsCompact, formatAsJSON, printError, printInfo } from '../utils/output.js';
+import { addFilterOptions, toSessionFilters } from '../utils/filters.js';
+import { formatSearchResultsText, formatAsCompact, formatAsJSON, printError, printInfo } from '../utils/output.js';
 import type { SearchOptions } from '../types.js';
 
 export function createSearchCommand(): Command {
@@ -14,12 +15,15 @@ export function createSearchCommand(): Command {
   
   cmd
     .description('Search sessions by content')
-    .argument('<query>', 'Search query')
+    .argument('<query>', 'Search query: words, "phrases", -excluded terms and filters like project:api tag:bug source:claude after:7d')
     .option('-p, --project <path>', 'Limit to specific project')
     .option('--tagged-only', 'Only search tagged sessions')
     .option('--case-sensitive', 'Case sensitive search')
+    .option('-C, --context <number>', 'Messages of context around each match', '1')
     .option('-l, --limit <number>', 'Limit number of results')
-    .option('-f, --format <type>', 'Output format (table, compact, json)')
+    .option('-f, --format <type>', 'Output format (table, compact, json)');
+
+  addFilterOptions(cmd)
     .option('--no-color', 'Disable colors')
     .action(async (query: string, options: SearchOptions) => {
       const spinner = ora(`Searching for "${query}"...`).start();
@@ -31,12 +35,19 @@ export function createSearchCommand(): Command {
         const limit = options.limit ? parseInt(options.limit.toString(), 10) : config.defaultLimit;
         const format = options.format || config.defaultFormat;
         
-        const results = await api.searchSessions({
+        const context = options.context !== undefined ? parseInt(options.context.toString(), 10) : 1;
+        
+        // Highlight only the terms that must match, not operators or excluded terms
+        const { text } = api.parseQuery(query);
+        
+        const results = await api.searchWithContext({
           query,
           projectPath: options.project,
           taggedOnly: options.taggedOnly,
           caseSensitive: options.caseSensitive,
-          limit
+          limit,
+          contextWindow: context,
+          ...toSessionFilters(options)
         });
         
         spinner.stop();
@@ -52,11 +63,11 @@ export function createSearchCommand(): Command {
               console.log(formatAsJSON(results));
               break;
             case 'compact':
-              console.log(formatAsCompact(results));
+              console.log(formatAsCompact(results.map(r => r.session)));
               break;
             case 'table':
             default:
-              console.log(formatAsTable(results));
+              console.log(formatSearchResultsText(results, text));
               break;
           }
         }
@@ -5,39 +5,45 @@
 import { Command } from 'commander';
 import ora from 'ora';
 import { CursorContext } from '../../core/index.js';
-import { printError, printSuccess } from '../utils/output.js';
+import { printError, printSuccess, printWarning, formatSyncReportTable, formatAsJSON } from '../utils/output.js';
 import type { SyncOptions } from '../types.js';
 
 export function createSyncCommand(): Command {
   const cmd = new Command('sync');
 
   cmd
-    .description('Sync sessions from Cursor and/or Claude Code databases')
+    .description('Sync sessions from Cursor, Claude Code and other registered sources')
     .option('-l, --limit <number>', 'Maximum number of sessions to sync', '50')
-    .option('-s, --source <source>', 'Source to sync (cursor, claude, all)', 'all')
+    .option('-s, --source <source>', 'Source to sync (cursor, claude, windsurf, copilot, aider, codex, gemini, import, all)', 'all')
+    .option('-f, --format <type>', 'Output format (table, json)', 'table')
     .action(async (options: SyncOptions) => {
-      const source = (options.source || 'all') as 'cursor' | 'claude' | 'all';
-
-      const sourceLabel = source === 'all'
-        ? 'Cursor and Claude Code'
-        : source === 'cursor'
-          ? 'Cursor'
-          : 'Claude Code';
-
-      const spinner = ora(`Syncing sessions from ${sourceLabel}...`).start();
+      const source = options.source || 'all';
+      const spinner = ora('Syncing sessions...').start();
 
       try {
         const api = new CursorContext();
+        const sourceLabel = api.getSourceLabel(source);
+        spinner.text = `Syncing sessions from ${sourceLabel}...`;
 
         const limit = options.limit ? parseInt(options.limit.toString(), 10) : 50;
-        const synced = await api.syncSessions(limit, source);
+        const report = await api.sync(limit, source);
 
         spinner.stop();
 
-        if (synced === 0) {
-          printSuccess('No new sessions to sync (all up to date)');
+        if (options.format === 'json') {
+          console.log(formatAsJSON(report));
         } else {
-          printSuccess(`Synced ${synced} new session(s) from ${sourceLabel}`);
+          console.log(formatSyncReportTable(report));
+
+          const synced = report.totals.added + report.totals.updated;
+          if (synced === 0) {
+            printSuccess('No new sessions to sync (all up to date)');
+          } else {
+            printSuccess(`Synced ${synced} session(s) from ${sourceLabel} (${report.totals.added} new, ${report.totals.updated} updated)`);
+          }
+          if (report.totals.failed > 0) {
+            printWarning(`${report.totals.failed} session(s) or source(s) failed to sync`);
+          }
         }
 
         api.close();
@@ -4,9 +4,15 @@
 
 import { Command } from 'commander';
 import ora from 'ora';
-import { CursorContext } from '../../core/index.js';
+import { CursorContext, type TagMoveResult } from '../../core/index.js';
 import { printError, printSuccess, formatTagsTable } from '../utils/output.js';
 
+function describeTagMove(result: TagMoveResult, action: 'Renamed' | 'Merged'): string {
+  const [tag, ...children] = result.changes;
+  const childNote = children.length > 0 ? ` (and ${children.length} child tag(s))` : '';
+  return `${action} '${tag!.from}' ${action === 'Merged' ? 'into' : 'to'} '${tag!.to}'${childNote} on ${result.sessions} session(s)`;
+}
+
 export function createTagCommand(): Command {
   const cmd = new Command('tag');
   cmd.description('Manage session tags');
@@ -88,6 +94,46 @@ export function createTagCommand(): Command {
       }
     });
   
+  // tag rename
+  cmd
+    .command('rename')
+    .description('Rename a tag (and its child tags) on every session')
+    .argument('<tag>', 'Tag to rename')
+    .argument('<new-name>', 'New tag name')
+    .action(async (tag: string, newName: string) => {
+      try {
+        const api = new CursorContext();
+
+        const result = api.renameTag(tag, newName);
+        printSuccess(describeTagMove(result, 'Renamed'));
+
+        api.close();
+      } catch (error: any) {
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
+  // tag merge
+  cmd
+    .command('merge')
+    .description('Merge a tag (and its child tags) into another tag')
+    .argument('<tag>', 'Tag to merge away')
+    .argument('<into>', 'Tag to merge it into (created if needed)')
+    .action(async (tag: string, into: string) => {
+      try {
+        const api = new CursorContext();
+
+        const result = api.mergeTags(tag, into);
+        printSuccess(describeTagMove(result, 'Merged'));
+
+        api.close();
+      } catch (error: any) {
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
   return cmd;
 }
 
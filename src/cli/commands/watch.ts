@@ -0,0 +1,74 @@
+/**
+ * Watch Command
+ */
+
+import { Command } from 'commander';
+import { CursorContext, SessionWatcher, type SessionWatchEvent } from '../../core/index.js';
+import { printError, printInfo } from '../utils/output.js';
+import type { WatchOptions } from '../types.js';
+
+/**
+ * Log line for a watcher sync
+ */
+function formatWatchEvent(event: SessionWatchEvent): string {
+  const time = new Date().toLocaleTimeString();
+
+  if (event.trigger !== 'change') {
+    const label = event.trigger === 'initial' ? 'initial sync' : 'periodic sync';
+    return `[${time}] ${label} finished (${event.durationMs}ms)`;
+  }
+
+  const shown = event.sessionIds.slice(0, 5).join(', ');
+  const more = event.sessionIds.length > 5 ? `, +${event.sessionIds.length - 5} more` : '';
+  const ids = event.sessionIds.length > 0 ? ` (${shown}${more})` : '';
+  return `[${time}] ${event.source}: synced ${event.sessionIds.length} session(s)${ids} in ${event.durationMs}ms`;
+}
+
+export function createWatchCommand(): Command {
+  const cmd = new Command('watch');
+
+  cmd
+    .description('Watch session sources and keep the metadata database synced as chats change')
+    .option('-s, --source <source>', 'Source to watch (cursor, claude, windsurf, copilot, aider, codex, gemini, import, all)', 'all')
+    .option('-d, --debounce <ms>', 'Wait this long after the last change before syncing', '1000')
+    .option('-i, --interval <minutes>', 'Full sync interval in minutes (0 disables)', '4')
+    .action(async (options: WatchOptions) => {
+      try {
+        const api = new CursorContext();
+        const source = options.source || 'all';
+        const watcher = new SessionWatcher(api, {
+          source,
+          debounceMs: parseInt(String(options.debounce ?? 1000), 10),
+          fullSyncIntervalMs: parseFloat(String(options.interval ?? 4)) * 60 * 1000
+        });
+
+        watcher.on('sync', (event: SessionWatchEvent) => console.log(formatWatchEvent(event)));
+        watcher.on('error', (error: Error) => printError(error.message));
+
+        printInfo(`Syncing sessions from ${api.getSourceLabel(source)}...`);
+        const watched = await watcher.start();
+
+        if (watched.length === 0) {
+          printInfo('No watchable paths found; relying on periodic sync');
+        } else {
+          for (const watchedPath of watched) {
+            printInfo(`Watching ${watchedPath}`);
+          }
+        }
+        printInfo('Press Ctrl+C to stop');
+
+        const shutdown = async () => {
+          await watcher.stop();
+          api.close();
+          process.exit(0);
+        };
+        process.on('SIGINT', shutdown);
+        process.on('SIGTERM', shutdown);
+      } catch (error: any) {
+        printError(error.message);
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
@@ -12,10 +12,18 @@ import { createGetCommand } from './commands/get.js';
 import { createSearchCommand } from './commands/search.js';
 import { createNicknameCommand } from './commands/nickname.js';
 import { createTagCommand } from './commands/tag.js';
+import { createNoteCommand } from './commands/note.js';
+import { createBookmarkCommand } from './commands/bookmark.js';
+import { createLinkCommand } from './commands/link.js';
+import { createCollectionCommand } from './commands/collection.js';
 import { createSyncCommand } from './commands/sync.js';
 import { createStatsCommand } from './commands/stats.js';
 import { createProjectsCommand } from './commands/projects.js';
 import { createConfigCommand } from './commands/config.js';
+import { createImportCommand } from './commands/import.js';
+import { createWatchCommand } from './commands/watch.js';
+import { createPruneCommand } from './commands/prune.js';
+import { createDbCommand } from './commands/db.js';
 
 const program = new Command();
 
@@ -30,10 +38,18 @@ program.addCommand(createGetCommand());
 program.addCommand(createSearchCommand());
 program.addCommand(createNicknameCommand());
 program.addCommand(createTagCommand());
+program.addCommand(createNoteCommand());
+program.addCommand(createBookmarkCommand());
+program.addCommand(createLinkCommand());
+program.addCommand(createCollectionCommand());
 program.addCommand(createSyncCommand());
 program.addCommand(createStatsCommand());
 program.addCommand(createProjectsCommand());
 program.addCommand(createConfigCommand());
+program.addCommand(createImportCommand());
+program.addCommand(createWatchCommand());
+program.addCommand(createPruneCommand());
+program.addCommand(createDbCommand());
 
 // Parse arguments
 program.parse();
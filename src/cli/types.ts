@@ -5,7 +5,7 @@
 export interface CLIConfig {
   defaultFormat: 'json' | 'markdown' | 'table' | 'compact';
   defaultLimit: number;
-  defaultSort: 'newest' | 'oldest' | 'most_messages';
+  defaultSort: 'newest' | 'oldest' | 'most_messages' | 'recently_active';
   useColors: boolean;
   cursorDBPath?: string;
   metadataDBPath?: string;
@@ -17,28 +17,92 @@ export interface GlobalOptions {
   limit?: number;
 }
 
-export interface ListOptions extends GlobalOptions {
+export interface FilterOptions {
+  since?: string;
+  until?: string;
+  minMessages?: string;
+  maxMessages?: string;
+  model?: string;
+  branch?: string;
+}
+
+export interface ListOptions extends GlobalOptions, FilterOptions {
   project?: string;
   tag?: string;
   taggedOnly?: boolean;
-  sort?: 'newest' | 'oldest' | 'most_messages';
-  source?: 'cursor' | 'claude' | 'all';
+  sort?: 'newest' | 'oldest' | 'most_messages' | 'recently_active';
+  source?: string;
 }
 
-export interface SearchOptions extends GlobalOptions {
+export interface SearchOptions extends GlobalOptions, FilterOptions {
   project?: string;
   taggedOnly?: boolean;
   caseSensitive?: boolean;
+  context?: number;
 }
 
 export interface GetOptions extends GlobalOptions {
   messagesOnly?: boolean;
   maxMessages?: number;
   noTools?: boolean;
+  details?: boolean;
+  reasoning?: boolean;
+  subagents?: boolean;
 }
 
 export interface SyncOptions {
   limit?: number;
-  source?: 'cursor' | 'claude' | 'all';
+  source?: string;
+  format?: 'table' | 'json';
+}
+
+export interface PruneOptions {
+  source?: string;
+  purge?: boolean;
+  restore?: boolean;
+  dryRun?: boolean;
+  sync?: boolean;
+  format?: 'table' | 'json';
+}
+
+export interface NoteOptions {
+  message?: string;
+  format?: 'table' | 'json';
+}
+
+export interface BookmarkOptions {
+  label?: string;
+  limit?: number;
+  format?: 'table' | 'json' | 'markdown';
+}
+
+export interface CollectionOptions extends GlobalOptions, FilterOptions {
+  query?: string;
+  project?: string;
+  tag?: string;
+  taggedOnly?: boolean;
+  source?: string;
+  sort?: 'newest' | 'oldest' | 'most_messages' | 'recently_active';
+  caseSensitive?: boolean;
+  includeMissing?: boolean;
+  description?: string;
+}
+
+export interface LinkOptions {
+  type?: string;
+  format?: 'table' | 'json' | 'compact';
 }
 
+export interface WatchOptions {
+  source?: string;
+  debounce?: number;
+  interval?: number;
+}
+
+
+export interface ImportOptions {
+  provider?: string;
+  project?: string;
+  rule?: Array<{ pattern: string; projectPath: string }>;
+  format?: 'table' | 'json';
+}
@@ -82,8 +82,8 @@ export function setConfigValue(key: keyof CLIConfig, value: any): void {
       value = num;
       break;
     case 'defaultSort':
-      if (!['newest', 'oldest', 'most_messages'].includes(value)) {
-        throw new Error('defaultSort must be: newest, oldest, or most_messages');
+      if (!['newest', 'oldest', 'most_messages', 'recently_active'].includes(value)) {
+        throw new Error('defaultSort must be: newest, oldest, most_messages, or recently_active');
       }
       break;
     case 'useColors':
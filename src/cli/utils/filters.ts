@@ -0,0 +1,48 @@
+/**
+ * Session Filter Options
+ *
+ * Date, size, model and branch filters shared by the list, search and collection commands
+ */
+
+import type { Command } from 'commander';
+import type { CollectionQuery } from '../../core/index.js';
+import type { FilterOptions } from '../types.js';
+
+/**
+ * Register the filter options on a command
+ */
+export function addFilterOptions(cmd: Command): Command {
+  return cmd
+    .option('--since <date>', 'Only sessions created since this date (ISO, or relative: 12h, 7d, 2w, 3m, 1y, today)')
+    .option('--until <date>', 'Only sessions created until this date (an ISO date includes the whole day)')
+    .option('--min-messages <number>', 'Only sessions with at least this many messages')
+    .option('--max-messages <number>', 'Only sessions with at most this many messages')
+    .option('--model <name>', 'Only sessions answered by this model (or part of its name, e.g. sonnet)')
+    .option('--branch <name>', 'Only sessions run on this git branch');
+}
+
+/**
+ * Convert parsed filter options to API filters (dates are kept as given)
+ * @throws Error if a message count is not a number
+ */
+export function toSessionFilters(options: FilterOptions): Pick<CollectionQuery, 'since' | 'until' | 'minMessages' | 'maxMessages' | 'model' | 'gitBranch'> {
+  const count = (value: string | undefined, flag: string) => {
+    if (value === undefined) {
+      return undefined;
+    }
+    const num = parseInt(value, 10);
+    if (isNaN(num) || num < 0) {
+      throw new Error(`${flag} must be a non-negative number`);
+    }
+    return num;
+  };
+
+  return {
+    since: options.since,
+    until: options.until,
+    minMessages: count(options.minMessages, '--min-messages'),
+    maxMessages: count(options.maxMessages, '--max-messages'),
+    model: options.model,
+    gitBranch: options.branch
+  };
+}
@@ -4,8 +4,9 @@
 
 import chalk from 'chalk';
 import Table from 'cli-table3';
-import type { SessionMetadata } from '../../core/types.js';
-import { formatSessionMarkdown, formatSessionJSON, formatSessionPreview } from '../../core/index.js';
+import type { SessionMetadata, SessionNote, BookmarkedExchange, RelatedSession, SavedCollection, SearchResult, ParsedMessage } from '../../core/types.js';
+import type { SyncReport, FormatOptions } from '../../core/index.js';
+import { formatSessionMarkdown, formatSessionJSON, formatSessionPreview, formatCollectionQuery, highlightMatches, createSnippet } from '../../core/index.js';
 import { loadConfig } from './config.js';
 
 /**
@@ -85,6 +86,55 @@ export function formatAsCompact(sessions: SessionMetadata[]): string {
   return lines.join('\n');
 }
 
+/**
+ * Format search results with matching messages and highlighted terms
+ */
+export function formatSearchResultsText(results: SearchResult[], query: string): string {
+  if (results.length === 0) {
+    return chalk.yellow('No sessions found.');
+  }
+  
+  const colors = useColors();
+  const role = (msg: ParsedMessage) => msg.role.toUpperCase();
+  
+  const blocks = results.map((result, i) => {
+    const session = result.session;
+    const lines: string[] = [];
+    
+    const num = `${i + 1}.`;
+    const id = session.nickname || session.session_id.substring(0, 8);
+    const project = session.project_name ? `[${session.project_name}]` : '';
+    const msgCount = `${session.message_count || 0} msgs`;
+    
+    if (colors) {
+      lines.push(`${chalk.gray(num)} ${chalk.cyan(id)} ${chalk.yellow(project)} ${chalk.green(msgCount)}`.trim());
+    } else {
+      lines.push(`${num} ${id} ${project} ${msgCount}`.trim());
+    }
+    
+    for (const match of result.matches) {
+      for (const msg of match.contextBefore) {
+        const line = `    ${role(msg)}: ${createSnippet(msg.content, query, 100)}`;
+        lines.push(colors ? chalk.gray(line) : line);
+      }
+      
+      const snippet = createSnippet(match.message.content, query);
+      const highlighted = highlightMatches(snippet, query, term => colors ? chalk.bold.yellow(term) : `[${term}]`);
+      lines.push(`  > ${colors ? chalk.bold(role(match.message)) : role(match.message)}: ${highlighted}`);
+      
+      for (const msg of match.contextAfter) {
+        const line = `    ${role(msg)}: ${createSnippet(msg.content, query, 100)}`;
+        lines.push(colors ? chalk.gray(line) : line);
+      }
+      lines.push('');
+    }
+    
+    return lines.join('\n').trimEnd();
+  });
+  
+  return blocks.join('\n\n');
+}
+
 /**
  * Format session list as JSON
  */
@@ -95,12 +145,12 @@ export function formatAsJSON(data: any): string {
 /**
  * Format a single session based on format
  */
-export function formatSession(session: any, format: 'json' | 'markdown' | 'table' | 'compact'): string {
+export function formatSession(session: any, format: 'json' | 'markdown' | 'table' | 'compact', options: FormatOptions = {}): string {
   switch (format) {
     case 'json':
       return formatSessionJSON(session);
     case 'markdown':
-      return formatSessionMarkdown(session);
+      return formatSessionMarkdown(session, options);
     case 'table':
       return formatSessionMetadataTable(session.metadata);
     case 'compact':
@@ -129,6 +179,10 @@ function formatSessionMetadataTable(metadata: SessionMetadata): string {
   if (metadata.nickname) {
     addRow('Nickname', colors ? chalk.cyan(metadata.nickname) : metadata.nickname);
   }
+
+  if (metadata.summary_title) {
+    addRow('Summary', metadata.summary_title);
+  }
   
   if (metadata.project_name) {
     addRow('Project', colors ? chalk.yellow(metadata.project_name) : metadata.project_name);
@@ -239,6 +293,43 @@ export function formatStatsTable(stats: any): string {
   return table.toString();
 }
 
+/**
+ * Format a sync report as a table of per-source outcomes, followed by any errors
+ */
+export function formatSyncReportTable(report: SyncReport): string {
+  const colors = useColors();
+  const table = new Table({
+    head: ['Source', 'Added', 'Updated', 'Unchanged', 'Empty', 'Failed', 'Missing', 'Time']
+      .map(label => colors ? chalk.bold(label) : label)
+  });
+
+  for (const source of report.sources) {
+    const failed = source.failed.length + (source.error ? 1 : 0);
+    table.push([
+      colors ? chalk.cyan(source.label) : source.label,
+      colors ? chalk.green(source.added.length.toString()) : source.added.length.toString(),
+      colors ? chalk.green(source.updated.length.toString()) : source.updated.length.toString(),
+      source.unchanged.toString(),
+      source.skippedEmpty.length.toString(),
+      colors && failed > 0 ? chalk.red(failed.toString()) : failed.toString(),
+      colors && source.missing.length > 0 ? chalk.yellow(source.missing.length.toString()) : source.missing.length.toString(),
+      `${source.durationMs}ms`
+    ]);
+  }
+
+  const lines = [table.toString()];
+
+  for (const source of report.sources) {
+    const errors = source.error ? [source.error, ...source.failed] : source.failed;
+    for (const failure of errors) {
+      const line = `${failure.sessionId}: ${failure.error}: ${failure.message}`;
+      lines.push(colors ? chalk.red(line) : line);
+    }
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Format projects as table
  */
@@ -295,3 +386,144 @@ export function formatTagsTable(tags: Array<{ tag: string; count: number }>): st
   return table.toString();
 }
 
+
+/**
+ * Format notes as table
+ */
+export function formatNotesTable(notes: SessionNote[]): string {
+  if (notes.length === 0) {
+    return chalk.yellow('No notes found.');
+  }
+
+  const colors = useColors();
+  const table = new Table({
+    head: [
+      colors ? chalk.bold('ID') : 'ID',
+      colors ? chalk.bold('Message') : 'Message',
+      colors ? chalk.bold('Note') : 'Note',
+      colors ? chalk.bold('Updated') : 'Updated'
+    ],
+    colWidths: [6, 14, 60, 12],
+    wordWrap: true
+  });
+
+  for (const note of notes) {
+    const message = note.bubble_id ? note.bubble_id.substring(0, 12) : '(session)';
+    table.push([
+      colors ? chalk.cyan(note.id.toString()) : note.id.toString(),
+      colors ? chalk.gray(message) : message,
+      note.content,
+      formatRelativeDate(note.updated_at)
+    ]);
+  }
+
+  return table.toString();
+}
+
+/**
+ * Format bookmarked exchanges as table
+ */
+export function formatBookmarksTable(exchanges: BookmarkedExchange[]): string {
+  if (exchanges.length === 0) {
+    return chalk.yellow('No bookmarks found.');
+  }
+
+  const colors = useColors();
+  const table = new Table({
+    head: [
+      colors ? chalk.bold('ID') : 'ID',
+      colors ? chalk.bold('Session') : 'Session',
+      colors ? chalk.bold('Label') : 'Label',
+      colors ? chalk.bold('Question') : 'Question',
+      colors ? chalk.bold('Added') : 'Added'
+    ],
+    colWidths: [6, 22, 20, 50, 12]
+  });
+
+  for (const exchange of exchanges) {
+    const session = exchange.session.nickname || exchange.session.session_id.substring(0, 18);
+    const question = (exchange.question?.content || exchange.answer[0]?.content || '-').replace(/\s+/g, ' ').substring(0, 45);
+    const label = exchange.bookmark.label || '-';
+
+    table.push([
+      colors ? chalk.cyan(exchange.bookmark.id.toString()) : exchange.bookmark.id.toString(),
+      colors ? chalk.cyan(session) : session,
+      colors ? chalk.magenta(label) : label,
+      colors ? chalk.gray(question) : question,
+      formatRelativeDate(exchange.bookmark.created_at)
+    ]);
+  }
+
+  return table.toString();
+}
+
+/**
+ * Format the sessions linked to a session as table
+ */
+export function formatLinkedSessionsTable(related: RelatedSession[]): string {
+  if (related.length === 0) {
+    return chalk.yellow('No linked sessions found.');
+  }
+
+  const colors = useColors();
+  const table = new Table({
+    head: [
+      colors ? chalk.bold('Relation') : 'Relation',
+      colors ? chalk.bold('Nickname/ID') : 'Nickname/ID',
+      colors ? chalk.bold('Project') : 'Project',
+      colors ? chalk.bold('Origin') : 'Origin',
+      colors ? chalk.bold('Created') : 'Created'
+    ],
+    colWidths: [15, 25, 20, 10, 15]
+  });
+
+  for (const { relation, session, link } of related) {
+    const id = session.nickname || session.session_id.substring(0, 18);
+    const project = session.project_name || '-';
+    const created = session.created_at ? formatRelativeDate(session.created_at) : '-';
+
+    table.push([
+      colors ? chalk.magenta(relation) : relation,
+      colors ? chalk.cyan(id) : id,
+      colors ? chalk.gray(project) : project,
+      link.origin,
+      colors ? chalk.gray(created) : created
+    ]);
+  }
+
+  return table.toString();
+}
+
+/**
+ * Format saved collections as table
+ */
+export function formatCollectionsTable(collections: SavedCollection[]): string {
+  if (collections.length === 0) {
+    return chalk.yellow('No collections found.');
+  }
+
+  const colors = useColors();
+  const table = new Table({
+    head: [
+      colors ? chalk.bold('Name') : 'Name',
+      colors ? chalk.bold('Filters') : 'Filters',
+      colors ? chalk.bold('Description') : 'Description',
+      colors ? chalk.bold('Updated') : 'Updated'
+    ],
+    colWidths: [22, 45, 30, 12],
+    wordWrap: true
+  });
+
+  for (const collection of collections) {
+    const description = collection.description || '-';
+
+    table.push([
+      colors ? chalk.cyan(collection.name) : collection.name,
+      colors ? chalk.magenta(formatCollectionQuery(collection.query)) : formatCollectionQuery(collection.query),
+      colors ? chalk.gray(description) : description,
+      formatRelativeDate(collection.updated_at)
+    ]);
+  }
+
+  return table.toString();
+}
@@ -0,0 +1,262 @@
+/**
+ * Aider Chat History Reader
+ *
+ * Reads sessions from Aider's markdown transcripts (.aider.chat.history.md), which
+ * Aider appends to in the root of each repo it is run in.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { getAiderRoots } from './platform.js';
+
+/**
+ * Transcript file name written by Aider
+ */
+export const AIDER_HISTORY_FILE = '.aider.chat.history.md';
+
+/**
+ * Directories never descended into while scanning for transcripts
+ */
+const SKIPPED_DIRS = new Set(['node_modules', 'vendor', 'dist', 'build', 'target', 'Library']);
+
+/**
+ * Single turn in an Aider transcript
+ * `tool` turns are Aider's own output (`> ` lines: applied edits, commits, command output)
+ */
+export interface AiderMessage {
+  role: 'user' | 'assistant' | 'tool';
+  content: string;
+}
+
+/**
+ * Session parsed from a transcript, before it is tied to a file
+ */
+export interface AiderTranscriptSession {
+  /** Header line (`# aider chat started at ...`) */
+  header: string;
+  /** Start time from the header (milliseconds since epoch) */
+  startedAt?: number;
+  messages: AiderMessage[];
+}
+
+/**
+ * Aider session with its location
+ */
+export interface AiderSession extends AiderTranscriptSession {
+  sessionId: string;
+  filePath: string;
+  /** Repo containing the transcript */
+  projectPath: string;
+  /** Start of the next session in the file, or the file's mtime for the last one */
+  lastUpdatedAt: number;
+}
+
+/**
+ * Split an Aider transcript into sessions and turns
+ */
+export function parseAiderHistory(markdown: string): AiderTranscriptSession[] {
+  const sessions: AiderTranscriptSession[] = [];
+  let current: AiderTranscriptSession | null = null;
+  let turn = null as AiderMessage | null;
+
+  const flushTurn = () => {
+    if (current && turn && turn.content.trim()) {
+      current.messages.push({ role: turn.role, content: turn.content.trim() });
+    }
+    turn = null;
+  };
+
+  const append = (role: AiderMessage['role'], text: string) => {
+    if (turn?.role !== role) {
+      flushTurn();
+      turn = { role, content: '' };
+    }
+    turn!.content += (turn!.content ? '\n' : '') + text;
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const header = line.match(/^# aider chat started at (.+)$/);
+    if (header) {
+      flushTurn();
+      current = { header: line, startedAt: parseHeaderTime(header[1]!), messages: [] };
+      sessions.push(current);
+      continue;
+    }
+
+    // Text before the first header belongs to no session
+    if (!current) {
+      continue;
+    }
+
+    if (line.startsWith('#### ')) {
+      append('user', line.substring(5));
+    } else if (line === '>' || line.startsWith('> ')) {
+      append('tool', line.substring(2));
+    } else if (turn?.role === 'user' && line.trim() === '') {
+      // Blank line ends a user turn; the reply follows
+      flushTurn();
+    } else if (turn || line.trim()) {
+      append('assistant', line);
+    }
+  }
+
+  flushTurn();
+
+  return sessions.filter(s => s.messages.length > 0);
+}
+
+/**
+ * Parse the local time in a session header ("2024-05-01 10:23:45")
+ */
+function parseHeaderTime(value: string): number | undefined {
+  const parsed = Date.parse(value.trim().replace(' ', 'T'));
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Stable session ID from the transcript path and the session's header line
+ */
+function sessionIdFor(filePath: string, header: string): string {
+  return crypto.createHash('sha1').update(`${filePath}\n${header}`).digest('hex').substring(0, 16);
+}
+
+/**
+ * Nearest ancestor directory containing .git (falls back to the transcript's directory)
+ */
+function findRepoRoot(filePath: string): string {
+  const start = path.dirname(filePath);
+  let dir = start;
+
+  while (true) {
+    if (fs.existsSync(path.join(dir, '.git'))) {
+      return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return start;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Reader for Aider sessions found under a set of root directories
+ */
+export class AiderHistoryDB {
+  private roots: string[];
+  private cache = new Map<string, { signature: string; sessions: AiderSession[] }>();
+
+  /**
+   * @param roots - Directories to scan (default: CURSOR_CONTEXT_AIDER_ROOTS, or none)
+   * @param maxDepth - How many directory levels below each root to scan (default: 4)
+   */
+  constructor(roots?: string[], private readonly maxDepth = 4) {
+    this.roots = roots || getAiderRoots();
+  }
+
+  /**
+   * Find all transcript files under the roots
+   */
+  findHistoryFiles(): string[] {
+    const files = new Set<string>();
+
+    const walk = (dir: string, depth: number) => {
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(dir, { withFileTypes: true });
+      } catch {
+        // Unreadable directory
+        return;
+      }
+
+      for (const entry of entries) {
+        if (entry.isFile() && entry.name === AIDER_HISTORY_FILE) {
+          files.add(path.join(dir, entry.name));
+        } else if (entry.isDirectory() && depth < this.maxDepth &&
+                   !entry.name.startsWith('.') && !SKIPPED_DIRS.has(entry.name)) {
+          walk(path.join(dir, entry.name), depth + 1);
+        }
+      }
+    };
+
+    for (const root of this.roots) {
+      walk(path.resolve(root), 0);
+    }
+
+    return Array.from(files);
+  }
+
+  /**
+   * Get all sessions from all transcripts
+   */
+  getAllSessions(): AiderSession[] {
+    return this.findHistoryFiles().flatMap(file => this.readHistoryFile(file));
+  }
+
+  /**
+   * Get session IDs with their last updated timestamps, newest first
+   */
+  getSessionTimestamps(limit?: number): Map<string, number> {
+    const sorted = this.getAllSessions().sort((a, b) => b.lastUpdatedAt - a.lastUpdatedAt);
+    const limited = limit ? sorted.slice(0, limit) : sorted;
+
+    return new Map(limited.map(s => [s.sessionId, s.lastUpdatedAt]));
+  }
+
+  /**
+   * Get a session by ID
+   * Checks already parsed transcripts before rescanning the roots.
+   */
+  getSession(sessionId: string): AiderSession | null {
+    for (const [filePath, cached] of this.cache) {
+      if (cached.sessions.some(s => s.sessionId === sessionId)) {
+        const session = this.readHistoryFile(filePath).find(s => s.sessionId === sessionId);
+        if (session) {
+          return session;
+        }
+      }
+    }
+
+    return this.getAllSessions().find(s => s.sessionId === sessionId) || null;
+  }
+
+  /**
+   * Release cached transcripts
+   */
+  close(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Parse one transcript (cached until the file changes)
+   */
+  private readHistoryFile(filePath: string): AiderSession[] {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(filePath);
+    } catch {
+      return [];
+    }
+
+    const signature = `${stat.mtimeMs}:${stat.size}`;
+    const cached = this.cache.get(filePath);
+    if (cached && cached.signature === signature) {
+      return cached.sessions;
+    }
+
+    const projectPath = findRepoRoot(filePath);
+    const transcript = parseAiderHistory(fs.readFileSync(filePath, 'utf-8'));
+
+    const sessions = transcript.map((session, i) => ({
+      ...session,
+      sessionId: sessionIdFor(filePath, session.header),
+      filePath,
+      projectPath,
+      lastUpdatedAt: transcript[i + 1]?.startedAt || Math.floor(stat.mtimeMs)
+    }));
+
+    this.cache.set(filePath, { signature, sessions });
+    return sessions;
+  }
+}
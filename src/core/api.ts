@@ -4,56 +4,113 @@
  * High-level API that orchestrates all core modules
  */
 
+import fs from 'fs';
+import path from 'path';
 import { CursorDB } from './cursor-db.js';
 import { ClaudeCodeDB } from './claude-code-db.js';
-import { MetadataDB } from './metadata-db.js';
+import { WindsurfDB } from './windsurf-db.js';
+import { CopilotChatDB } from './copilot-chat-db.js';
+import { AiderHistoryDB } from './aider-history-db.js';
+import { CodexDB } from './codex-db.js';
+import { GeminiDB } from './gemini-db.js';
+import { parseConversationsExport, type ExportProvider } from './chat-export.js';
+import { MetadataDB, type TagMoveResult, type SessionListQuery } from './metadata-db.js';
 import { getCursorDBPath, getMetadataDBPath } from './platform.js';
-import { parseBubbles, type ParseOptions } from './message-parser.js';
-import { getWorkspaceInfo, extractWorkspaceFromComposerData, getProjectName, isEmptySession } from './workspace-extractor.js';
-import { getClaudeWorkspaceInfo } from './claude-workspace-extractor.js';
-import { claudeToUnified } from './format-adapters.js';
-import { SessionNotFoundError } from './errors.js';
+import { type ParseOptions } from './message-parser.js';
+import { getProjectName } from './workspace-extractor.js';
+import { parseDateFilter } from './date-filter.js';
+import { parseSearchQuery, type ParsedSearchQuery, type SearchTerm } from './query-parser.js';
+import { SessionSourceRegistry, parseSessionId, type SessionSource } from './session-source.js';
+import {
+  CursorSessionSource,
+  ClaudeCodeSessionSource,
+  WindsurfSessionSource,
+  CopilotSessionSource,
+  AiderSessionSource,
+  CodexSessionSource,
+  GeminiSessionSource,
+  ImportSessionSource
+} from './session-sources.js';
+import { SessionNotFoundError, SessionMissingError, DataCorruptionError } from './errors.js';
 import type { 
   SessionMetadata, 
   SessionWithMessages, 
+  SessionNote,
+  MessageBookmark,
+  BookmarkedExchange,
+  SessionLink,
+  SessionLinkType,
+  RelatedSession,
+  SessionThread,
+  SavedCollection,
+  CollectionQuery,
   ParsedMessage,
-  ProjectInfo
+  SubConversation,
+  ProjectInfo,
+  SearchResult,
+  SearchMatch
 } from './types.js';
 
 /**
- * Options for listing sessions
+ * Session filters shared by listing and searching
  */
-export interface ListSessionsOptions {
+export interface SessionFilterOptions {
   /** Filter by project path */
   projectPath?: string;
+  /** Filter by project name (last segment of the path), ignoring case */
+  projectName?: string;
+  /** Filter by tag; a parent tag (`area`) also matches its children (`area/auth`) */
+  tag?: string;
   /** Only include sessions with tags */
   taggedOnly?: boolean;
+  /** Filter by source name (e.g. cursor, claude, aider) or 'all' */
+  source?: string;
+  /** Only sessions created at or after this time: ISO date, relative ('7d', '2w', '3m') or timestamp (ms) */
+  since?: string | number;
+  /** Only sessions created at or before this time (an ISO date without a time includes the whole day) */
+  until?: string | number;
+  /** Minimum number of messages */
+  minMessages?: number;
+  /** Maximum number of messages */
+  maxMessages?: number;
+  /** Model name, or part of it (e.g. 'sonnet'); only some sources record the model */
+  model?: string;
+  /** Git branch; only some sources record the branch */
+  gitBranch?: string;
+  /** Include sessions that no longer exist in their source (default: false) */
+  includeMissing?: boolean;
+}
+
+/**
+ * Options for listing sessions
+ */
+export interface ListSessionsOptions extends SessionFilterOptions {
   /** Limit number of results */
   limit?: number;
-  /** Filter by specific tag */
-  tag?: string;
-  /** Sort order (newest first by default) */
-  sortBy?: 'newest' | 'oldest' | 'most_messages';
+  /** Sort order (newest first by default); recently_active puts the sessions last changed first */
+  sortBy?: 'newest' | 'oldest' | 'most_messages' | 'recently_active';
   /** Force sync before listing (default: auto-sync if >5min stale) */
   syncFirst?: boolean;
-  /** Filter by source (cursor, claude, or all) */
-  source?: 'cursor' | 'claude' | 'all';
 }
 
 /**
  * Options for searching sessions
  */
-export interface SearchSessionsOptions {
-  /** Search query (searches in first message preview) */
+export interface SearchSessionsOptions extends SessionFilterOptions {
+  /**
+   * Search query (full message content, nickname, preview, tags and project name)
+   * Supports "phrases", -excluded terms and filter operators (project:api tag:bug
+   * after:7d ...); operators take precedence over the options they correspond to.
+   */
   query: string;
-  /** Limit to specific project */
-  projectPath?: string;
-  /** Only search sessions with tags */
-  taggedOnly?: boolean;
   /** Maximum results */
   limit?: number;
-  /** Case sensitive search */
+  /** Case sensitive search (metadata fields only; full-text matching ignores case) */
   caseSensitive?: boolean;
+  /** Messages of context to include on each side of a match (searchWithContext only, default: 2) */
+  contextWindow?: number;
+  /** Maximum matching messages returned per session (searchWithContext only, default: 3) */
+  maxMatchesPerSession?: number;
 }
 
 /**
@@ -64,16 +121,236 @@ export interface GetSessionOptions {
   parseOptions?: ParseOptions;
   /** Load full messages or just metadata */
   includeMessages?: boolean;
+  /** Also load the conversations of subagents the session started (default: false) */
+  includeSubagents?: boolean;
+}
+
+/**
+ * Options for adding a note
+ */
+export interface AddNoteOptions {
+  /** Attach the note to this message (bubbleId / Claude uuid, or a unique prefix of it) */
+  messageId?: string;
+}
+
+/**
+ * Saved collection together with the sessions it currently matches
+ */
+export interface CollectionResult {
+  collection: SavedCollection;
+  sessions: SessionMetadata[];
+}
+
+/**
+ * Rule assigning a project path to imported conversations
+ */
+export interface ProjectRule {
+  /** Matched against the conversation title, then its first user message (strings are case-insensitive regexes) */
+  pattern: string | RegExp;
+  projectPath: string;
+}
+
+/**
+ * Options for importing a data-export file
+ */
+export interface ImportExportOptions {
+  /** Export format (default: detected from the file) */
+  provider?: ExportProvider;
+  /** Project path for conversations no rule matches */
+  projectPath?: string;
+  /** Project rules, first match wins */
+  projectRules?: ProjectRule[];
+}
+
+/**
+ * Outcome of importing a data-export file
+ */
+export interface ImportExportResult {
+  provider: ExportProvider;
+  /** Conversations in the export (including empty ones) */
+  total: number;
+  added: number;
+  updated: number;
+  unchanged: number;
+  /** Prefixed IDs of all imported sessions */
+  sessionIds: string[];
+}
+
+/**
+ * Error recorded during a sync
+ */
+export interface SyncFailure {
+  /** Prefixed session ID (or the source name for source-level errors) */
+  sessionId: string;
+  /** Error class name (e.g. DataCorruptionError, SyntaxError) */
+  error: string;
+  message: string;
+}
+
+/**
+ * Sync outcome for one source
+ */
+export interface SourceSyncReport {
+  source: string;
+  label: string;
+  /** Prefixed IDs of sessions synced for the first time */
+  added: string[];
+  /** Prefixed IDs of sessions re-synced because they changed */
+  updated: string[];
+  /** Sessions already up to date */
+  unchanged: number;
+  /** Prefixed IDs of sessions skipped because they have no messages */
+  skippedEmpty: string[];
+  /** Sessions that could not be synced */
+  failed: SyncFailure[];
+  /** Prefixed IDs of sessions newly found missing from the source */
+  missing: string[];
+  /** Set when the source could not be read at all */
+  error?: SyncFailure;
+  durationMs: number;
+}
+
+/**
+ * Outcome of a sync across sources
+ */
+export interface SyncReport {
+  sources: SourceSyncReport[];
+  totals: {
+    added: number;
+    updated: number;
+    unchanged: number;
+    skippedEmpty: number;
+    /** Failed sessions plus sources that could not be read */
+    failed: number;
+    missing: number;
+  };
+  durationMs: number;
+}
+
+/**
+ * What happened to a single session during sync
+ */
+type SessionSyncOutcome =
+  | { status: 'added' | 'updated'; metadata: SessionMetadata; references: SessionReference[] }
+  | { status: 'empty' }
+  | { status: 'failed'; failure: SyncFailure };
+
+function emptySourceReport(source: SessionSource): SourceSyncReport {
+  return {
+    source: source.name,
+    label: source.label,
+    added: [],
+    updated: [],
+    unchanged: 0,
+    skippedEmpty: [],
+    failed: [],
+    missing: [],
+    durationMs: 0
+  };
+}
+
+function toSyncFailure(sessionId: string, error: unknown): SyncFailure {
+  return error instanceof Error
+    ? { sessionId, error: error.name, message: error.message }
+    : { sessionId, error: 'Error', message: String(error) };
+}
+
+/**
+ * Session a conversation fetched with the get_session MCP tool
+ */
+interface SessionReference {
+  /** Nickname or ID as passed to the tool */
+  reference: string;
+  /** Whether the call came before the conversation's second question */
+  early: boolean;
+}
+
+/**
+ * Synced session whose references still need to be turned into links
+ */
+type PendingLinks = Array<{ session: SessionMetadata; references: SessionReference[] }>;
+
+/**
+ * Time of the latest message that has a timestamp (undefined if none has)
+ */
+function lastMessageTime(messages: ParsedMessage[]): number | undefined {
+  const times = messages.map(m => m.timestamp ? Date.parse(m.timestamp) : NaN).filter(time => !isNaN(time));
+  return times.length > 0 ? Math.max(...times) : undefined;
+}
+
+/**
+ * Find the get_session calls in a conversation
+ */
+function findSessionReferences(messages: ParsedMessage[]): SessionReference[] {
+  const references: SessionReference[] = [];
+  const secondQuestion = messages.map(m => m.role).indexOf('user', messages.findIndex(m => m.role === 'user') + 1);
+
+  messages.forEach((msg, index) => {
+    const params = msg.toolData?.params;
+    if (!params || !msg.toolData!.name.endsWith('get_session')) {
+      return;
+    }
+
+    // Directly, or nested in params.tools[].parameters (MCP wrapper format)
+    const candidates: unknown[] = [params];
+    if (Array.isArray(params.tools)) {
+      for (const tool of params.tools) {
+        try {
+          candidates.push(typeof tool?.parameters === 'string' ? JSON.parse(tool.parameters) : tool?.parameters);
+        } catch {
+          // Failed to parse nested parameters, continue
+        }
+      }
+    }
+
+    for (const candidate of candidates) {
+      const reference = (candidate as Record<string, unknown> | undefined)?.idOrNickname;
+      if (typeof reference === 'string' && reference) {
+        references.push({ reference, early: secondQuestion === -1 || index < secondQuestion });
+      }
+    }
+  });
+
+  return references;
+}
+
+/**
+ * Options for pruning sessions that no longer exist in their source
+ */
+export interface PruneSessionsOptions {
+  /** Source to prune, or 'all' (default: all) */
+  source?: string;
+  /** Only these missing sessions (prefixed IDs; default: every missing session) */
+  sessionIds?: string[];
+  /** Delete the sessions' metadata, nicknames, tags and index entries */
+  purge?: boolean;
+  /** Re-check the sources and re-sync sessions that exist again */
+  restore?: boolean;
+  /** Report what would be purged or restored without changing anything */
+  dryRun?: boolean;
+}
+
+/**
+ * Outcome of pruning missing sessions
+ */
+export interface PruneSessionsResult {
+  /** Sessions marked missing when pruning started */
+  missing: SessionMetadata[];
+  /** IDs of purged sessions */
+  purged: string[];
+  /** IDs of sessions found in their source again */
+  restored: string[];
 }
 
 /**
  * Main API for Cursor Context Retrieval
  *
- * High-level interface that orchestrates CursorDB, ClaudeCodeDB and MetadataDB
+ * High-level interface that orchestrates the registered session sources and MetadataDB
  */
 export class CursorContext {
   private cursorDB: CursorDB;
-  private claudeCodeDB: ClaudeCodeDB;
+  private sources: SessionSourceRegistry;
+  private importSource: ImportSessionSource;
   private metadataDB: MetadataDB;
   private autoSync: boolean;
   private autoSyncLimit: number;
@@ -88,19 +365,70 @@ export class CursorContext {
    * @param autoSync - Automatically sync metadata when accessing sessions (default: true)
    * @param autoSyncLimit - Maximum number of sessions to check during auto-sync (default: 100000)
    * @param claudeProjectsPath - Path to Claude Code projects (default: ~/.claude/projects)
+   * @param windsurfUserDataPath - Path to Windsurf's User directory (default: auto-detect)
+   * @param vscodeUserDataPath - Path to VS Code's User directory, for Copilot Chat (default: auto-detect)
    */
   constructor(
     cursorDBPath?: string,
     metadataDBPath?: string,
     autoSync = true,
     autoSyncLimit = 100000,
-    claudeProjectsPath?: string
+    claudeProjectsPath?: string,
+    windsurfUserDataPath?: string,
+    vscodeUserDataPath?: string
   ) {
+    const resolvedMetadataDBPath = metadataDBPath || getMetadataDBPath();
     this.cursorDB = new CursorDB(cursorDBPath || getCursorDBPath());
-    this.claudeCodeDB = new ClaudeCodeDB(claudeProjectsPath);
-    this.metadataDB = new MetadataDB(metadataDBPath || getMetadataDBPath());
+    this.metadataDB = new MetadataDB(resolvedMetadataDBPath);
     this.autoSync = autoSync;
     this.autoSyncLimit = autoSyncLimit;
+
+    this.sources = new SessionSourceRegistry();
+    this.sources.register(new CursorSessionSource(this.cursorDB));
+    // The Claude Code file index lives next to the metadata DB
+    const claudeIndexPath = path.join(path.dirname(resolvedMetadataDBPath), 'claude-file-index.json');
+    this.sources.register(new ClaudeCodeSessionSource(new ClaudeCodeDB(claudeProjectsPath, claudeIndexPath)));
+    this.sources.register(new WindsurfSessionSource(new WindsurfDB(windsurfUserDataPath)));
+    this.sources.register(new CopilotSessionSource(new CopilotChatDB(vscodeUserDataPath)));
+    this.sources.register(new AiderSessionSource(new AiderHistoryDB()));
+    this.sources.register(new CodexSessionSource(new CodexDB()));
+    this.sources.register(new GeminiSessionSource(new GeminiDB()));
+
+    this.importSource = new ImportSessionSource(this.metadataDB);
+    this.sources.register(this.importSource);
+  }
+
+  /**
+   * Register an additional session source (replaces a source with the same name)
+   */
+  registerSource(source: SessionSource): void {
+    this.sources.register(source);
+  }
+
+  /**
+   * Get all registered session sources
+   */
+  getSources(): SessionSource[] {
+    return this.sources.list();
+  }
+
+  /**
+   * Get the names of all registered session sources
+   */
+  getSourceNames(): string[] {
+    return this.sources.names();
+  }
+
+  /**
+   * Get a human readable label for a source filter
+   * Example: 'all' -> 'Cursor and Claude Code'
+   */
+  getSourceLabel(source: string = 'all'): string {
+    const labels = this.sources.select(source).map(s => s.label);
+    if (labels.length <= 1) {
+      return labels[0] || source;
+    }
+    return `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
   }
 
   /**
@@ -116,10 +444,7 @@ export class CursorContext {
    */
   async listSessions(options: ListSessionsOptions = {}): Promise<SessionMetadata[]> {
     const {
-      projectPath,
-      taggedOnly = false,
       limit,
-      tag,
       sortBy = 'newest',
       syncFirst = false,
       source = 'all'
@@ -130,50 +455,36 @@ export class CursorContext {
       await this.syncSessions(this.autoSyncLimit, source);
     }
 
-    // If filtering by tag, use tag-based query
-    if (tag) {
-      const sessions = this.metadataDB.findByTag(tag);
-
-      // Apply additional filters
-      let filtered = sessions;
-      if (projectPath) {
-        filtered = filtered.filter(s => s.project_path === projectPath);
-      }
-      if (source !== 'all') {
-        filtered = filtered.filter(s => s.source === source);
-      }
-
-      return this.sortAndLimit(filtered, sortBy, limit);
-    }
-
-    // If filtering by project, use project-based query
-    if (projectPath) {
-      const sessions = this.metadataDB.listSessionsByProject(projectPath);
-
-      let filtered = sessions;
-      if (taggedOnly) {
-        filtered = filtered.filter(s => s.tags && s.tags.length > 0);
-      }
-      if (source !== 'all') {
-        filtered = filtered.filter(s => s.source === source);
-      }
-
-      return this.sortAndLimit(filtered, sortBy, limit);
-    }
-
-    // General listing with optional filters
-    const sessions = this.metadataDB.listSessions({
-      tagged_only: taggedOnly,
+    return this.metadataDB.listSessions({
+      ...this.toSessionListQuery(options),
+      sort_by: sortBy,
       limit
     });
+  }
 
-    // Filter by source if needed
-    let filtered = sessions;
-    if (source !== 'all') {
-      filtered = filtered.filter(s => s.source === source);
-    }
+  /**
+   * Translate session filters to a MetadataDB query
+   *
+   * @throws Error if a date filter is invalid
+   */
+  private toSessionListQuery(filters: SessionFilterOptions): SessionListQuery {
+    const toTimestamp = (value: string | number | undefined, endOfDay: boolean) =>
+      typeof value === 'string' ? parseDateFilter(value, { endOfDay }) : value;
 
-    return this.sortAndLimit(filtered, sortBy, limit);
+    return {
+      project: filters.projectPath,
+      project_name: filters.projectName,
+      source: filters.source,
+      tag: filters.tag,
+      has_tags: filters.taggedOnly,
+      since: toTimestamp(filters.since, false),
+      until: toTimestamp(filters.until, true),
+      min_messages: filters.minMessages,
+      max_messages: filters.maxMessages,
+      model: filters.model,
+      git_branch: filters.gitBranch,
+      include_missing: filters.includeMissing
+    };
   }
 
   /**
@@ -185,30 +496,22 @@ export class CursorContext {
   ): Promise<SessionWithMessages> {
     const {
       parseOptions,
-      includeMessages = true
+      includeMessages = true,
+      includeSubagents = false
     } = options;
 
-    // Try to get by nickname first
-    let metadata = this.metadataDB.getSessionByNickname(idOrNickname);
-
-    // If not found, try by exact ID (with prefix)
-    if (!metadata) {
-      metadata = this.metadataDB.getSessionMetadata(idOrNickname);
-    }
-
-    // If not found, try by ID prefix (like git does with commit hashes)
-    if (!metadata) {
-      metadata = this.metadataDB.findSessionByIdPrefix(idOrNickname);
-    }
-
-    // If not found, try adding cursor: prefix
-    if (!metadata && !idOrNickname.includes(':')) {
-      metadata = this.metadataDB.getSessionMetadata(`cursor:${idOrNickname}`);
-    }
+    let metadata = this.findSessionMetadata(idOrNickname);
 
-    // If still not found and autoSync is enabled, try to fetch from Cursor DB
+    // If still not found and autoSync is enabled, try to fetch from the sources
     if (!metadata && this.autoSync && !idOrNickname.includes(':')) {
-      metadata = await this.syncCursorSession(idOrNickname);
+      for (const source of this.sources.list()) {
+        if (this.sourceHasSession(source, idOrNickname)) {
+          metadata = await this.syncSession(source, idOrNickname);
+          if (metadata) {
+            break;
+          }
+        }
+      }
     }
 
     // If still not found, throw error
@@ -218,147 +521,215 @@ export class CursorContext {
 
     // Load messages if requested
     let messages: ParsedMessage[] = [];
+    let subConversations: SubConversation[] | undefined;
 
     if (includeMessages) {
       // Strip prefix to get raw session ID
-      const parts = metadata.session_id.split(':');
-      const source = parts[0];
-      const rawId = parts[1];
+      const parsed = parseSessionId(metadata.session_id);
 
-      if (!rawId) {
+      if (!parsed) {
         throw new Error(`Invalid session ID format: ${metadata.session_id}`);
       }
 
-      if (source === 'cursor') {
-        const bubbles = this.cursorDB.getSessionBubbles(rawId);
-        messages = parseBubbles(bubbles, parseOptions);
-      } else if (source === 'claude') {
-        const claudeMessages = this.claudeCodeDB.getSessionMessages(rawId);
-        messages = claudeToUnified(claudeMessages);
+      const source = this.sources.get(parsed.source);
+      if (!source) {
+        throw new Error(`No session source registered for '${parsed.source}' (session ${metadata.session_id})`);
+      }
+
+      try {
+        messages = source.getMessages(parsed.rawId, parseOptions);
+        if (includeSubagents) {
+          subConversations = source.getSubConversations?.(parsed.rawId, parseOptions) ?? [];
+        }
+      } catch (error) {
+        if (!(error instanceof SessionNotFoundError)) {
+          throw error;
+        }
+
+        // The session was deleted from its source since it was synced
+        const missingSince = metadata.missing_since || Date.now();
+        this.metadataDB.setSessionMissing(metadata.session_id, missingSince);
+        throw new SessionMissingError(metadata.session_id, source.label, missingSince);
+      }
+
+      if (metadata.missing_since) {
+        // It has come back
+        this.metadataDB.setSessionMissing(metadata.session_id, null);
+        metadata = { ...metadata, missing_since: undefined };
       }
     }
 
     return {
       metadata,
-      messages
+      messages,
+      notes: this.metadataDB.listNotes(metadata.session_id),
+      subConversations
     };
   }
 
+  /**
+   * Look up a session's metadata by nickname or ID, without syncing
+   *
+   * @throws Error if the ID prefix is ambiguous
+   */
+  private findSessionMetadata(idOrNickname: string): SessionMetadata | null {
+    // Try to get by nickname first
+    let metadata = this.metadataDB.getSessionByNickname(idOrNickname);
+
+    // If not found, try by exact ID (with prefix)
+    if (!metadata) {
+      metadata = this.metadataDB.getSessionMetadata(idOrNickname);
+    }
+
+    // If not found, try by ID prefix (like git does with commit hashes)
+    if (!metadata) {
+      metadata = this.metadataDB.findSessionByIdPrefix(idOrNickname);
+    }
+
+    // If not found, try each registered source prefix
+    if (!metadata && !idOrNickname.includes(':')) {
+      for (const name of this.sources.names()) {
+        metadata = this.metadataDB.getSessionMetadata(`${name}:${idOrNickname}`);
+        if (metadata) {
+          break;
+        }
+      }
+    }
+
+    return metadata;
+  }
+
   /**
    * Search sessions by content
+   *
+   * The query is parsed with parseSearchQuery: its operators are added to the
+   * filters, sessions mentioning an excluded term are dropped, and the remaining
+   * terms are matched. Sessions whose messages or notes match are ranked by BM25
+   * relevance over the full-text index; sessions that only match on nickname,
+   * first message preview, tags or project name follow in listing order. A query
+   * without terms that must match lists the filtered sessions.
+   *
+   * @throws QueryParseError if the query can't be parsed
    */
   async searchSessions(options: SearchSessionsOptions): Promise<SessionMetadata[]> {
     const { 
-      query, 
-      projectPath, 
-      taggedOnly = false, 
       limit,
       caseSensitive = false
     } = options;
 
-    // Get all sessions based on filters
-    const sessions = await this.listSessions({ 
-      projectPath, 
-      taggedOnly,
-      limit: undefined // Get all first, then filter
-    });
+    const parsed = this.parseQuery(options.query);
 
-    // Prepare search query
-    const searchQuery = caseSensitive ? query : query.toLowerCase();
+    // Get all sessions matching the filters, then rank them
+    const sessions = await this.listSessions({ ...options, ...parsed.filters, limit: undefined });
+    const candidates = new Map(sessions.map(s => [s.session_id, s]));
 
-    // Filter by content
-    const matches = sessions.filter(session => {
-      // Search in nickname
-      if (session.nickname) {
-        const nickname = caseSensitive ? session.nickname : session.nickname.toLowerCase();
-        if (nickname.includes(searchQuery)) {
-          return true;
-        }
-      }
+    // Search nickname, summary title, first message preview, tags and project name
+    const mentions = (session: SessionMetadata, term: SearchTerm) => {
+      const text = caseSensitive ? term.text : term.text.toLowerCase();
+      const fields = [session.nickname, session.summary_title, session.first_message_preview, ...(session.tags || []), session.project_name];
+      return fields.some(field => field && (caseSensitive ? field : field.toLowerCase()).includes(text));
+    };
 
-      // Search in first message preview
-      if (session.first_message_preview) {
-        const preview = caseSensitive 
-          ? session.first_message_preview 
-          : session.first_message_preview.toLowerCase();
-        if (preview.includes(searchQuery)) {
-          return true;
+    const required = parsed.terms.filter(term => !term.negated);
+    const excluded = parsed.terms.filter(term => term.negated);
+
+    // Drop sessions mentioning an excluded term anywhere
+    for (const term of excluded) {
+      for (const rank of this.metadataDB.searchSessionContent([{ ...term, negated: false }])) {
+        candidates.delete(rank.session_id);
+      }
+      for (const session of candidates.values()) {
+        if (mentions(session, term)) {
+          candidates.delete(session.session_id);
         }
       }
+    }
 
-      // Search in tags
-      if (session.tags) {
-        for (const tag of session.tags) {
-          const tagText = caseSensitive ? tag : tag.toLowerCase();
-          if (tagText.includes(searchQuery)) {
-            return true;
-          }
-        }
+    if (required.length === 0) {
+      const listed = Array.from(candidates.values());
+      return limit ? listed.slice(0, limit) : listed;
+    }
+
+    // Rank sessions by full message content
+    const ranked: SessionMetadata[] = [];
+    for (const rank of this.metadataDB.searchSessionContent(parsed.terms)) {
+      const session = candidates.get(rank.session_id);
+      if (session) {
+        ranked.push(session);
+        candidates.delete(rank.session_id);
       }
+    }
 
-      // Search in project name
-      if (session.project_name) {
-        const projectName = caseSensitive 
-          ? session.project_name 
-          : session.project_name.toLowerCase();
-        if (projectName.includes(searchQuery)) {
-          return true;
+    // Remaining sessions match if every term is in their metadata
+    const metadataMatches = Array.from(candidates.values())
+      .filter(session => required.every(term => mentions(session, term)));
+
+    const matches = [...ranked, ...metadataMatches];
+
+    // Apply limit
+    return limit ? matches.slice(0, limit) : matches;
+  }
+
+  /**
+   * Search sessions and return the matching messages with surrounding context
+   *
+   * Uses the same query syntax and ranking as searchSessions. Sessions that only
+   * match on metadata (nickname, tags, ...) or on filters alone are returned with
+   * an empty matches array.
+   *
+   * @throws QueryParseError if the query can't be parsed
+   */
+  async searchWithContext(options: SearchSessionsOptions): Promise<SearchResult[]> {
+    const {
+      contextWindow = 2,
+      maxMatchesPerSession = 3
+    } = options;
+
+    const sessions = await this.searchSessions(options);
+    const { terms } = this.parseQuery(options.query);
+
+    return sessions.map(session => {
+      const hits = this.metadataDB.searchMessages(terms, {
+        sessionId: session.session_id,
+        limit: maxMatchesPerSession
+      });
+
+      const matches: SearchMatch[] = [];
+      for (const hit of hits) {
+        const context = this.metadataDB.getMessageContext(session.session_id, hit.message_index, contextWindow);
+        if (context) {
+          matches.push({
+            message: context.message,
+            contextBefore: context.before,
+            contextAfter: context.after
+          });
         }
       }
 
-      return false;
+      return { session, matches };
     });
+  }
 
-    // Apply limit
-    return limit ? matches.slice(0, limit) : matches;
+  /**
+   * Parse a search query, checking `source:` against the registered sources
+   *
+   * @throws QueryParseError if the query can't be parsed
+   */
+  parseQuery(query: string): ParsedSearchQuery {
+    return parseSearchQuery(query, { sources: this.sources.names() });
   }
 
   /**
    * Set a nickname for a session
    */
   async setNickname(sessionId: string, nickname: string): Promise<void> {
-    let prefixedId: string;
-    let rawId: string;
-    let source: 'cursor' | 'claude';
-
-    if (sessionId.includes(':')) {
-      // Session ID has prefix
-      [source, rawId] = sessionId.split(':') as ['cursor' | 'claude', string];
-      prefixedId = sessionId;
-    } else {
-      // No prefix - try to find the session in either source
-      // Check Cursor first
-      const cursorData = this.cursorDB.getComposerData(sessionId);
-      const claudeMessages = this.claudeCodeDB.getSessionMessages(sessionId);
-
-      if (cursorData && (!claudeMessages || claudeMessages.length === 0)) {
-        // Found in Cursor only
-        source = 'cursor';
-        rawId = sessionId;
-        prefixedId = `cursor:${sessionId}`;
-      } else if (claudeMessages && claudeMessages.length > 0 && !cursorData) {
-        // Found in Claude only
-        source = 'claude';
-        rawId = sessionId;
-        prefixedId = `claude:${sessionId}`;
-      } else if (cursorData && claudeMessages && claudeMessages.length > 0) {
-        // Found in both - this is a collision, require explicit prefix
-        throw new Error(`Session ID ${sessionId} exists in both Cursor and Claude Code. Please specify the source using prefix: cursor:${sessionId} or claude:${sessionId}`);
-      } else {
-        // Not found in either
-        throw new SessionNotFoundError(sessionId);
-      }
-    }
+    const { source, rawId, prefixedId } = this.resolveSessionSource(sessionId);
 
     // If autoSync and no metadata exists, sync first
     if (this.autoSync) {
       const existing = this.metadataDB.getSessionMetadata(prefixedId);
       if (!existing) {
-        if (source === 'cursor') {
-          await this.syncCursorSession(rawId);
-        } else {
-          await this.syncClaudeSession(rawId);
-        }
+        await this.syncSession(source, rawId);
       }
     }
 
@@ -370,53 +741,75 @@ export class CursorContext {
    * Add a tag to a session
    */
   async addTag(sessionId: string, tag: string): Promise<void> {
-    let prefixedId: string;
-    let rawId: string;
-    let source: 'cursor' | 'claude';
-
-    if (sessionId.includes(':')) {
-      // Session ID has prefix
-      [source, rawId] = sessionId.split(':') as ['cursor' | 'claude', string];
-      prefixedId = sessionId;
-    } else {
-      // No prefix - try to find the session in either source
-      const cursorData = this.cursorDB.getComposerData(sessionId);
-      const claudeMessages = this.claudeCodeDB.getSessionMessages(sessionId);
-
-      if (cursorData && (!claudeMessages || claudeMessages.length === 0)) {
-        // Found in Cursor only
-        source = 'cursor';
-        rawId = sessionId;
-        prefixedId = `cursor:${sessionId}`;
-      } else if (claudeMessages && claudeMessages.length > 0 && !cursorData) {
-        // Found in Claude only
-        source = 'claude';
-        rawId = sessionId;
-        prefixedId = `claude:${sessionId}`;
-      } else if (cursorData && claudeMessages && claudeMessages.length > 0) {
-        // Found in both - this is a collision, require explicit prefix
-        throw new Error(`Session ID ${sessionId} exists in both Cursor and Claude Code. Please specify the source using prefix: cursor:${sessionId} or claude:${sessionId}`);
-      } else {
-        // Not found in either
-        throw new SessionNotFoundError(sessionId);
-      }
-    }
+    const { source, rawId, prefixedId } = this.resolveSessionSource(sessionId);
 
     // If autoSync and no metadata exists, sync first
     if (this.autoSync) {
       const existing = this.metadataDB.getSessionMetadata(prefixedId);
       if (!existing) {
-        if (source === 'cursor') {
-          await this.syncCursorSession(rawId);
-        } else {
-          await this.syncClaudeSession(rawId);
-        }
+        await this.syncSession(source, rawId);
       }
     }
 
     this.metadataDB.addTag(prefixedId, tag);
   }
 
+  /**
+   * Work out which source a (possibly unprefixed) session ID belongs to
+   *
+   * @throws Error if an unprefixed ID exists in more than one source
+   * @throws SessionNotFoundError if no source has the session
+   */
+  private resolveSessionSource(sessionId: string): { source: SessionSource; rawId: string; prefixedId: string } {
+    const parsed = parseSessionId(sessionId);
+
+    if (parsed) {
+      // Session ID has prefix
+      const source = this.sources.get(parsed.source);
+      if (!source) {
+        throw new Error(`Unknown session source '${parsed.source}'. Available sources: ${this.sources.names().join(', ')}`);
+      }
+      const rawId = source.resolveSessionId?.(parsed.rawId) ?? parsed.rawId;
+      return { source, rawId, prefixedId: `${source.name}:${rawId}` };
+    }
+
+    // No prefix - use the sources it was synced from, otherwise look for it in every source
+    const synced = this.sources.list().filter(source => this.metadataDB.getSessionMetadata(`${source.name}:${sessionId}`));
+    const found = synced.length > 0 ? synced : this.sources.list().filter(source => this.sourceHasSession(source, sessionId));
+
+    if (found.length === 0) {
+      throw new SessionNotFoundError(sessionId);
+    }
+
+    if (found.length > 1) {
+      // Found in several sources - this is a collision, require explicit prefix
+      const names = found.map(s => s.name);
+      const labels = found.map(s => s.label).join(' and ');
+      throw new Error(`Session ID ${sessionId} exists in both ${labels}. Please specify the source using prefix: ${names.map(n => `${n}:${sessionId}`).join(' or ')}`);
+    }
+
+    const source = found[0]!;
+    const rawId = source.resolveSessionId?.(sessionId) ?? sessionId;
+    return { source, rawId, prefixedId: `${source.name}:${rawId}` };
+  }
+
+  /**
+   * Check whether a source has an unprefixed session ID
+   * Sources that can tell from its format are skipped, so a mistyped nickname doesn't scan them.
+   * A source that can't be read (e.g. Cursor isn't installed) is treated as not having it.
+   */
+  private sourceHasSession(source: SessionSource, sessionId: string): boolean {
+    if (source.matchesSessionId && !source.matchesSessionId(sessionId)) {
+      return false;
+    }
+
+    try {
+      return source.hasSession(sessionId);
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Remove a tag from a session
    */
@@ -438,6 +831,383 @@ export class CursorContext {
     return this.metadataDB.listAllTags();
   }
 
+  /**
+   * Rename a tag (and its child tags) on every session
+   *
+   * @throws Error if the tag does not exist or the new name is already in use (use mergeTags)
+   */
+  renameTag(from: string, to: string): TagMoveResult {
+    return this.metadataDB.renameTag(from, to);
+  }
+
+  /**
+   * Merge a tag (and its child tags) into another, possibly existing, tag
+   *
+   * @throws Error if the tag does not exist
+   */
+  mergeTags(from: string, into: string): TagMoveResult {
+    return this.metadataDB.mergeTags(from, into);
+  }
+
+  /**
+   * Add a markdown note to a session (by ID or nickname), or to one of its messages
+   *
+   * @throws SessionNotFoundError if the session does not exist
+   * @throws Error if the message is not in the session or its ID prefix is ambiguous
+   */
+  async addNote(idOrNickname: string, content: string, options: AddNoteOptions = {}): Promise<SessionNote> {
+    if (!content.trim()) {
+      throw new Error('Note content cannot be empty');
+    }
+
+    const session = await this.getSession(idOrNickname, { includeMessages: !!options.messageId });
+    const bubbleId = options.messageId ? this.findMessage(session, options.messageId).message.bubbleId : undefined;
+
+    return this.metadataDB.addNote(session.metadata.session_id, content, bubbleId);
+  }
+
+  /**
+   * Find a message in a loaded session by bubbleId or a unique prefix of it
+   *
+   * @throws Error if no message matches or the prefix is ambiguous
+   */
+  private findMessage(session: SessionWithMessages, messageId: string): { message: ParsedMessage; index: number } {
+    const exact = session.messages.findIndex(m => m.bubbleId === messageId);
+    const matches = exact >= 0
+      ? [exact]
+      : session.messages.flatMap((m, i) => m.bubbleId.startsWith(messageId) ? [i] : []);
+
+    if (matches.length === 0) {
+      throw new Error(`Message ${messageId} not found in session ${session.metadata.session_id}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Ambiguous message ID prefix '${messageId}' matches ${matches.length} messages. Please provide more characters.`);
+    }
+
+    const index = matches[0]!;
+    return { message: session.messages[index]!, index };
+  }
+
+  /**
+   * Get the notes on a session (by ID or nickname) and its messages, oldest first
+   */
+  async getNotes(idOrNickname: string): Promise<SessionNote[]> {
+    const session = await this.getSession(idOrNickname, { includeMessages: false });
+    return session.notes || [];
+  }
+
+  /**
+   * Replace the content of a note
+   *
+   * @throws Error if the note does not exist
+   */
+  updateNote(noteId: number, content: string): SessionNote {
+    if (!content.trim()) {
+      throw new Error('Note content cannot be empty');
+    }
+
+    const note = this.metadataDB.updateNote(noteId, content);
+    if (!note) {
+      throw new Error(`Note ${noteId} not found`);
+    }
+    return note;
+  }
+
+  /**
+   * Delete a note
+   *
+   * @throws Error if the note does not exist
+   */
+  deleteNote(noteId: number): void {
+    if (!this.metadataDB.deleteNote(noteId)) {
+      throw new Error(`Note ${noteId} not found`);
+    }
+  }
+
+  /**
+   * Bookmark a message in a session (by ID or nickname)
+   * Bookmarking the same message again only updates its label.
+   *
+   * @param messageId - bubbleId / Claude uuid of the message, or a unique prefix of it
+   * @throws SessionNotFoundError if the session does not exist
+   * @throws Error if the message is not in the session or its ID prefix is ambiguous
+   */
+  async bookmarkMessage(idOrNickname: string, messageId: string, options: { label?: string } = {}): Promise<MessageBookmark> {
+    const session = await this.getSession(idOrNickname);
+    const { message, index } = this.findMessage(session, messageId);
+
+    return this.metadataDB.addBookmark(session.metadata.session_id, message.bubbleId, index, options.label);
+  }
+
+  /**
+   * Get bookmarked messages across sessions (newest first), each with the
+   * question/answer exchange it belongs to
+   *
+   * Exchanges are read from the metadata DB's message index, so they are available
+   * without re-reading the sources (and for sessions since deleted from them).
+   *
+   * @param options.sessionId - Only bookmarks in this session (ID or nickname)
+   */
+  async getBookmarks(options: { sessionId?: string; limit?: number } = {}): Promise<BookmarkedExchange[]> {
+    const sessionId = options.sessionId
+      ? (await this.getSession(options.sessionId, { includeMessages: false })).metadata.session_id
+      : undefined;
+
+    const exchanges: BookmarkedExchange[] = [];
+    for (const bookmark of this.metadataDB.listBookmarks({ sessionId, limit: options.limit })) {
+      const session = this.metadataDB.getSessionMetadata(bookmark.session_id);
+      if (!session) {
+        continue;
+      }
+
+      const exchange = this.metadataDB.getMessageExchange(bookmark.session_id, bookmark.bubble_id, bookmark.message_index);
+      exchanges.push({ bookmark, session, ...exchange });
+    }
+
+    return exchanges;
+  }
+
+  /**
+   * Delete a bookmark
+   *
+   * @throws Error if the bookmark does not exist
+   */
+  deleteBookmark(bookmarkId: number): void {
+    if (!this.metadataDB.deleteBookmark(bookmarkId)) {
+      throw new Error(`Bookmark ${bookmarkId} not found`);
+    }
+  }
+
+  /**
+   * Save a named collection of filters (replacing the filters of an existing one)
+   *
+   * Dates are stored as given, so relative ones ('30d') stay relative to the time the collection is run.
+   *
+   * @throws Error if the name is empty, a date is invalid or the source is unknown
+   */
+  saveCollection(name: string, query: CollectionQuery, options: { description?: string } = {}): SavedCollection {
+    if (!name.trim()) {
+      throw new Error('Collection name cannot be empty');
+    }
+
+    // Fail now rather than every time the collection runs
+    if (query.query) {
+      this.parseQuery(query.query);
+    }
+    if (query.since) {
+      parseDateFilter(query.since);
+    }
+    if (query.until) {
+      parseDateFilter(query.until);
+    }
+    if (query.source && query.source !== 'all' && !this.sources.get(query.source)) {
+      throw new Error(`Unknown session source '${query.source}'. Available sources: ${this.sources.names().join(', ')}`);
+    }
+
+    return this.metadataDB.saveCollection(name.trim(), query, options.description);
+  }
+
+  /**
+   * Get all saved collections, by name
+   */
+  getCollections(): SavedCollection[] {
+    return this.metadataDB.listCollections();
+  }
+
+  /**
+   * Run a saved collection, evaluating its filters against the current sessions
+   *
+   * @throws Error if the collection does not exist
+   */
+  async runCollection(name: string): Promise<CollectionResult> {
+    const collection = this.metadataDB.getCollection(name);
+    if (!collection) {
+      throw new Error(`Collection '${name}' not found`);
+    }
+
+    return { collection, sessions: await this.findCollectionSessions(collection.query) };
+  }
+
+  /**
+   * Delete a saved collection
+   *
+   * @throws Error if the collection does not exist
+   */
+  deleteCollection(name: string): void {
+    if (!this.metadataDB.deleteCollection(name)) {
+      throw new Error(`Collection '${name}' not found`);
+    }
+  }
+
+  /**
+   * Sessions matching a collection's filters: search results (by relevance) if it
+   * has a query, otherwise a listing in its sort order
+   */
+  private async findCollectionSessions(collectionQuery: CollectionQuery): Promise<SessionMetadata[]> {
+    const { query, sortBy, ...filters } = collectionQuery;
+
+    return query
+      ? this.searchSessions({ ...filters, query })
+      : this.listSessions({ ...filters, sortBy });
+  }
+
+  /**
+   * Link two sessions (by ID or nickname): "idOrNickname <type> otherIdOrNickname"
+   * e.g. linkSessions('part-2', 'part-1', 'continues')
+   *
+   * @throws SessionNotFoundError if either session does not exist
+   * @throws Error if both refer to the same session
+   */
+  async linkSessions(idOrNickname: string, otherIdOrNickname: string, type: SessionLinkType): Promise<SessionLink> {
+    const from = await this.getSession(idOrNickname, { includeMessages: false });
+    const to = await this.getSession(otherIdOrNickname, { includeMessages: false });
+
+    return this.metadataDB.addLink(from.metadata.session_id, to.metadata.session_id, type);
+  }
+
+  /**
+   * Remove the links between two sessions (of one type, or all of them)
+   *
+   * @throws Error if the sessions are not linked
+   */
+  async unlinkSessions(idOrNickname: string, otherIdOrNickname: string, type?: SessionLinkType): Promise<number> {
+    const session = await this.getSession(idOrNickname, { includeMessages: false });
+    const other = await this.getSession(otherIdOrNickname, { includeMessages: false });
+
+    const removed = this.metadataDB.removeLinks(session.metadata.session_id, other.metadata.session_id, type);
+    if (removed === 0) {
+      throw new Error(`Sessions ${session.metadata.session_id} and ${other.metadata.session_id} are not linked${type ? ` (${type})` : ''}`);
+    }
+    return removed;
+  }
+
+  /**
+   * Get the sessions linked to a session (by ID or nickname), oldest link first
+   */
+  async getLinkedSessions(idOrNickname: string): Promise<RelatedSession[]> {
+    const session = await this.getSession(idOrNickname, { includeMessages: false });
+    const sessionId = session.metadata.session_id;
+
+    const related: RelatedSession[] = [];
+    for (const link of this.metadataDB.listLinks(sessionId)) {
+      const outgoing = link.from_session_id === sessionId;
+      const other = this.metadataDB.getSessionMetadata(outgoing ? link.to_session_id : link.from_session_id);
+      if (!other) {
+        continue;
+      }
+
+      const relation = link.type === 'related' || outgoing
+        ? link.type
+        : link.type === 'continues' ? 'continued_by' : 'superseded_by';
+      related.push({ relation, session: other, link });
+    }
+
+    return related;
+  }
+
+  /**
+   * Get the chain of sessions a session (by ID or nickname) belongs to
+   *
+   * Follows continues / supersedes links in both directions and orders the sessions
+   * so that each comes after the ones it continues or supersedes (by creation
+   * time where the links leave the order open).
+   */
+  async getSessionThread(idOrNickname: string): Promise<SessionThread> {
+    const start = await this.getSession(idOrNickname, { includeMessages: false });
+
+    const sessions = new Map<string, SessionMetadata>([[start.metadata.session_id, start.metadata]]);
+    const links = new Map<number, SessionLink>();
+    const queue = [start.metadata.session_id];
+
+    while (queue.length > 0) {
+      const sessionId = queue.shift()!;
+      for (const link of this.metadataDB.listLinks(sessionId)) {
+        if (link.type === 'related') {
+          continue;
+        }
+
+        const otherId = link.from_session_id === sessionId ? link.to_session_id : link.from_session_id;
+        if (!sessions.has(otherId)) {
+          const other = this.metadataDB.getSessionMetadata(otherId);
+          if (!other) {
+            continue;
+          }
+          sessions.set(otherId, other);
+          queue.push(otherId);
+        }
+        links.set(link.id, link);
+      }
+    }
+
+    // Topological order: a session comes after the sessions it links to
+    const pending = new Map<string, number>([...sessions.keys()].map(id => [id, 0]));
+    for (const link of links.values()) {
+      pending.set(link.from_session_id, pending.get(link.from_session_id)! + 1);
+    }
+
+    const byCreation = (a: SessionMetadata, b: SessionMetadata) =>
+      (a.created_at || 0) - (b.created_at || 0) || a.session_id.localeCompare(b.session_id);
+    const ordered: SessionMetadata[] = [];
+
+    while (pending.size > 0) {
+      let ready = [...pending].filter(([, count]) => count === 0).map(([id]) => sessions.get(id)!);
+      if (ready.length === 0) {
+        // Linked in a cycle - fall back to creation time
+        ready = [...pending.keys()].map(id => sessions.get(id)!);
+      }
+
+      const next = ready.sort(byCreation)[0]!;
+      ordered.push(next);
+      pending.delete(next.session_id);
+
+      for (const link of links.values()) {
+        if (link.to_session_id === next.session_id && pending.has(link.from_session_id)) {
+          pending.set(link.from_session_id, pending.get(link.from_session_id)! - 1);
+        }
+      }
+    }
+
+    return {
+      sessions: ordered,
+      links: [...links.values()].sort((a, b) => a.id - b.id)
+    };
+  }
+
+  /**
+   * Record links to the sessions a session fetched with get_session
+   *
+   * A session that fetches an earlier one before its second question is taken to
+   * continue it (the usual way to pick up a conversation that hit its context
+   * limit); later fetches only mark the sessions as related. Sessions that are
+   * already linked (either way, any type) are left alone.
+   *
+   * Runs after a whole sync, so that sessions synced later in the same run can be linked to.
+   */
+  private detectSessionLinks(pending: PendingLinks): void {
+    for (const { session, references } of pending) {
+      for (const { reference, early } of references) {
+        let target: SessionMetadata | null;
+        try {
+          target = this.findSessionMetadata(reference);
+        } catch {
+          // Ambiguous ID prefix
+          continue;
+        }
+        if (!target || target.session_id === session.session_id) {
+          continue;
+        }
+
+        const targetId = target.session_id;
+        if (this.metadataDB.listLinks(session.session_id).some(link => link.from_session_id === targetId || link.to_session_id === targetId)) {
+          continue;
+        }
+
+        const earlier = !session.created_at || !target.created_at || target.created_at <= session.created_at;
+        this.metadataDB.addLink(session.session_id, targetId, early && earlier ? 'continues' : 'related', 'detected');
+      }
+    }
+  }
+
   /**
    * Get statistics about the database
    */
@@ -457,180 +1227,376 @@ export class CursorContext {
   }
 
   /**
-   * Sync a Cursor session from Cursor DB to Metadata DB
+   * Sync a single session from its source to Metadata DB
+   * Returns null if the session is empty or could not be read (see syncSessionOutcome for why)
    *
    * @internal
    */
-  private async syncCursorSession(sessionId: string): Promise<SessionMetadata | null> {
-    try {
-      const composerData = this.cursorDB.getComposerData(sessionId);
-      if (!composerData) {
-        return null;
-      }
+  private async syncSession(source: SessionSource, sessionId: string): Promise<SessionMetadata | null> {
+    const outcome = await this.syncSessionOutcome(source, sessionId);
+    if (outcome.status !== 'added' && outcome.status !== 'updated') {
+      return null;
+    }
 
-      // Skip empty sessions (no messages)
-      if (isEmptySession(composerData)) {
-        return null;
-      }
+    this.detectSessionLinks([{ session: outcome.metadata, references: outcome.references }]);
+    return outcome.metadata;
+  }
+
+  /**
+   * Sync a single session and report what happened to it
+   * @param lastUpdatedAt - When the session last changed, as listed by the source; without it
+   *   the latest message time is used (last_accessed is when the session changed, not when it was synced)
+   */
+  private async syncSessionOutcome(source: SessionSource, rawId: string, lastUpdatedAt?: number): Promise<SessionSyncOutcome> {
+    let prefixedId = `${source.name}:${rawId}`;
 
-      const bubbles = this.cursorDB.getSessionBubbles(sessionId);
-      const messages = parseBubbles(bubbles);
-      const workspaceInfo = getWorkspaceInfo(bubbles);
+    try {
+      const sessionId = source.resolveSessionId?.(rawId) ?? rawId;
+      prefixedId = `${source.name}:${sessionId}`;
 
-      // If workspace not found in bubbles, check composerData fields
-      let workspacePath: string | undefined = workspaceInfo.primaryPath || undefined;
-      if (!workspacePath) {
-        const pathFromComposer = extractWorkspaceFromComposerData(composerData);
-        workspacePath = pathFromComposer || undefined;
+      const session = source.loadSession(sessionId);
+      if (!session || session.messages.length === 0) {
+        return { status: 'empty' };
       }
 
-      const firstUserMsg = messages.find(m => m.role === 'user')?.content || '';
+      const firstUserMsg = session.messages.find(m => m.role === 'user')?.content || '';
+      const existing = this.metadataDB.getSessionMetadata(prefixedId);
 
       const metadata: SessionMetadata = {
-        session_id: `cursor:${sessionId}`,
-        source: 'cursor',
-        nickname: workspaceInfo.nickname || undefined,
-        project_path: workspacePath,
-        project_name: workspacePath ? getProjectName(workspacePath) : undefined,
-        has_project: !!workspacePath,
+        session_id: prefixedId,
+        source: source.name,
+        nickname: session.nickname || existing?.nickname,
+        project_path: session.projectPath,
+        project_name: session.projectPath ? getProjectName(session.projectPath) : undefined,
+        has_project: !!session.projectPath,
         first_message_preview: firstUserMsg.substring(0, 200),
-        message_count: messages.length,
-        created_at: composerData.createdAt ? Date.parse(composerData.createdAt) : undefined,
-        last_synced_at: Date.now()
+        message_count: session.messages.length,
+        created_at: session.createdAt,
+        last_accessed: lastUpdatedAt ?? lastMessageTime(session.messages) ?? existing?.last_accessed,
+        last_synced_at: Date.now(),
+        model: session.model,
+        git_branch: session.gitBranch,
+        summary_title: session.summaryTitle
       };
 
       this.metadataDB.upsertSessionMetadata(metadata);
-      return metadata;
+      this.metadataDB.indexSessionMessages(metadata.session_id, session.messages);
+      return { status: existing ? 'updated' : 'added', metadata, references: findSessionReferences(session.messages) };
     } catch (error) {
-      // Sync failed, return null
-      return null;
+      return { status: 'failed', failure: toSyncFailure(prefixedId, error) };
     }
   }
 
   /**
-   * Sync a Claude Code session to Metadata DB
+   * Sync multiple sessions from the session sources to Metadata DB
+   * Only syncs sessions that are new or have been updated since last sync
    *
-   * @internal
+   * @param limit - Maximum number of sessions to check per source
+   * @param source - Source name to sync, or 'all' for every registered source
+   * @returns Number of sessions added or updated (use sync() for the full report)
+   * @throws The first error of a source that could not be read at all (after syncing the others)
    */
-  private async syncClaudeSession(sessionId: string): Promise<SessionMetadata | null> {
-    try {
-      const messages = this.claudeCodeDB.getSessionMessages(sessionId);
-      if (!messages || messages.length === 0) {
-        return null;
-      }
+  async syncSessions(limit?: number, source: string = 'cursor'): Promise<number> {
+    const { report, errors } = await this.runSync(limit, source);
 
-      // Extract workspace and nickname
-      const workspaceInfo = getClaudeWorkspaceInfo(messages);
-      const unified = claudeToUnified(messages);
-
-      const firstUserMsg = unified.find(m => m.role === 'user')?.content || '';
-
-      // Get created timestamp from first message
-      const createdAt = messages[0]?.timestamp
-        ? new Date(messages[0].timestamp).getTime()
-        : undefined;
-
-      const metadata: SessionMetadata = {
-        session_id: `claude:${sessionId}`,
-        source: 'claude',
-        nickname: workspaceInfo.nickname || undefined,
-        project_path: workspaceInfo.primaryPath || undefined,
-        project_name: workspaceInfo.primaryPath ? getProjectName(workspaceInfo.primaryPath) : undefined,
-        has_project: !!workspaceInfo.primaryPath,
-        first_message_preview: firstUserMsg.substring(0, 200),
-        message_count: unified.length,
-        created_at: createdAt,
-        last_synced_at: Date.now()
-      };
-
-      this.metadataDB.upsertSessionMetadata(metadata);
-      return metadata;
-    } catch (error) {
-      // Sync failed, return null
-      return null;
+    if (errors.length > 0) {
+      throw errors[0];
     }
+
+    return report.totals.added + report.totals.updated;
   }
 
   /**
-   * Sync multiple sessions from Cursor DB to Metadata DB
-   * Only syncs sessions that are new or have been updated since last sync
+   * Sync sessions and report the outcome for every source
+   * Errors are recorded in the report instead of thrown: per session in `failed`,
+   * and in `error` when a source could not be read at all.
+   *
+   * @param limit - Maximum number of sessions to check per source
+   * @param source - Source name to sync, or 'all' for every registered source
    */
-  async syncSessions(limit?: number, source: 'cursor' | 'claude' | 'all' = 'cursor'): Promise<number> {
-    let synced = 0;
+  async sync(limit?: number, source: string = 'all'): Promise<SyncReport> {
+    return (await this.runSync(limit, source)).report;
+  }
 
-    // Sync Cursor sessions
-    if (source === 'cursor' || source === 'all') {
-      synced += await this.syncCursorSessions(limit);
+  /**
+   * Sync the selected sources, collecting source-level errors alongside the report
+   */
+  private async runSync(limit: number | undefined, source: string): Promise<{ report: SyncReport; errors: unknown[] }> {
+    const start = Date.now();
+    const sources: SourceSyncReport[] = [];
+    const errors: unknown[] = [];
+    const pendingLinks: PendingLinks = [];
+
+    for (const sessionSource of this.sources.select(source)) {
+      const sourceStart = Date.now();
+      try {
+        sources.push(await this.syncSourceSessions(sessionSource, limit, pendingLinks));
+      } catch (error) {
+        errors.push(error);
+        sources.push({
+          ...emptySourceReport(sessionSource),
+          error: toSyncFailure(sessionSource.name, error),
+          durationMs: Date.now() - sourceStart
+        });
+      }
     }
 
-    // Sync Claude Code sessions
-    if (source === 'claude' || source === 'all') {
-      synced += await this.syncClaudeSessions(limit);
-    }
+    this.detectSessionLinks(pendingLinks);
 
     // Update last sync time
     this.lastSyncTime = Date.now();
 
+    const totals = { added: 0, updated: 0, unchanged: 0, skippedEmpty: 0, failed: 0, missing: 0 };
+    for (const report of sources) {
+      totals.added += report.added.length;
+      totals.updated += report.updated.length;
+      totals.unchanged += report.unchanged;
+      totals.skippedEmpty += report.skippedEmpty.length;
+      totals.failed += report.failed.length + (report.error ? 1 : 0);
+      totals.missing += report.missing.length;
+    }
+
+    return { report: { sources, totals, durationMs: Date.now() - start }, errors };
+  }
+
+  /**
+   * Sync specific sessions of a source, or every updated session if no IDs are given
+   * Used by SessionWatcher to sync only what changed on disk.
+   *
+   * @param source - Source name
+   * @param sessionIds - Raw (unprefixed) session IDs to re-read
+   * @returns Prefixed IDs of the sessions that were synced
+   */
+  async syncSourceChanges(source: string, sessionIds?: string[]): Promise<string[]> {
+    const synced: string[] = [];
+    const pendingLinks: PendingLinks = [];
+
+    for (const sessionSource of this.sources.select(source)) {
+      if (!sessionIds) {
+        const report = await this.syncSourceSessions(sessionSource, undefined, pendingLinks);
+        synced.push(...report.added, ...report.updated);
+        continue;
+      }
+
+      for (const sessionId of sessionIds) {
+        const metadata = await this.syncSession(sessionSource, sessionId);
+        if (metadata) {
+          synced.push(metadata.session_id);
+        }
+      }
+    }
+
+    this.detectSessionLinks(pendingLinks);
     return synced;
   }
 
   /**
-   * Sync Cursor sessions only
+   * Sync the sessions of a single source
+   * @param pendingLinks - Collects the synced sessions' get_session references (see detectSessionLinks)
+   * @throws If the source's session list can't be read
    */
-  private async syncCursorSessions(limit?: number): Promise<number> {
-    const cursorTimestamps = this.cursorDB.getAllSessionTimestamps(limit);
-    let synced = 0;
+  private async syncSourceSessions(source: SessionSource, limit: number | undefined, pendingLinks: PendingLinks): Promise<SourceSyncReport> {
+    const start = Date.now();
+    const report = emptySourceReport(source);
+    const timestamps = source.getSessionTimestamps(limit);
+
+    // A complete listing (not cut off by the limit) shows which stored sessions are gone.
+    // An empty listing is more likely an unreadable store than every session being deleted.
+    let renamed = new Map<string, string>();
+    if (timestamps.size > 0 && (!limit || timestamps.size < limit)) {
+      const present = new Set(Array.from(timestamps.keys(), sessionId => `${source.name}:${sessionId}`));
+      renamed = this.findRenamedSessions(source, present);
+      report.missing = this.metadataDB.markMissingSessions(source.name, new Set([...present, ...renamed.keys()]));
+    }
 
-    for (const [sessionId, lastUpdatedAt] of cursorTimestamps.entries()) {
-      const prefixedId = `cursor:${sessionId}`;
+    for (const [sessionId, lastUpdatedAt] of timestamps.entries()) {
+      const prefixedId = `${source.name}:${sessionId}`;
       const existing = this.metadataDB.getSessionMetadata(prefixedId);
 
       const needsSync = !existing ||
                        !existing.last_synced_at ||
+                       !!existing.missing_since ||
                        lastUpdatedAt > existing.last_synced_at;
 
-      if (needsSync) {
-        const metadata = await this.syncCursorSession(sessionId);
-        if (metadata) {
-          synced++;
-        }
+      if (!needsSync) {
+        report.unchanged++;
+        continue;
+      }
+
+      const outcome = await this.syncSessionOutcome(source, sessionId, lastUpdatedAt);
+      switch (outcome.status) {
+        case 'added':
+          report.added.push(prefixedId);
+          pendingLinks.push({ session: outcome.metadata, references: outcome.references });
+          break;
+        case 'updated':
+          report.updated.push(prefixedId);
+          pendingLinks.push({ session: outcome.metadata, references: outcome.references });
+          break;
+        case 'empty':
+          report.skippedEmpty.push(prefixedId);
+          break;
+        case 'failed':
+          report.failed.push(outcome.failure);
+          break;
       }
     }
 
-    return synced;
+    // Synced now, the sessions can take over what was stored under their other IDs
+    for (const [fromId, toId] of renamed) {
+      if (this.metadataDB.getSessionMetadata(toId)) {
+        this.metadataDB.mergeSessionInto(fromId, toId);
+      }
+    }
+
+    report.durationMs = Date.now() - start;
+    return report;
   }
 
   /**
-   * Sync Claude Code sessions only
+   * Find stored sessions the source now lists under another ID (e.g. the file a Claude Code
+   * session was resumed in, stored as a session of its own before resumed sessions were stitched)
+   * @returns Map of stored ID -> ID the session is listed under
    */
-  private async syncClaudeSessions(limit?: number): Promise<number> {
-    const claudeTimestamps = this.claudeCodeDB.getSessionTimestamps(limit);
-    let synced = 0;
+  private findRenamedSessions(source: SessionSource, present: Set<string>): Map<string, string> {
+    const renamed = new Map<string, string>();
+    if (!source.resolveSessionId) {
+      return renamed;
+    }
 
-    for (const [sessionId, lastAccessedAt] of claudeTimestamps.entries()) {
-      const prefixedId = `claude:${sessionId}`;
-      const existing = this.metadataDB.getSessionMetadata(prefixedId);
+    for (const sessionId of this.metadataDB.listSessionIds(source.name)) {
+      const parsed = parseSessionId(sessionId);
+      if (present.has(sessionId) || !parsed) {
+        continue;
+      }
+      const resolved = `${source.name}:${source.resolveSessionId(parsed.rawId)}`;
+      if (resolved !== sessionId && present.has(resolved)) {
+        renamed.set(sessionId, resolved);
+      }
+    }
 
-      const needsSync = !existing ||
-                       !existing.last_synced_at ||
-                       lastAccessedAt > existing.last_synced_at;
+    return renamed;
+  }
 
-      if (needsSync) {
-        const metadata = await this.syncClaudeSession(sessionId);
-        if (metadata) {
-          synced++;
+  /**
+   * List, purge or restore sessions that sync found missing from their source
+   * Missing sessions keep their metadata (and stay hidden from listings) until purged.
+   */
+  async pruneSessions(options: PruneSessionsOptions = {}): Promise<PruneSessionsResult> {
+    const { source = 'all', sessionIds, purge = false, restore = false, dryRun = false } = options;
+
+    if (purge && restore) {
+      throw new Error('Choose either purge or restore, not both');
+    }
+
+    // Validates the source name
+    this.sources.select(source);
+
+    const missing = this.metadataDB.listMissingSessions(source === 'all' ? undefined : source)
+      .filter(session => !sessionIds || sessionIds.includes(session.session_id));
+
+    const result: PruneSessionsResult = { missing, purged: [], restored: [] };
+
+    if (purge) {
+      for (const session of missing) {
+        if (!dryRun) {
+          this.metadataDB.deleteSessionMetadata(session.session_id);
         }
+        result.purged.push(session.session_id);
       }
     }
 
-    return synced;
+    if (restore) {
+      for (const session of missing) {
+        const parsed = parseSessionId(session.session_id);
+        const sessionSource = parsed ? this.sources.get(parsed.source) : undefined;
+        if (!parsed || !sessionSource || !sessionSource.hasSession(parsed.rawId)) {
+          continue;
+        }
+
+        // Re-syncing clears the missing mark
+        const restored = dryRun ? session : await this.syncSession(sessionSource, parsed.rawId);
+        if (restored) {
+          result.restored.push(session.session_id);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Import a ChatGPT or claude.ai data export (conversations.json, or the unzipped export directory)
+   * Imported conversations become read-only sessions of the 'import' source.
+   * Re-importing only updates conversations that changed.
+   */
+  async importExport(filePath: string, options: ImportExportOptions = {}): Promise<ImportExportResult> {
+    let exportPath = filePath;
+    if (fs.existsSync(exportPath) && fs.statSync(exportPath).isDirectory()) {
+      exportPath = path.join(exportPath, 'conversations.json');
+    }
+
+    if (!fs.existsSync(exportPath)) {
+      throw new Error(`Export file not found: ${exportPath}`);
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(exportPath, 'utf-8'));
+    } catch (error) {
+      throw new DataCorruptionError(`Invalid JSON in export file ${exportPath}: ${(error as Error).message}`);
+    }
+
+    const conversations = parseConversationsExport(data, options.provider);
+    const rules = (options.projectRules || []).map(rule => ({
+      pattern: typeof rule.pattern === 'string' ? new RegExp(rule.pattern, 'i') : rule.pattern,
+      projectPath: rule.projectPath
+    }));
+
+    const result: ImportExportResult = {
+      provider: conversations[0]?.provider || options.provider || 'chatgpt',
+      total: conversations.length,
+      added: 0,
+      updated: 0,
+      unchanged: 0,
+      sessionIds: []
+    };
+
+    for (const conversation of conversations) {
+      if (conversation.messages.length === 0) {
+        continue;
+      }
+
+      const rawId = `${conversation.provider}-${conversation.externalId}`;
+      const firstUserMsg = conversation.messages.find(m => m.role === 'user')?.content || '';
+      const rule = rules.find(r => r.pattern.test(conversation.title || '') || r.pattern.test(firstUserMsg));
+
+      const status = this.metadataDB.saveImportedSession({
+        session_id: rawId,
+        provider: conversation.provider,
+        title: conversation.title,
+        // Keep a previously assigned project unless this import assigns one
+        project_path: rule?.projectPath || options.projectPath || this.metadataDB.getImportedSession(rawId)?.project_path,
+        created_at: conversation.createdAt,
+        updated_at: conversation.updatedAt
+      }, conversation.messages);
+
+      result[status]++;
+      result.sessionIds.push(`${this.importSource.name}:${rawId}`);
+
+      if (status !== 'unchanged' || !this.metadataDB.getSessionMetadata(`${this.importSource.name}:${rawId}`)) {
+        await this.syncSession(this.importSource, rawId);
+      }
+    }
+
+    return result;
   }
 
   /**
    * Close database connections
    */
   close(): void {
-    this.cursorDB.close();
+    this.sources.close();
     this.metadataDB.close();
   }
 
@@ -648,47 +1614,5 @@ export class CursorContext {
     return this.metadataDB;
   }
 
-  /**
-   * Helper to sort and limit sessions
-   */
-  private sortAndLimit(
-    sessions: SessionMetadata[], 
-    sortBy: 'newest' | 'oldest' | 'most_messages',
-    limit?: number
-  ): SessionMetadata[] {
-    // Sort
-    let sorted = [...sessions];
-    
-    switch (sortBy) {
-      case 'newest':
-        sorted.sort((a, b) => {
-          if (!a.created_at && !b.created_at) return 0;
-          if (!a.created_at) return 1;
-          if (!b.created_at) return -1;
-          return b.created_at - a.created_at;
-        });
-        break;
-      
-      case 'oldest':
-        sorted.sort((a, b) => {
-          if (!a.created_at && !b.created_at) return 0;
-          if (!a.created_at) return 1;
-          if (!b.created_at) return -1;
-          return a.created_at - b.created_at;
-        });
-        break;
-      
-      case 'most_messages':
-        sorted.sort((a, b) => {
-          const aCount = a.message_count || 0;
-          const bCount = b.message_count || 0;
-          return bCount - aCount;
-        });
-        break;
-    }
-
-    // Limit
-    return limit ? sorted.slice(0, limit) : sorted;
-  }
 }
 
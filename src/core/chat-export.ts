@@ -0,0 +1,224 @@
+/**
+ * Chat Export Parsers
+ *
+ * Parses data-export archives (conversations.json) from ChatGPT and claude.ai
+ * into unified messages so they can be imported as read-only sessions.
+ */
+
+import type { ParsedMessage } from './types.js';
+import { DataCorruptionError } from './errors.js';
+
+/**
+ * Export formats we can import
+ */
+export type ExportProvider = 'chatgpt' | 'claude';
+
+/**
+ * Conversation parsed from an export file
+ */
+export interface ExportedConversation {
+  provider: ExportProvider;
+  /** Conversation ID assigned by the provider */
+  externalId: string;
+  title?: string;
+  /** Creation time (milliseconds since epoch) */
+  createdAt?: number;
+  /** Last update time (milliseconds since epoch) */
+  updatedAt?: number;
+  messages: ParsedMessage[];
+}
+
+/**
+ * Detect which provider produced an export
+ * @throws DataCorruptionError if the data is not a known export format
+ */
+export function detectExportProvider(data: unknown): ExportProvider {
+  if (Array.isArray(data)) {
+    const first = data.find(item => item && typeof item === 'object');
+    if (!first) {
+      // An empty export is valid for either provider
+      return 'chatgpt';
+    }
+    if ('mapping' in first) {
+      return 'chatgpt';
+    }
+    if ('chat_messages' in first) {
+      return 'claude';
+    }
+  }
+
+  throw new DataCorruptionError('Unrecognized export format (expected a ChatGPT or claude.ai conversations.json)');
+}
+
+/**
+ * Parse an export file's JSON into conversations
+ */
+export function parseConversationsExport(data: unknown, provider: ExportProvider = detectExportProvider(data)): ExportedConversation[] {
+  if (!Array.isArray(data)) {
+    throw new DataCorruptionError('Export must contain an array of conversations');
+  }
+
+  const parse = provider === 'chatgpt' ? parseChatGPTConversation : parseClaudeConversation;
+
+  return data
+    .map(conversation => parse(conversation))
+    .filter((conversation): conversation is ExportedConversation => conversation !== null);
+}
+
+/**
+ * Seconds (ChatGPT) or ISO strings (claude.ai) to milliseconds
+ */
+function toMillis(value: unknown): number | undefined {
+  if (typeof value === 'number' && value > 0) {
+    return Math.round(value * 1000);
+  }
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+function toIso(millis: number | undefined): string | undefined {
+  return millis ? new Date(millis).toISOString() : undefined;
+}
+
+/**
+ * Walk ChatGPT's message graph from the active node back to the root
+ * Edited and regenerated messages create sibling branches; `current_node` marks the
+ * branch the user last saw. Without it, the most recently created leaf is used.
+ */
+function activeBranch(mapping: Record<string, any>, currentNode?: string): any[] {
+  let nodeId = currentNode && mapping[currentNode] ? currentNode : undefined;
+
+  if (!nodeId) {
+    const leaves = Object.values(mapping).filter(node => !node.children || node.children.length === 0);
+    leaves.sort((a, b) => (b.message?.create_time || 0) - (a.message?.create_time || 0));
+    nodeId = leaves[0]?.id;
+  }
+
+  const branch: any[] = [];
+  const seen = new Set<string>();
+
+  while (nodeId && mapping[nodeId] && !seen.has(nodeId)) {
+    seen.add(nodeId);
+    branch.push(mapping[nodeId]);
+    nodeId = mapping[nodeId].parent;
+  }
+
+  return branch.reverse();
+}
+
+/**
+ * Text of a ChatGPT message's content (text, multimodal, code and tool output types)
+ */
+function chatGPTContentText(content: any): string {
+  if (!content) {
+    return '';
+  }
+  if (Array.isArray(content.parts)) {
+    return content.parts.filter((part: unknown) => typeof part === 'string').join('\n');
+  }
+  if (typeof content.text === 'string') {
+    return content.text;
+  }
+  return typeof content.result === 'string' ? content.result : '';
+}
+
+/**
+ * Parse one ChatGPT conversation
+ */
+function parseChatGPTConversation(raw: any): ExportedConversation | null {
+  const externalId = raw?.conversation_id || raw?.id;
+  if (typeof externalId !== 'string' || !raw.mapping || typeof raw.mapping !== 'object') {
+    return null;
+  }
+
+  const messages: ParsedMessage[] = [];
+
+  for (const node of activeBranch(raw.mapping, raw.current_node)) {
+    const message = node.message;
+    const role = message?.author?.role;
+
+    if (!message || role === 'system' || message.metadata?.is_visually_hidden_from_conversation) {
+      continue;
+    }
+
+    const content = chatGPTContentText(message.content).trim();
+    const timestamp = toIso(toMillis(message.create_time));
+
+    if (role === 'tool') {
+      messages.push({
+        role: 'tool',
+        content,
+        bubbleId: message.id || node.id,
+        timestamp,
+        toolData: { name: message.author.name || 'tool', result: content || undefined }
+      });
+    } else if ((role === 'user' || role === 'assistant') && content) {
+      messages.push({ role, content, bubbleId: message.id || node.id, timestamp });
+    }
+  }
+
+  return {
+    provider: 'chatgpt',
+    externalId,
+    title: raw.title || undefined,
+    createdAt: toMillis(raw.create_time),
+    updatedAt: toMillis(raw.update_time),
+    messages
+  };
+}
+
+/**
+ * Parse one claude.ai conversation
+ */
+function parseClaudeConversation(raw: any): ExportedConversation | null {
+  if (typeof raw?.uuid !== 'string' || !Array.isArray(raw.chat_messages)) {
+    return null;
+  }
+
+  const messages: ParsedMessage[] = [];
+
+  for (const message of raw.chat_messages) {
+    const role = message.sender === 'human' ? 'user' : 'assistant';
+    const timestamp = toIso(toMillis(message.created_at));
+    const blocks = Array.isArray(message.content) && message.content.length > 0
+      ? message.content
+      : [{ type: 'text', text: message.text }];
+
+    let text = '';
+    const flush = () => {
+      if (text.trim()) {
+        messages.push({ role, content: text.trim(), bubbleId: `${message.uuid}:${messages.length}`, timestamp });
+      }
+      text = '';
+    };
+
+    for (const block of blocks) {
+      if (block.type === 'text' && typeof block.text === 'string') {
+        text += (text ? '\n' : '') + block.text;
+      } else if (block.type === 'tool_use' && block.name) {
+        flush();
+        messages.push({
+          role: 'tool',
+          content: '',
+          bubbleId: `${message.uuid}:${messages.length}`,
+          timestamp,
+          toolData: { name: block.name, params: block.input || {} }
+        });
+      }
+    }
+
+    flush();
+  }
+
+  return {
+    provider: 'claude',
+    externalId: raw.uuid,
+    title: raw.name || undefined,
+    createdAt: toMillis(raw.created_at),
+    updatedAt: toMillis(raw.updated_at),
+    messages
+  };
+}
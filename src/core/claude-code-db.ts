@@ -8,6 +8,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { ClaudeFileIndex, type ClaudeFileIndexEntry } from './claude-file-index.js';
 
 /**
  * Single message from Claude Code JSONL file
@@ -20,27 +21,74 @@ export interface ClaudeCodeMessage {
   sessionId: string;
   version: string;
   gitBranch: string;
-  type: 'user' | 'assistant';
+  /** 'system' lines are status records such as compaction boundaries */
+  type: 'user' | 'assistant' | 'system';
+  /** Kind of system record ('compact_boundary' marks where the conversation was compacted) */
+  subtype?: string;
+  /** Last message before a compaction boundary (whose parentUuid is null) */
+  logicalParentUuid?: string;
+  compactMetadata?: {
+    /** 'auto' or 'manual' (/compact) */
+    trigger?: string;
+    /** Context tokens before the compaction */
+    preTokens?: number;
+  };
+  /** User message holding the summary a compacted conversation continues from */
+  isCompactSummary?: boolean;
   message: {
     role: 'user' | 'assistant';
     content: string | Array<{
-      type: 'text' | 'tool_use' | 'tool_result';
+      type: 'text' | 'thinking' | 'tool_use' | 'tool_result';
       text?: string;
+      /** Reasoning of thinking blocks */
+      thinking?: string;
       id?: string;
       name?: string;
       input?: any;
       tool_use_id?: string;
-      content?: string;
+      /** tool_result output: plain text or text/image blocks */
+      content?: string | Array<{ type: string; text?: string }>;
+      /** Set on tool_result blocks when the tool failed */
+      is_error?: boolean;
     }>;
     model?: string;
     id?: string;
-    usage?: any;
+    usage?: {
+      input_tokens?: number;
+      output_tokens?: number;
+      cache_creation_input_tokens?: number;
+      cache_read_input_tokens?: number;
+    };
   };
   uuid: string;
   timestamp: string;
   requestId?: string;
 }
 
+/**
+ * Summary line Claude Code writes for a conversation
+ * ({"type":"summary","summary":"Fix login bug","leafUuid":"..."}), usually at the top of a file
+ */
+export interface ClaudeCodeSummary {
+  type: 'summary';
+  summary: string;
+  /** Last message of the summarized conversation */
+  leafUuid?: string;
+}
+
+/**
+ * Messages of a Claude Code session, split into the main conversation and the
+ * conversations of the subagents (sidechains) it started with the Task tool
+ */
+export interface ClaudeCodeTranscript {
+  /** Main conversation, in file order */
+  main: ClaudeCodeMessage[];
+  /** One message list per subagent conversation, in the order they started */
+  sidechains: ClaudeCodeMessage[][];
+  /** Latest auto-generated summary of the conversation */
+  summary?: string;
+}
+
 /**
  * Claude Code session metadata
  */
@@ -52,6 +100,10 @@ export interface ClaudeCodeSession {
   createdAt: number;
   lastAccessedAt: number;
   firstMessagePreview?: string;
+  /** Latest auto-generated summary of the conversation */
+  summary?: string;
+  /** IDs of the files the session was resumed in (--continue / --resume), oldest first */
+  resumedSessionIds?: string[];
 }
 
 /**
@@ -59,13 +111,30 @@ export interface ClaudeCodeSession {
  */
 export class ClaudeCodeDB {
   private claudeProjectsPath: string;
+  private index: ClaudeFileIndex;
+  /** Sessions (file chains) of each project directory, as last grouped */
+  private projectChains = new Map<string, ClaudeFileIndexEntry[][]>();
 
-  constructor(claudeProjectsPath?: string) {
+  /**
+   * @param claudeProjectsPath - Path to Claude Code projects (default: ~/.claude/projects)
+   * @param indexPath - Where to persist the file index (default: not persisted)
+   */
+  constructor(claudeProjectsPath?: string, indexPath?: string) {
     this.claudeProjectsPath = claudeProjectsPath || path.join(os.homedir(), '.claude', 'projects');
+    this.index = new ClaudeFileIndex(indexPath);
+  }
+
+  /**
+   * Get the projects directory sessions are read from
+   */
+  getProjectsPath(): string {
+    return this.claudeProjectsPath;
   }
 
   /**
    * Get all Claude Code sessions across all projects
+   * Files are only re-read (from where parsing stopped) when they changed since the last call.
+   * A session resumed with --continue / --resume is listed once, under the ID it started with.
    */
   getAllSessions(): ClaudeCodeSession[] {
     const sessions: ClaudeCodeSession[] = [];
@@ -77,24 +146,23 @@ export class ClaudeCodeDB {
     const projectDirs = fs.readdirSync(this.claudeProjectsPath, { withFileTypes: true })
       .filter(dirent => dirent.isDirectory())
       .map(dirent => dirent.name);
+    const seenFiles = new Set<string>();
 
     for (const projectDir of projectDirs) {
       const projectPath = path.join(this.claudeProjectsPath, projectDir);
       const sessionFiles = this.getSessionFilesInProject(projectPath);
 
       for (const sessionFile of sessionFiles) {
-        try {
-          const session = this.parseSessionFile(sessionFile, projectDir);
-          if (session) {
-            sessions.push(session);
-          }
-        } catch (error) {
-          // Skip invalid session files
-          console.error(`Error parsing session file ${sessionFile}:`, error);
-        }
+        seenFiles.add(sessionFile);
+      }
+      for (const chain of this.getProjectChains(projectDir, sessionFiles)) {
+        sessions.push(this.toSession(chain));
       }
     }
 
+    this.index.prune(this.claudeProjectsPath, seenFiles);
+    this.index.save();
+
     return sessions;
   }
 
@@ -112,73 +180,63 @@ export class ClaudeCodeDB {
   }
 
   /**
-   * Parse a session JSONL file
+   * Bring the index entries of a project's files up to date and group them into sessions
    */
-  private parseSessionFile(filePath: string, projectDir: string): ClaudeCodeSession | null {
-    const content = fs.readFileSync(filePath, 'utf-8');
-    const lines = content.trim().split('\n').filter(line => line.trim());
-
-    if (lines.length === 0) {
-      return null;
-    }
-
-    const messages: ClaudeCodeMessage[] = [];
-    let sessionId = '';
-    let cwd = '';
-    let firstMessageText = '';
-    let createdAt = 0;
-    let lastAccessedAt = 0;
-
-    for (const line of lines) {
-      try {
-        const msg = JSON.parse(line) as ClaudeCodeMessage;
-        messages.push(msg);
-
-        // Extract metadata from first message
-        if (!sessionId) {
-          sessionId = msg.sessionId;
-          cwd = msg.cwd;
-          createdAt = new Date(msg.timestamp).getTime();
-        }
-
-        // Get first user message for preview
-        if (!firstMessageText && msg.type === 'user') {
-          if (typeof msg.message.content === 'string') {
-            firstMessageText = msg.message.content;
-          } else if (Array.isArray(msg.message.content)) {
-            const textContent = msg.message.content.find(c => c.type === 'text');
-            if (textContent && textContent.text) {
-              firstMessageText = textContent.text;
-            }
-          }
-        }
+  private getProjectChains(projectDir: string, sessionFiles: string[]): ClaudeFileIndexEntry[][] {
+    const entries = sessionFiles
+      .map(sessionFile => this.index.refresh(sessionFile, projectDir))
+      .filter((entry): entry is ClaudeFileIndexEntry => !!entry && !!entry.sessionId);
+
+    const chains = chainResumedFiles(entries);
+    this.projectChains.set(projectDir, chains);
+    return chains;
+  }
 
-        // Track last accessed time
-        const msgTime = new Date(msg.timestamp).getTime();
-        if (msgTime > lastAccessedAt) {
-          lastAccessedAt = msgTime;
-        }
-      } catch (error) {
-        // Skip invalid lines
-        continue;
+  /**
+   * Get the files of the session a file belongs to, in conversation order
+   * The grouping from the last listing is reused as long as the session's own files still
+   * link up the same way; otherwise (or for a file not seen yet) the project is regrouped.
+   */
+  private findChain(sessionFile: string): ClaudeFileIndexEntry[] | undefined {
+    const projectPath = path.dirname(sessionFile);
+    const projectDir = path.basename(projectPath);
+
+    const cached = this.projectChains.get(projectDir)?.find(chain => chain.some(entry => entry.filePath === sessionFile));
+    if (cached) {
+      const refreshed = cached.map(entry => this.index.refresh(entry.filePath, projectDir));
+      const unchanged = refreshed.every((entry, i) => entry &&
+        entry.parentUuid === cached[i]!.parentUuid &&
+        // Only the last file may grow; a later file continues from an earlier one's last message
+        (i === cached.length - 1 || entry.lastUuid === cached[i]!.lastUuid));
+      if (unchanged) {
+        return refreshed as ClaudeFileIndexEntry[];
       }
     }
 
-    if (!sessionId) {
-      return null;
-    }
+    // Resumed sessions stay in the same project directory
+    return this.getProjectChains(projectDir, this.getSessionFilesInProject(projectPath))
+      .find(chain => chain.some(entry => entry.filePath === sessionFile));
+  }
+
+  /**
+   * Convert the index entries of a session's files to session metadata
+   */
+  private toSession(chain: ClaudeFileIndexEntry[]): ClaudeCodeSession {
+    const [entry, ...resumed] = chain as [ClaudeFileIndexEntry, ...ClaudeFileIndexEntry[]];
 
     // Extract project name from cwd or directory name
-    const projectName = cwd ? path.basename(cwd) : this.extractProjectNameFromDir(projectDir);
+    const projectName = entry.cwd ? path.basename(entry.cwd) : this.extractProjectNameFromDir(entry.projectDir);
 
     return {
-      sessionId,
-      projectPath: cwd || this.extractProjectPathFromDir(projectDir),
+      sessionId: entry.sessionId,
+      projectPath: entry.cwd || this.extractProjectPathFromDir(entry.projectDir),
       projectName,
-      messageCount: messages.length,
-      createdAt,
-      lastAccessedAt,
-      firstMessagePreview: firstMessageText.substring(0, 200)
+      messageCount: chain.reduce((sum, e) => sum + e.messageCount, 0),
+      createdAt: entry.createdAt,
+      lastAccessedAt: Math.max(...chain.map(e => e.lastAccessedAt)),
+      firstMessagePreview: chain.map(e => e.firstMessagePreview).find(Boolean) || undefined,
+      summary: chain.map(e => e.summary).filter(Boolean).pop(),
+      resumedSessionIds: resumed.length > 0 ? resumed.map(e => e.sessionId) : undefined
     };
   }
 
@@ -202,12 +260,49 @@ export class ClaudeCodeDB {
   }
 
   /**
-   * Get messages for a specific session
+   * Get the main conversation of a session (subagent messages are left out, see getSessionTranscript)
    */
   getSessionMessages(sessionId: string): ClaudeCodeMessage[] {
-    // Find the session file across all projects
+    return this.getSessionTranscript(sessionId).main;
+  }
+
+  /**
+   * Get a session's main conversation together with its subagent conversations
+   * A resumed session is read across all its files, whichever of their IDs is given.
+   */
+  getSessionTranscript(sessionId: string): ClaudeCodeTranscript {
+    return this.readTranscript(this.findSessionFiles(sessionId));
+  }
+
+  /**
+   * Get the ID a session is listed under: for any file of a resumed session, the ID of the
+   * file it started in (other IDs are returned as given)
+   */
+  resolveSessionId(sessionId: string): string {
+    const sessionFile = this.findSessionFile(sessionId);
+    const head = sessionFile ? this.findChain(sessionFile)?.[0] : undefined;
+    return head?.sessionId || sessionId;
+  }
+
+  /**
+   * Check if a session file exists
+   */
+  hasSession(sessionId: string): boolean {
+    return this.findSessionFile(sessionId) !== null;
+  }
+
+  /**
+   * Find the file of a session (indexed lookup, falling back to a scan of all projects)
+   */
+  private findSessionFile(sessionId: string): string | null {
+    const indexed = this.index.findFile(sessionId);
+    if (indexed && indexed.startsWith(this.claudeProjectsPath + path.sep)) {
+      return indexed;
+    }
+
+    // Not indexed yet: find the session file across all projects
     if (!fs.existsSync(this.claudeProjectsPath)) {
-      return [];
+      return null;
     }
 
     const projectDirs = fs.readdirSync(this.claudeProjectsPath, { withFileTypes: true })
@@ -215,36 +310,69 @@ export class ClaudeCodeDB {
       .map(dirent => dirent.name);
 
     for (const projectDir of projectDirs) {
-      const projectPath = path.join(this.claudeProjectsPath, projectDir);
-      const sessionFile = path.join(projectPath, `${sessionId}.jsonl`);
-
+      const sessionFile = path.join(this.claudeProjectsPath, projectDir, `${sessionId}.jsonl`);
       if (fs.existsSync(sessionFile)) {
-        return this.readMessagesFromFile(sessionFile);
+        return sessionFile;
       }
     }
 
-    return [];
+    return null;
   }
 
   /**
-   * Read all messages from a JSONL file
+   * Find the files of a session in conversation order (the file itself, plus the files it
+   * was resumed from or in)
    */
-  private readMessagesFromFile(filePath: string): ClaudeCodeMessage[] {
-    const content = fs.readFileSync(filePath, 'utf-8');
-    const lines = content.trim().split('\n').filter(line => line.trim());
+  private findSessionFiles(sessionId: string): string[] {
+    const sessionFile = this.findSessionFile(sessionId);
+    if (!sessionFile) {
+      return [];
+    }
+
+    const chain = this.findChain(sessionFile);
+    return chain ? chain.map(entry => entry.filePath) : [sessionFile];
+  }
+
+  /**
+   * Read the files of a session into one transcript
+   * Messages a file repeats from an earlier one are kept once; the latest summary line wins.
+   */
+  private readTranscript(files: string[]): ClaudeCodeTranscript {
     const messages: ClaudeCodeMessage[] = [];
+    const seen = new Set<string>();
+    let summary: string | undefined;
+
+    for (const filePath of files) {
+      const content = fs.readFileSync(filePath, 'utf-8');
+
+      for (const line of content.split('\n')) {
+        if (!line.trim()) {
+          continue;
+        }
+
+        let record: ClaudeCodeMessage | ClaudeCodeSummary;
+        try {
+          record = JSON.parse(line);
+        } catch (error) {
+          // Skip invalid lines
+          continue;
+        }
 
-    for (const line of lines) {
-      try {
-        const msg = JSON.parse(line) as ClaudeCodeMessage;
-        messages.push(msg);
-      } catch (error) {
-        // Skip invalid lines
-        continue;
+        if (record.type === 'summary') {
+          summary = record.summary?.trim() || summary;
+          continue;
+        }
+        if (record.uuid) {
+          if (seen.has(record.uuid)) {
+            continue;
+          }
+          seen.add(record.uuid);
+        }
+        messages.push(record);
       }
     }
 
-    return messages;
+    return { ...splitSidechains(messages), summary };
   }
 
   /**
@@ -276,9 +404,73 @@ export class ClaudeCodeDB {
   }
 
   /**
-   * Close the database connection (no-op for file-based storage)
+   * Close the database (persists the file index)
    */
   close(): void {
-    // No cleanup needed for file-based storage
+    this.index.save();
   }
 }
+
+/**
+ * Group session files into sessions
+ * A file whose first message continues the last message of another file (a session resumed
+ * with --continue / --resume) follows that file. When several files continue the same one,
+ * the earliest does and the others start sessions of their own.
+ *
+ * @returns Files of each session in conversation order
+ */
+function chainResumedFiles(entries: ClaudeFileIndexEntry[]): ClaudeFileIndexEntry[][] {
+  const sorted = [...entries].sort((a, b) => a.createdAt - b.createdAt);
+  const byLastUuid = new Map(sorted.filter(entry => entry.lastUuid).map(entry => [entry.lastUuid, entry]));
+  const continuedIn = new Map<ClaudeFileIndexEntry, ClaudeFileIndexEntry>();
+  const resumed = new Set<ClaudeFileIndexEntry>();
+
+  for (const entry of sorted) {
+    const previous = entry.parentUuid ? byLastUuid.get(entry.parentUuid) : undefined;
+    if (previous && previous !== entry && !continuedIn.has(previous)) {
+      continuedIn.set(previous, entry);
+      resumed.add(entry);
+    }
+  }
+
+  const chains: ClaudeFileIndexEntry[][] = [];
+  for (const entry of sorted.filter(entry => !resumed.has(entry))) {
+    const chain = [entry];
+    for (let next = continuedIn.get(entry); next && !chain.includes(next); next = continuedIn.get(next)) {
+      chain.push(next);
+    }
+    chains.push(chain);
+  }
+
+  return chains;
+}
+
+/**
+ * Separate sidechain messages from the main conversation, following parentUuid links
+ * A sidechain message continues the conversation of its parent; one whose parent is
+ * missing or not a sidechain message starts a new subagent conversation.
+ */
+export function splitSidechains(messages: ClaudeCodeMessage[]): ClaudeCodeTranscript {
+  const main: ClaudeCodeMessage[] = [];
+  const sidechains: ClaudeCodeMessage[][] = [];
+  const threadOf = new Map<string, ClaudeCodeMessage[]>();
+
+  for (const msg of messages) {
+    if (!msg.isSidechain) {
+      main.push(msg);
+      continue;
+    }
+
+    let thread = msg.parentUuid ? threadOf.get(msg.parentUuid) : undefined;
+    if (!thread) {
+      thread = [];
+      sidechains.push(thread);
+    }
+    thread.push(msg);
+    if (msg.uuid) {
+      threadOf.set(msg.uuid, thread);
+    }
+  }
+
+  return { main, sidechains };
+}
@@ -0,0 +1,325 @@
+/**
+ * Claude Code File Index
+ *
+ * Persisted index of Claude Code session files. Each entry records how far the file has
+ * been parsed (byte offset) along with the session metadata gathered so far, so a sync
+ * only stats files and reads the bytes appended since the last sync.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Bump when the entry format changes; older index files are discarded
+ */
+const INDEX_VERSION = 2;
+
+/**
+ * Bytes read at a time while parsing a file
+ */
+const CHUNK_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Indexed state of one session file
+ */
+export interface ClaudeFileIndexEntry {
+  filePath: string;
+  /** Encoded project directory name (e.g. "-Users-me-app") */
+  projectDir: string;
+  size: number;
+  mtimeMs: number;
+  /** Bytes parsed so far (always at a line boundary) */
+  offset: number;
+  /** Session ID from the first message ('' until one is seen) */
+  sessionId: string;
+  cwd: string;
+  createdAt: number;
+  lastAccessedAt: number;
+  messageCount: number;
+  firstMessagePreview: string;
+  /** Latest summary line of the file */
+  summary: string;
+  /** Message in another file the first message continues (set when the file resumes a session) */
+  parentUuid: string;
+  /** Last message of the main conversation */
+  lastUuid: string;
+}
+
+interface IndexFile {
+  version: number;
+  entries: Record<string, ClaudeFileIndexEntry>;
+}
+
+/**
+ * Index of Claude Code session files, persisted as JSON
+ */
+export class ClaudeFileIndex {
+  private entries: Map<string, ClaudeFileIndexEntry> | null = null;
+  private byFileName = new Map<string, string>();
+  private bySessionId = new Map<string, string>();
+  private dirty = false;
+
+  /**
+   * @param indexPath - Where to persist the index (in-memory only if omitted)
+   */
+  constructor(private readonly indexPath?: string) {}
+
+  /**
+   * Bring a file's entry up to date, parsing only bytes appended since the last call
+   * @returns The entry, or null if the file can't be read
+   */
+  refresh(filePath: string, projectDir: string): ClaudeFileIndexEntry | null {
+    const entries = this.load();
+
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(filePath);
+    } catch {
+      this.remove(filePath);
+      return null;
+    }
+
+    const existing = entries.get(filePath);
+    if (existing && existing.size === stat.size && existing.mtimeMs === stat.mtimeMs) {
+      return existing;
+    }
+
+    // Claude Code only appends; a smaller or rewritten file is parsed from the start
+    const appended = existing && stat.size > existing.size && existing.offset <= stat.size;
+    const entry: ClaudeFileIndexEntry = appended ? { ...existing } : {
+      filePath,
+      projectDir,
+      size: 0,
+      mtimeMs: 0,
+      offset: 0,
+      sessionId: '',
+      cwd: '',
+      createdAt: 0,
+      lastAccessedAt: 0,
+      messageCount: 0,
+      firstMessagePreview: '',
+      summary: '',
+      parentUuid: '',
+      lastUuid: ''
+    };
+
+    try {
+      parseFrom(entry, stat.size);
+    } catch {
+      return existing || null;
+    }
+
+    entry.size = stat.size;
+    entry.mtimeMs = stat.mtimeMs;
+    this.set(entry);
+    return entry;
+  }
+
+  /**
+   * Find the file of a session, by file name first, then by the session ID inside it
+   */
+  findFile(sessionId: string): string | null {
+    this.load();
+
+    for (const filePath of [this.byFileName.get(sessionId), this.bySessionId.get(sessionId)]) {
+      if (filePath && fs.existsSync(filePath)) {
+        return filePath;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Drop entries under a directory that are not in the given set of files
+   */
+  prune(root: string, existing: Set<string>): void {
+    const prefix = root.endsWith(path.sep) ? root : root + path.sep;
+
+    for (const filePath of Array.from(this.load().keys())) {
+      if (filePath.startsWith(prefix) && !existing.has(filePath)) {
+        this.remove(filePath);
+      }
+    }
+  }
+
+  /**
+   * Write the index to disk if it changed
+   * The index is only a cache, so write failures are ignored.
+   */
+  save(): void {
+    if (!this.indexPath || !this.dirty || !this.entries) {
+      return;
+    }
+
+    const data: IndexFile = { version: INDEX_VERSION, entries: Object.fromEntries(this.entries) };
+    const tmpPath = `${this.indexPath}.${process.pid}.tmp`;
+
+    try {
+      fs.mkdirSync(path.dirname(this.indexPath), { recursive: true });
+      fs.writeFileSync(tmpPath, JSON.stringify(data));
+      fs.renameSync(tmpPath, this.indexPath);
+      this.dirty = false;
+    } catch {
+      fs.rmSync(tmpPath, { force: true });
+    }
+  }
+
+  /**
+   * Load the persisted index on first use (a missing or unreadable index starts empty)
+   */
+  private load(): Map<string, ClaudeFileIndexEntry> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    this.entries = new Map();
+
+    if (this.indexPath && fs.existsSync(this.indexPath)) {
+      try {
+        const data = JSON.parse(fs.readFileSync(this.indexPath, 'utf-8')) as IndexFile;
+        if (data.version === INDEX_VERSION && data.entries) {
+          for (const entry of Object.values(data.entries)) {
+            this.set(entry);
+          }
+          this.dirty = false;
+        }
+      } catch {
+        // Corrupt index; rebuild from scratch
+      }
+    }
+
+    return this.entries;
+  }
+
+  private set(entry: ClaudeFileIndexEntry): void {
+    this.entries!.set(entry.filePath, entry);
+    this.byFileName.set(path.basename(entry.filePath, '.jsonl'), entry.filePath);
+    if (entry.sessionId) {
+      this.bySessionId.set(entry.sessionId, entry.filePath);
+    }
+    this.dirty = true;
+  }
+
+  private remove(filePath: string): void {
+    const entry = this.entries?.get(filePath);
+    if (!entry) {
+      return;
+    }
+
+    this.entries!.delete(filePath);
+    const fileName = path.basename(filePath, '.jsonl');
+    if (this.byFileName.get(fileName) === filePath) {
+      this.byFileName.delete(fileName);
+    }
+    if (this.bySessionId.get(entry.sessionId) === filePath) {
+      this.bySessionId.delete(entry.sessionId);
+    }
+    this.dirty = true;
+  }
+}
+
+/**
+ * Parse an entry's file from its offset up to `size`, in chunks
+ * A trailing line without a newline is only consumed if it is complete JSON
+ * (otherwise it is still being written and is re-read next time).
+ */
+function parseFrom(entry: ClaudeFileIndexEntry, size: number): void {
+  const fd = fs.openSync(entry.filePath, 'r');
+
+  try {
+    let position = entry.offset;
+    let pending = Buffer.alloc(0);
+
+    while (position < size) {
+      const chunk = Buffer.alloc(Math.min(CHUNK_SIZE, size - position));
+      const bytesRead = fs.readSync(fd, chunk, 0, chunk.length, position);
+      if (bytesRead === 0) {
+        break;
+      }
+      position += bytesRead;
+
+      const data = pending.length > 0 ? Buffer.concat([pending, chunk.subarray(0, bytesRead)]) : chunk.subarray(0, bytesRead);
+      const lastNewline = data.lastIndexOf(0x0a);
+      if (lastNewline === -1) {
+        pending = data;
+        continue;
+      }
+
+      for (const line of data.subarray(0, lastNewline).toString('utf-8').split('\n')) {
+        parseLine(entry, line);
+      }
+      entry.offset = position - (data.length - lastNewline - 1);
+      pending = data.subarray(lastNewline + 1);
+    }
+
+    if (pending.length > 0 && parseLine(entry, pending.toString('utf-8'))) {
+      entry.offset = position;
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Fold one JSONL line into an entry's session metadata
+ * @returns Whether the line was valid JSON
+ */
+function parseLine(entry: ClaudeFileIndexEntry, line: string): boolean {
+  if (!line.trim()) {
+    return false;
+  }
+
+  let msg: any;
+  try {
+    msg = JSON.parse(line);
+  } catch {
+    // Skip invalid lines
+    return false;
+  }
+
+  // Summary lines describe the conversation rather than being part of it
+  if (msg.type === 'summary') {
+    if (typeof msg.summary === 'string' && msg.summary.trim()) {
+      entry.summary = msg.summary.trim();
+    }
+    return true;
+  }
+
+  entry.messageCount++;
+
+  // Remember where the main conversation starts and ends, to stitch resumed sessions together
+  if (msg.uuid && !msg.isSidechain) {
+    if (!entry.lastUuid) {
+      entry.parentUuid = msg.parentUuid || msg.logicalParentUuid || '';
+    }
+    entry.lastUuid = msg.uuid;
+  }
+
+  // Extract metadata from first message
+  if (!entry.sessionId && msg.sessionId) {
+    entry.sessionId = msg.sessionId;
+    entry.cwd = msg.cwd || '';
+    entry.createdAt = new Date(msg.timestamp).getTime() || 0;
+  }
+
+  // Get first user message for preview
+  if (!entry.firstMessagePreview && msg.type === 'user' && !msg.isCompactSummary) {
+    const content = msg.message?.content;
+    if (typeof content === 'string') {
+      entry.firstMessagePreview = content.substring(0, 200);
+    } else if (Array.isArray(content)) {
+      const textContent = content.find((c: any) => c?.type === 'text');
+      if (textContent && textContent.text) {
+        entry.firstMessagePreview = textContent.text.substring(0, 200);
+      }
+    }
+  }
+
+  // Track last accessed time
+  const msgTime = new Date(msg.timestamp).getTime();
+  if (msgTime > entry.lastAccessedAt) {
+    entry.lastAccessedAt = msgTime;
+  }
+
+  return true;
+}
@@ -0,0 +1,336 @@
+/**
+ * Codex CLI Database Reader
+ *
+ * Reads chat sessions from OpenAI Codex CLI's rollout JSONL files
+ * Location: ~/.codex/sessions/[yyyy]/[mm]/[dd]/rollout-[timestamp]-[session-id].jsonl
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * Single line of a rollout file
+ * Older Codex versions wrote bare response items and an untyped header line;
+ * those are normalized to this shape when read.
+ */
+export interface CodexRolloutItem {
+  timestamp?: string;
+  /** session_meta | response_item | turn_context | event_msg | compacted */
+  type: string;
+  payload: Record<string, any>;
+}
+
+/**
+ * Codex session metadata
+ */
+export interface CodexSession {
+  sessionId: string;
+  filePath: string;
+  projectPath: string | null;
+  projectName: string | null;
+  messageCount: number;
+  createdAt: number;
+  lastAccessedAt: number;
+  firstMessagePreview?: string;
+}
+
+/**
+ * Response item types written as bare lines by older Codex versions
+ */
+const LEGACY_RESPONSE_ITEM_TYPES = new Set([
+  'message',
+  'function_call',
+  'function_call_output',
+  'custom_tool_call',
+  'custom_tool_call_output',
+  'local_shell_call',
+  'reasoning'
+]);
+
+/**
+ * Normalize one parsed rollout line (null for lines without session content)
+ */
+function normalizeRolloutLine(line: Record<string, any>): CodexRolloutItem | null {
+  if (typeof line.type === 'string' && line.payload && typeof line.payload === 'object') {
+    return line as CodexRolloutItem;
+  }
+
+  // Legacy header: { id, timestamp, instructions }
+  if (!line.type && typeof line.id === 'string' && line.timestamp) {
+    return { timestamp: line.timestamp, type: 'session_meta', payload: line };
+  }
+
+  if (LEGACY_RESPONSE_ITEM_TYPES.has(line.type)) {
+    return { timestamp: line.timestamp, type: 'response_item', payload: line };
+  }
+
+  return null;
+}
+
+/**
+ * Text of a message item's content parts (input_text / output_text)
+ */
+export function codexMessageText(payload: Record<string, any>): string {
+  if (typeof payload.content === 'string') {
+    return payload.content;
+  }
+  if (!Array.isArray(payload.content)) {
+    return '';
+  }
+
+  return payload.content
+    .filter((part: any) => typeof part?.text === 'string')
+    .map((part: any) => part.text)
+    .join('\n');
+}
+
+/**
+ * Whether a user message is context injected by Codex rather than typed by the user
+ */
+export function isCodexContextMessage(text: string): boolean {
+  const trimmed = text.trimStart();
+  return trimmed.startsWith('<environment_context>') ||
+         trimmed.startsWith('<user_instructions>') ||
+         trimmed.startsWith('# AGENTS.md instructions');
+}
+
+/**
+ * Extract the working directory of a session
+ * Checks session_meta, then turn_context, then the injected <environment_context>
+ */
+export function extractCwdFromCodexItems(items: CodexRolloutItem[]): string | null {
+  const meta = items.find(item => item.type === 'session_meta' && typeof item.payload.cwd === 'string');
+  if (meta) {
+    return meta.payload.cwd;
+  }
+
+  const turnContext = items.find(item => item.type === 'turn_context' && typeof item.payload.cwd === 'string');
+  if (turnContext) {
+    return turnContext.payload.cwd;
+  }
+
+  for (const item of items) {
+    if (item.type === 'response_item' && item.payload.type === 'message' && item.payload.role === 'user') {
+      const match = codexMessageText(item.payload).match(/<cwd>([^<]+)<\/cwd>/);
+      if (match) {
+        return match[1]!.trim();
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Database reader for Codex CLI sessions
+ */
+export class CodexDB {
+  private codexSessionsPath: string;
+  /** Rollout file of each session, as of the last listing */
+  private sessionFiles = new Map<string, string>();
+
+  constructor(codexSessionsPath?: string) {
+    const codexHome = process.env.CODEX_HOME || path.join(os.homedir(), '.codex');
+    this.codexSessionsPath = codexSessionsPath || path.join(codexHome, 'sessions');
+  }
+
+  /**
+   * Get all Codex sessions
+   */
+  getAllSessions(): CodexSession[] {
+    const sessions: CodexSession[] = [];
+
+    for (const sessionFile of this.getRolloutFiles()) {
+      try {
+        const session = this.parseSessionFile(sessionFile);
+        if (session) {
+          sessions.push(session);
+        }
+      } catch (error) {
+        // Skip invalid session files
+        console.error(`Error parsing session file ${sessionFile}:`, error);
+      }
+    }
+
+    this.sessionFiles = new Map(sessions.map(session => [session.sessionId, session.filePath]));
+    return sessions;
+  }
+
+  /**
+   * Get all rollout files (sessions are nested in date directories)
+   */
+  private getRolloutFiles(): string[] {
+    if (!fs.existsSync(this.codexSessionsPath)) {
+      return [];
+    }
+
+    const files: string[] = [];
+
+    const walk = (dir: string) => {
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          walk(entryPath);
+        } else if (entry.name.startsWith('rollout-') && entry.name.endsWith('.jsonl')) {
+          files.push(entryPath);
+        }
+      }
+    };
+
+    walk(this.codexSessionsPath);
+    return files;
+  }
+
+  /**
+   * Parse a rollout file into session metadata
+   */
+  private parseSessionFile(filePath: string): CodexSession | null {
+    const items = this.readItemsFromFile(filePath);
+    if (items.length === 0) {
+      return null;
+    }
+
+    const meta = items.find(item => item.type === 'session_meta');
+    const sessionId = meta?.payload.id || this.sessionIdFromFileName(filePath);
+    if (!sessionId) {
+      return null;
+    }
+
+    let messageCount = 0;
+    let firstMessageText = '';
+    let createdAt = 0;
+    let lastAccessedAt = 0;
+
+    for (const item of items) {
+      if (item.timestamp) {
+        const time = new Date(item.timestamp).getTime();
+        if (!createdAt) {
+          createdAt = time;
+        }
+        if (time > lastAccessedAt) {
+          lastAccessedAt = time;
+        }
+      }
+
+      if (item.type !== 'response_item') {
+        continue;
+      }
+
+      if (item.payload.type === 'message') {
+        const text = codexMessageText(item.payload);
+        if (item.payload.role === 'user' && isCodexContextMessage(text)) {
+          continue;
+        }
+        if (!firstMessageText && item.payload.role === 'user') {
+          firstMessageText = text;
+        }
+        messageCount++;
+      } else if (item.payload.type !== 'reasoning' && !String(item.payload.type).endsWith('_output')) {
+        messageCount++;
+      }
+    }
+
+    // Legacy files have no per-line timestamps
+    if (!createdAt && meta?.payload.timestamp) {
+      createdAt = new Date(meta.payload.timestamp).getTime();
+    }
+    if (!lastAccessedAt) {
+      lastAccessedAt = Math.max(createdAt, Math.floor(fs.statSync(filePath).mtimeMs));
+    }
+
+    const cwd = extractCwdFromCodexItems(items);
+
+    return {
+      sessionId,
+      filePath,
+      projectPath: cwd,
+      projectName: cwd ? path.basename(cwd) : null,
+      messageCount,
+      createdAt,
+      lastAccessedAt,
+      firstMessagePreview: firstMessageText.substring(0, 200)
+    };
+  }
+
+  /**
+   * Extract the session ID from a rollout file name
+   * Example: "rollout-2025-05-07T17-24-21-5973b6c0-94b8-487b-a530-2aeb6098ae0e.jsonl"
+   */
+  private sessionIdFromFileName(filePath: string): string | null {
+    const match = path.basename(filePath).match(/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.jsonl$/i);
+    return match ? match[1]! : null;
+  }
+
+  /**
+   * Get rollout items for a specific session
+   */
+  getSessionMessages(sessionId: string): CodexRolloutItem[] {
+    const knownFile = this.sessionFiles.get(sessionId);
+    if (knownFile && fs.existsSync(knownFile)) {
+      return this.readItemsFromFile(knownFile);
+    }
+
+    const files = this.getRolloutFiles();
+
+    // Rollout file names end with the session ID
+    const named = files.find(file => this.sessionIdFromFileName(file) === sessionId);
+    if (named) {
+      this.sessionFiles.set(sessionId, named);
+      return this.readItemsFromFile(named);
+    }
+
+    // Fall back to reading session_meta (legacy files may not carry the ID in the name)
+    for (const file of files) {
+      const items = this.readItemsFromFile(file);
+      if (items.some(item => item.type === 'session_meta' && item.payload.id === sessionId)) {
+        this.sessionFiles.set(sessionId, file);
+        return items;
+      }
+    }
+
+    this.sessionFiles.delete(sessionId);
+    return [];
+  }
+
+  /**
+   * Read all items from a rollout file
+   */
+  private readItemsFromFile(filePath: string): CodexRolloutItem[] {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const lines = content.trim().split('\n').filter(line => line.trim());
+    const items: CodexRolloutItem[] = [];
+
+    for (const line of lines) {
+      try {
+        const item = normalizeRolloutLine(JSON.parse(line));
+        if (item) {
+          items.push(item);
+        }
+      } catch (error) {
+        // Skip invalid lines
+        continue;
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Get session timestamps for sync optimization
+   * Returns Map<sessionId, lastAccessedTimestamp>
+   */
+  getSessionTimestamps(limit?: number): Map<string, number> {
+    const sorted = this.getAllSessions().sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+    const limited = limit ? sorted.slice(0, limit) : sorted;
+
+    return new Map(limited.map(session => [session.sessionId, session.lastAccessedAt]));
+  }
+
+  /**
+   * Close the database connection (no-op for file-based storage)
+   */
+  close(): void {
+    // No cleanup needed for file-based storage
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * GitHub Copilot Chat Reader
+ *
+ * Reads Copilot Chat sessions from VS Code's per-workspace JSON files
+ * Location: [user data]/workspaceStorage/[hash]/chatSessions/[session-id].json
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getVSCodeUserDataPath } from './platform.js';
+import { listWorkspaceStorageDirs } from './vscode-storage.js';
+import { DataCorruptionError } from './errors.js';
+
+/**
+ * One part of a Copilot response
+ * Markdown parts only carry `value`; other parts are identified by `kind`.
+ */
+export interface CopilotResponsePart {
+  kind?: string;
+  value?: string;
+  toolId?: string;
+  toolCallId?: string;
+  invocationMessage?: string | { value: string };
+  pastTenseMessage?: string | { value: string };
+  inlineReference?: { name?: string; path?: string; fsPath?: string; uri?: { path?: string; fsPath?: string } };
+  uri?: { path?: string; fsPath?: string };
+  [key: string]: unknown;
+}
+
+/**
+ * A request/response exchange in a Copilot Chat session
+ */
+export interface CopilotRequest {
+  requestId: string;
+  message: { text: string };
+  response?: CopilotResponsePart[];
+  timestamp?: number;
+  modelId?: string;
+}
+
+/**
+ * Copilot Chat session file (chatSessions/[id].json)
+ */
+export interface CopilotChatSession {
+  sessionId: string;
+  creationDate?: number;
+  lastMessageDate?: number;
+  customTitle?: string;
+  requests: CopilotRequest[];
+  /** Workspace folder from the storage directory's workspace.json (if any) */
+  workspaceFolder?: string;
+}
+
+/**
+ * Location of a session file on disk
+ */
+interface CopilotSessionFile {
+  sessionId: string;
+  filePath: string;
+  workspaceFolder?: string;
+  mtimeMs: number;
+}
+
+/**
+ * Reader for Copilot Chat sessions
+ */
+export class CopilotChatDB {
+  private userDataPath: string;
+  /** Session files found by the last listing */
+  private sessionFiles = new Map<string, CopilotSessionFile>();
+
+  constructor(userDataPath?: string) {
+    this.userDataPath = userDataPath || getVSCodeUserDataPath();
+  }
+
+  /**
+   * Find all session files across workspaces
+   */
+  listSessionFiles(): CopilotSessionFile[] {
+    const files: CopilotSessionFile[] = [];
+
+    for (const { dir, workspaceFolder } of listWorkspaceStorageDirs(this.userDataPath)) {
+      const chatSessionsDir = path.join(dir, 'chatSessions');
+      if (!fs.existsSync(chatSessionsDir)) {
+        continue;
+      }
+
+      for (const file of fs.readdirSync(chatSessionsDir)) {
+        if (!file.endsWith('.json')) {
+          continue;
+        }
+
+        const filePath = path.join(chatSessionsDir, file);
+        files.push({
+          sessionId: path.basename(file, '.json'),
+          filePath,
+          workspaceFolder,
+          mtimeMs: fs.statSync(filePath).mtimeMs
+        });
+      }
+    }
+
+    this.sessionFiles = new Map(files.map(f => [f.sessionId, f]));
+    return files;
+  }
+
+  /**
+   * Find a session's file, listing the workspaces again only if it is not known yet
+   */
+  private findSessionFile(sessionId: string): CopilotSessionFile | undefined {
+    const known = this.sessionFiles.get(sessionId);
+    if (known && fs.existsSync(known.filePath)) {
+      return known;
+    }
+
+    return this.listSessionFiles().find(f => f.sessionId === sessionId);
+  }
+
+  /**
+   * Check if a session exists
+   */
+  hasSession(sessionId: string): boolean {
+    return this.findSessionFile(sessionId) !== undefined;
+  }
+
+  /**
+   * Get session IDs with their last updated timestamps (file modification time), newest first
+   */
+  getSessionTimestamps(limit?: number): Map<string, number> {
+    const sorted = this.listSessionFiles().sort((a, b) => b.mtimeMs - a.mtimeMs);
+    const limited = limit ? sorted.slice(0, limit) : sorted;
+
+    return new Map(limited.map(f => [f.sessionId, Math.floor(f.mtimeMs)]));
+  }
+
+  /**
+   * Get a session by ID
+   * Fields of the wrong type are dropped, since their dates feed the sync timestamps.
+   * @throws DataCorruptionError if the session file is not a valid JSON object
+   */
+  getSession(sessionId: string): CopilotChatSession | null {
+    const file = this.findSessionFile(sessionId);
+    if (!file) {
+      return null;
+    }
+
+    let data: any;
+    try {
+      data = JSON.parse(fs.readFileSync(file.filePath, 'utf-8'));
+    } catch {
+      throw new DataCorruptionError(`Invalid JSON in Copilot chat session: ${sessionId}`);
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new DataCorruptionError(`Invalid Copilot chat session: ${sessionId}`);
+    }
+
+    const date = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+    return {
+      sessionId,
+      creationDate: date(data.creationDate),
+      lastMessageDate: date(data.lastMessageDate),
+      customTitle: typeof data.customTitle === 'string' ? data.customTitle : undefined,
+      requests: Array.isArray(data.requests) ? data.requests : [],
+      workspaceFolder: file.workspaceFolder
+    };
+  }
+
+  /**
+   * Close the reader (no-op for file-based storage)
+   */
+  close(): void {
+    // No cleanup needed for file-based storage
+  }
+}
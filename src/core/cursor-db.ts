@@ -326,6 +326,13 @@ export class CursorDB {
     return bubbles;
   }
   
+  /**
+   * Get the database file path
+   */
+  getDBPath(): string {
+    return this.dbPath;
+  }
+
   /**
    * Check if database is connected
    */
@@ -0,0 +1,82 @@
+/**
+ * Date Filters
+ *
+ * Parses the dates accepted by date-range filters: ISO dates and times
+ * ("2025-10-01", "2025-10-01T14:00") and dates relative to now ("7d", "2w",
+ * "3m", "1y", "12h", "today", "yesterday"). Relative dates are kept as text by
+ * saved collections, so they are re-evaluated every time a collection runs.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RELATIVE_DATE = /^(\d+)\s*(h|d|w|m|y)$/i;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+/** ISO date and time, lowercased (zone and seconds optional); Date.parse alone also accepts strings like "5" */
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}[t ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * Parse a date filter value into a timestamp (ms)
+ *
+ * @param value - ISO date/time, relative date ("7d") or "today" / "yesterday"
+ * @param options.endOfDay - Resolve dates without a time to the end of that day
+ *   instead of its start (for inclusive upper bounds such as `until`)
+ * @param options.now - Reference time for relative dates (default: now)
+ * @throws Error if the value is not a recognized date
+ */
+export function parseDateFilter(value: string, options: { endOfDay?: boolean; now?: number } = {}): number {
+  const { endOfDay = false, now = Date.now() } = options;
+  const text = value.trim().toLowerCase();
+
+  const dayBound = (date: Date) => {
+    if (endOfDay) {
+      date.setHours(23, 59, 59, 999);
+    } else {
+      date.setHours(0, 0, 0, 0);
+    }
+    return date.getTime();
+  };
+
+  if (text === 'today') {
+    return dayBound(new Date(now));
+  }
+  if (text === 'yesterday') {
+    return dayBound(new Date(now - DAY_MS));
+  }
+
+  const relative = RELATIVE_DATE.exec(text);
+  if (relative) {
+    const amount = parseInt(relative[1]!, 10);
+    const date = new Date(now);
+
+    switch (relative[2]) {
+      case 'h':
+        return now - amount * 60 * 60 * 1000;
+      case 'd':
+        return now - amount * DAY_MS;
+      case 'w':
+        return now - amount * 7 * DAY_MS;
+      case 'm':
+        date.setMonth(date.getMonth() - amount);
+        return date.getTime();
+      default:
+        date.setFullYear(date.getFullYear() - amount);
+        return date.getTime();
+    }
+  }
+
+  if (DATE_ONLY.test(text)) {
+    // Local day, like the relative forms
+    const [year, month, day] = text.split('-').map(Number);
+    const date = new Date(year!, month! - 1, day!);
+    if (date.getMonth() === month! - 1) {
+      return dayBound(date);
+    }
+  } else if (DATE_TIME.test(text)) {
+    const timestamp = Date.parse(value.trim());
+    if (!isNaN(timestamp)) {
+      return timestamp;
+    }
+  }
+
+  throw new Error(`Invalid date '${value}'. Use an ISO date (2025-10-01) or a relative one (7d, 2w, 3m, 1y, today)`);
+}
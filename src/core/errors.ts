@@ -42,6 +42,18 @@ export class SessionNotFoundError extends CursorContextError {
   }
 }
 
+/**
+ * Session still has metadata but no longer exists in its source (deleted in Cursor,
+ * JSONL file removed, ...)
+ */
+export class SessionMissingError extends SessionNotFoundError {
+  constructor(sessionId: string, sourceLabel: string, public readonly missingSince: number) {
+    super(sessionId);
+    this.message = `Session ${sessionId} no longer exists in ${sourceLabel} (missing since ${new Date(missingSince).toISOString()}). Its metadata is kept until it is pruned.`;
+    this.name = 'SessionMissingError';
+  }
+}
+
 /**
  * Invalid or corrupted data
  */
@@ -52,3 +64,23 @@ export class DataCorruptionError extends CursorContextError {
   }
 }
 
+
+/**
+ * Metadata database schema could not be migrated (or needs a migration that was not run)
+ */
+export class MigrationError extends CursorContextError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * Search query could not be parsed
+ */
+export class QueryParseError extends CursorContextError {
+  constructor(reason: string, public readonly query: string, public readonly position: number) {
+    super(`Invalid search query: ${reason} at column ${position + 1}`);
+    this.name = 'QueryParseError';
+  }
+}
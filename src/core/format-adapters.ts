@@ -1,11 +1,17 @@
 /**
  * Format Adapters
  *
- * Convert between Cursor and Claude Code message formats to a unified format
+ * Convert each supported tool's message format (Cursor, Claude Code, Windsurf, ...) to a unified format
  */
 
-import type { BubbleData, ParsedMessage } from './types.js';
+import path from 'path';
+import type { BubbleData, ConversationBoundary, ParsedMessage, SubConversation, TokenUsage } from './types.js';
 import type { ClaudeCodeMessage } from './claude-code-db.js';
+import type { WindsurfConversation } from './windsurf-db.js';
+import type { CopilotChatSession, CopilotResponsePart } from './copilot-chat-db.js';
+import type { AiderSession } from './aider-history-db.js';
+import { codexMessageText, isCodexContextMessage, type CodexRolloutItem } from './codex-db.js';
+import { geminiMessageText, type GeminiMessage } from './gemini-db.js';
 import { parseBubbles } from './message-parser.js';
 
 /**
@@ -16,13 +22,74 @@ export function cursorToUnified(bubbles: BubbleData[]): ParsedMessage[] {
   return parseBubbles(bubbles);
 }
 
+/**
+ * Text of a Claude Code tool_result (plain string or text/image blocks)
+ */
+function claudeToolResultText(content: string | Array<{ type: string; text?: string }> | undefined): string | undefined {
+  if (typeof content === 'string' || content === undefined) {
+    return content;
+  }
+  return content
+    .map(block => block.type === 'text' ? block.text || '' : `[${block.type}]`)
+    .join('\n');
+}
+
+/**
+ * Token usage of a Claude API response
+ */
+function claudeUsage(usage: NonNullable<ClaudeCodeMessage['message']['usage']>): TokenUsage {
+  return {
+    inputTokens: usage.input_tokens || 0,
+    outputTokens: usage.output_tokens || 0,
+    cacheReadTokens: usage.cache_read_input_tokens || undefined,
+    cacheCreationTokens: usage.cache_creation_input_tokens || undefined
+  };
+}
+
 /**
  * Convert Claude Code messages to unified message format
+ * Each tool_use becomes its own tool message after the assistant text, and the
+ * tool_result sent back in the next user message is attached to it (matched by
+ * tool_use_id). User messages carrying only tool results are not emitted.
+ *
+ * Messages keep the git branch they were written on; assistant and tool messages
+ * also keep their model, and thinking blocks become the reasoning of the next one.
+ * Claude Code writes one line per content block of an API response, so the
+ * response's token usage is set on its first message only (with the counts of
+ * its last line).
+ *
+ * The first message after a compaction (compact_boundary record plus the summary
+ * Claude Code continues from) or after a change of file ID (a resumed session
+ * stitched together by ClaudeCodeDB) is marked with the boundary.
  */
 export function claudeToUnified(messages: ClaudeCodeMessage[]): ParsedMessage[] {
   const unified: ParsedMessage[] = [];
+  const toolCalls = new Map<string, ParsedMessage>();
+  const responses = new Map<string, ParsedMessage>();
+  let reasoning: string[] = [];
+  let boundary: ConversationBoundary | undefined;
+  let fileSessionId: string | undefined;
 
   for (const msg of messages) {
+    const gitBranch = msg.gitBranch || undefined;
+
+    if (msg.sessionId && fileSessionId && msg.sessionId !== fileSessionId) {
+      boundary = boundary ?? { type: 'resume', sessionId: msg.sessionId };
+    }
+    fileSessionId = msg.sessionId || fileSessionId;
+
+    if (msg.type === 'system') {
+      if (msg.subtype === 'compact_boundary') {
+        boundary = {
+          ...boundary,
+          type: 'compaction',
+          trigger: msg.compactMetadata?.trigger,
+          preTokens: msg.compactMetadata?.preTokens
+        };
+      }
+      continue;
+    }
+
     // Handle user messages
     if (msg.type === 'user') {
       let content = '';
@@ -35,52 +102,392 @@ export function claudeToUnified(messages: ClaudeCodeMessage[]): ParsedMessage[]
           .filter(c => c.type === 'text' && c.text)
           .map(c => c.text || '');
         content = textParts.join('\n');
+
+        // Attach tool results to their calls
+        for (const item of msg.message.content) {
+          const call = item.type === 'tool_result' && item.tool_use_id ? toolCalls.get(item.tool_use_id) : undefined;
+          if (call?.toolData) {
+            call.toolData.result = claudeToolResultText(item.content);
+            if (item.is_error) {
+              call.toolData.isError = true;
+            }
+          }
+        }
+      }
+
+      // The summary a compacted conversation continues from was not written by the user
+      if (msg.isCompactSummary) {
+        boundary = { ...boundary, type: 'compaction', summary: content.trim() || undefined };
+        continue;
       }
 
       if (content.trim()) {
+        // Reasoning that led to nothing visible is dropped
+        reasoning = [];
         unified.push({
           role: 'user',
           content,
           bubbleId: msg.uuid,
-          timestamp: msg.timestamp
+          timestamp: msg.timestamp,
+          gitBranch,
+          boundary
         });
+        boundary = undefined;
       }
     }
 
     // Handle assistant messages
     if (msg.type === 'assistant') {
-      let content = '';
-      let toolData = undefined;
+      // Locally generated replies (e.g. interruptions) are marked with a placeholder model
+      const model = msg.message.model && msg.message.model !== '<synthetic>' ? msg.message.model : undefined;
+
+      // The first message keeps the line's uuid (Claude Code usually writes one content block per line)
+      const emitted: ParsedMessage[] = [];
+      const push = (message: Pick<ParsedMessage, 'role' | 'content' | 'toolData'>, blockId: string) => {
+        const parsed: ParsedMessage = {
+          ...message,
+          bubbleId: emitted.length === 0 ? msg.uuid : `${msg.uuid}:${blockId}`,
+          timestamp: msg.timestamp,
+          model,
+          gitBranch,
+          reasoning: reasoning.length > 0 ? reasoning.join('\n\n') : undefined,
+          boundary
+        };
+        reasoning = [];
+        boundary = undefined;
+        unified.push(parsed);
+        emitted.push(parsed);
+        return parsed;
+      };
 
       if (typeof msg.message.content === 'string') {
-        content = msg.message.content;
-      } else if (Array.isArray(msg.message.content)) {
-        // Process content array
+        if (msg.message.content.trim()) {
+          push({ role: 'assistant', content: msg.message.content.trim() }, 'text');
+        }
+      } else {
         for (const item of msg.message.content) {
-          if (item.type === 'text' && item.text) {
-            content += (content ? '\n' : '') + item.text;
+          if (item.type === 'thinking' && item.thinking?.trim()) {
+            reasoning.push(item.thinking.trim());
           }
+        }
 
-          // Extract tool use information
-          if (item.type === 'tool_use' && item.name) {
-            toolData = {
+        const content = msg.message.content
+          .filter(item => item.type === 'text' && item.text)
+          .map(item => item.text)
+          .join('\n')
+          .trim();
+        if (content) {
+          push({ role: 'assistant', content }, 'text');
+        }
+
+        msg.message.content.forEach((item, i) => {
+          if (item.type !== 'tool_use' || !item.name) {
+            return;
+          }
+          const call = push({
+            role: 'tool',
+            content: '',
+            toolData: {
               name: item.name,
-              params: item.input || {},
-              result: undefined // Tool results come in separate messages
-            };
+              params: item.input || {}
+            }
+          }, item.id || String(i));
+          if (item.id) {
+            toolCalls.set(item.id, call);
           }
+        });
+      }
+
+      // Usage belongs to the API response, which may span several lines
+      const responseId = msg.message.id || msg.uuid;
+      const first = responses.get(responseId) ?? emitted[0];
+      if (first) {
+        responses.set(responseId, first);
+        if (msg.message.usage) {
+          first.usage = claudeUsage(msg.message.usage);
         }
       }
+    }
+  }
+
+  return unified;
+}
+
+/**
+ * Convert the subagent conversations of a Claude Code session to unified format
+ * Each is tied to the Task tool call of the main conversation whose prompt started it.
+ *
+ * @param sidechains - Subagent conversations (see splitSidechains)
+ * @param main - The session's main conversation in unified format
+ */
+export function claudeSidechainsToUnified(sidechains: ClaudeCodeMessage[][], main: ParsedMessage[]): SubConversation[] {
+  const taskCalls = main.filter(msg => msg.toolData?.name === 'Task');
+  const matched = new Set<ParsedMessage>();
+  const text = (value: unknown) => typeof value === 'string' ? value : undefined;
+
+  return sidechains
+    .map(thread => {
+      const messages = claudeToUnified(thread);
+      const prompt = messages.find(msg => msg.role === 'user')?.content.trim();
 
-      // Create unified message
+      const call = taskCalls.find(msg => !matched.has(msg) && text(msg.toolData!.params?.prompt)?.trim() === prompt);
+      if (call) {
+        matched.add(call);
+      }
+
+      return {
+        parentBubbleId: call?.bubbleId,
+        description: text(call?.toolData?.params?.description),
+        agentType: text(call?.toolData?.params?.subagent_type),
+        messages
+      };
+    })
+    .filter(sub => sub.messages.length > 0);
+}
+
+/**
+ * Convert a Windsurf Cascade conversation to unified message format
+ * Each tool call becomes its own tool message after the step's text.
+ */
+export function windsurfToUnified(conversation: WindsurfConversation): ParsedMessage[] {
+  const unified: ParsedMessage[] = [];
+
+  for (const msg of conversation.messages) {
+    if (msg.text.trim()) {
       unified.push({
-        role: toolData ? 'tool' : 'assistant',
-        content: content.trim(),
-        bubbleId: msg.uuid,
+        role: msg.role,
+        content: msg.text.trim(),
+        bubbleId: msg.id,
+        timestamp: msg.timestamp
+      });
+    }
+
+    msg.toolCalls.forEach((call, i) => {
+      unified.push({
+        role: 'tool',
+        content: '',
+        bubbleId: `${msg.id}:${call.id || i}`,
         timestamp: msg.timestamp,
-        toolData
+        toolData: {
+          name: call.name,
+          params: call.arguments || {},
+          result: call.result
+        }
       });
+    });
+  }
+
+  return unified;
+}
+
+/**
+ * Text of a Copilot message field (plain string or { value } markdown object)
+ */
+function copilotText(value: CopilotResponsePart['invocationMessage']): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  return value?.value || '';
+}
+
+/**
+ * Convert a Copilot Chat session to unified message format
+ * Response text is split around tool invocations and file edits, which become tool messages.
+ */
+export function copilotToUnified(session: CopilotChatSession): ParsedMessage[] {
+  const unified: ParsedMessage[] = [];
+
+  for (const request of session.requests) {
+    const timestamp = request.timestamp ? new Date(request.timestamp).toISOString() : undefined;
+
+    if (request.message?.text?.trim()) {
+      unified.push({
+        role: 'user',
+        content: request.message.text.trim(),
+        bubbleId: request.requestId,
+        timestamp
+      });
+    }
+
+    let text = '';
+    let partIndex = 0;
+
+    const flush = () => {
+      if (text.trim()) {
+        unified.push({
+          role: 'assistant',
+          content: text.trim(),
+          bubbleId: `${request.requestId}:${partIndex++}`,
+          timestamp
+        });
+      }
+      text = '';
+    };
+
+    const pushTool = (name: string, params: Record<string, unknown>, result?: unknown) => {
+      flush();
+      unified.push({
+        role: 'tool',
+        content: '',
+        bubbleId: `${request.requestId}:${partIndex++}`,
+        timestamp,
+        toolData: { name, params, result }
+      });
+    };
+
+    for (const part of request.response || []) {
+      if (!part.kind || part.kind === 'markdownContent') {
+        text += typeof part.value === 'string' ? part.value : copilotText(part.content as { value: string });
+      } else if (part.kind === 'inlineReference' && part.inlineReference) {
+        const ref = part.inlineReference;
+        const name = ref.name || ref.uri?.path || ref.path || ref.fsPath;
+        text += name ? `\`${path.basename(name)}\`` : '';
+      } else if (part.kind === 'toolInvocationSerialized') {
+        pushTool(part.toolId || 'tool', { message: copilotText(part.invocationMessage) }, copilotText(part.pastTenseMessage) || undefined);
+      } else if (part.kind === 'textEditGroup' && part.uri) {
+        pushTool('textEdit', { file: part.uri.fsPath || part.uri.path });
+      }
+    }
+
+    flush();
+  }
+
+  return unified;
+}
+
+/**
+ * Convert an Aider session to unified message format
+ * Aider's own output (applied edits, commits, command output) becomes tool messages.
+ */
+export function aiderToUnified(session: AiderSession): ParsedMessage[] {
+  const timestamp = session.startedAt ? new Date(session.startedAt).toISOString() : undefined;
+
+  return session.messages.map((msg, i) => ({
+    role: msg.role,
+    content: msg.content,
+    bubbleId: `${session.sessionId}-${i}`,
+    timestamp,
+    toolData: msg.role === 'tool' ? { name: 'aider' } : undefined
+  }));
+}
+
+/**
+ * Parse a JSON-encoded tool argument string (kept as `{ input }` if it is not JSON)
+ */
+function parseToolArguments(value: unknown): Record<string, unknown> {
+  if (typeof value !== 'string') {
+    return value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? parsed : { input: parsed };
+  } catch {
+    return { input: value };
+  }
+}
+
+/**
+ * Convert Codex CLI rollout items to unified message format
+ * Function call outputs are attached to their call (matched by call_id) as the tool result.
+ */
+export function codexToUnified(items: CodexRolloutItem[]): ParsedMessage[] {
+  const unified: ParsedMessage[] = [];
+  const toolCalls = new Map<string, ParsedMessage>();
+
+  items.forEach((item, i) => {
+    if (item.type !== 'response_item') {
+      return;
+    }
+
+    const payload = item.payload;
+    const bubbleId = payload.id || payload.call_id || `item-${i}`;
+
+    switch (payload.type) {
+      case 'message': {
+        const content = codexMessageText(payload).trim();
+        if (!content || (payload.role === 'user' && isCodexContextMessage(content))) {
+          return;
+        }
+        if (payload.role === 'user' || payload.role === 'assistant') {
+          unified.push({ role: payload.role, content, bubbleId, timestamp: item.timestamp });
+        }
+        return;
+      }
+
+      case 'function_call':
+      case 'custom_tool_call':
+      case 'local_shell_call': {
+        const message: ParsedMessage = {
+          role: 'tool',
+          content: '',
+          bubbleId,
+          timestamp: item.timestamp,
+          toolData: {
+            name: payload.name || 'shell',
+            params: payload.type === 'local_shell_call'
+              ? { ...payload.action }
+              : parseToolArguments(payload.arguments ?? payload.input)
+          }
+        };
+        unified.push(message);
+        if (payload.call_id) {
+          toolCalls.set(payload.call_id, message);
+        }
+        return;
+      }
+
+      case 'function_call_output':
+      case 'custom_tool_call_output': {
+        const call = toolCalls.get(payload.call_id);
+        if (call?.toolData) {
+          // Shell output is wrapped as {"output": "...", "metadata": {...}}
+          const output = parseToolArguments(payload.output);
+          call.toolData.result = 'output' in output ? output.output : payload.output;
+        }
+        return;
+      }
     }
+  });
+
+  return unified;
+}
+
+/**
+ * Convert Gemini CLI messages to unified message format
+ * Each tool call becomes its own tool message after the turn's text; info/error notices are skipped.
+ */
+export function geminiToUnified(messages: GeminiMessage[]): ParsedMessage[] {
+  const unified: ParsedMessage[] = [];
+
+  for (const msg of messages) {
+    if (msg.type !== 'user' && msg.type !== 'gemini') {
+      continue;
+    }
+
+    const content = geminiMessageText(msg).trim();
+    if (content) {
+      unified.push({
+        role: msg.type === 'user' ? 'user' : 'assistant',
+        content,
+        bubbleId: msg.id,
+        timestamp: msg.timestamp
+      });
+    }
+
+    (msg.toolCalls || []).forEach((call, i) => {
+      unified.push({
+        role: 'tool',
+        content: '',
+        bubbleId: call.id || `${msg.id}:${i}`,
+        timestamp: msg.timestamp,
+        toolData: {
+          name: call.name,
+          params: call.args || {},
+          result: call.resultDisplay ?? call.result
+        }
+      });
+    });
   }
 
   return unified;
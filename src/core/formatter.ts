@@ -4,7 +4,7 @@
  * Format sessions for output (Markdown, JSON, etc.)
  */
 
-import type { SessionWithMessages, SessionMetadata, ParsedMessage } from './types.js';
+import type { SessionWithMessages, SessionMetadata, SessionNote, ParsedMessage, ConversationBoundary, SubConversation, SearchResult, BookmarkedExchange, CollectionQuery } from './types.js';
 
 /**
  * Options for formatting sessions
@@ -16,6 +16,175 @@ export interface FormatOptions {
   maxMessages?: number;
   /** Include metadata header */
   includeMetadata?: boolean;
+  /** Include notes (session notes in the header, message notes after their message) */
+  includeNotes?: boolean;
+  /** Show each message's model, token usage and git branch under its header (default: false) */
+  includeMessageDetails?: boolean;
+  /** Include the model's reasoning before the messages it led to (default: false) */
+  includeReasoning?: boolean;
+}
+
+/** Longest tool result shown in Markdown output (the JSON output is never cut) */
+const MAX_TOOL_RESULT_LENGTH = 2000;
+
+/**
+ * Render a tool result as a fenced code block, cut to MAX_TOOL_RESULT_LENGTH
+ */
+function formatToolResult(result: unknown): string[] {
+  let text = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+  if (text.length > MAX_TOOL_RESULT_LENGTH) {
+    text = `${text.slice(0, MAX_TOOL_RESULT_LENGTH)}\n… (${text.length - MAX_TOOL_RESULT_LENGTH} more characters)`;
+  }
+  // Keep code fences in the output from closing the block
+  const fence = text.includes('```') ? '````' : '```';
+  return [fence, text, fence];
+}
+
+/**
+ * One-line summary of a message's model, token usage and git branch (null if none is known)
+ */
+export function formatMessageDetails(message: ParsedMessage): string | null {
+  const count = (n: number) => n.toLocaleString('en-US');
+  const parts: string[] = [];
+
+  if (message.model) {
+    parts.push(message.model);
+  }
+  if (message.usage) {
+    const { inputTokens, outputTokens, cacheReadTokens, cacheCreationTokens } = message.usage;
+    parts.push(`${count(inputTokens)} in / ${count(outputTokens)} out tokens`);
+    if (cacheReadTokens || cacheCreationTokens) {
+      parts.push(`cache ${count(cacheReadTokens || 0)} read / ${count(cacheCreationTokens || 0)} written`);
+    }
+  }
+  if (message.gitBranch) {
+    parts.push(`branch ${message.gitBranch}`);
+  }
+
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+/**
+ * Render a note as a Markdown blockquote
+ */
+function formatNoteMarkdown(note: SessionNote): string[] {
+  const [first, ...rest] = note.content.trim().split('\n');
+  return [`> 📝 ${first}`, ...rest.map(line => `> ${line}`.trimEnd())];
+}
+
+/**
+ * Render where a conversation was compacted or resumed (with the summary it continued from)
+ */
+function formatBoundaryMarkdown(boundary: ConversationBoundary): string[] {
+  const details = boundary.type === 'compaction'
+    ? [boundary.trigger, boundary.preTokens ? `${boundary.preTokens.toLocaleString('en-US')} tokens` : undefined]
+    : [boundary.sessionId];
+  const label = boundary.type === 'compaction' ? '✂️ Conversation compacted' : '↩️ Session resumed';
+  const title = details.some(Boolean) ? `${label} (${details.filter(Boolean).join(' · ')})` : label;
+
+  if (!boundary.summary) {
+    return [`_${title}_`, ''];
+  }
+  return ['<details>', `<summary>${title}</summary>`, '', boundary.summary, '', '</details>', ''];
+}
+
+/**
+ * Render one message: header, details, reasoning, content and tool call
+ */
+function formatMessageMarkdown(msg: ParsedMessage, options: FormatOptions, heading: string): string[] {
+  const {
+    includeTools = true,
+    includeMessageDetails = false,
+    includeReasoning = false
+  } = options;
+
+  const lines: string[] = [];
+
+  // Message header
+  const roleLabel = msg.role === 'user' ? '👤 User' : 
+                   msg.role === 'assistant' ? '🤖 Assistant' : 
+                   '🔧 Tool';
+  
+  lines.push(`${heading} ${roleLabel}`);
+  lines.push('');
+
+  const details = includeMessageDetails ? formatMessageDetails(msg) : null;
+  if (details) {
+    lines.push(`_${details}_`);
+    lines.push('');
+  }
+
+  if (includeReasoning && msg.reasoning) {
+    lines.push('<details>');
+    lines.push('<summary>💭 Reasoning</summary>');
+    lines.push('');
+    lines.push(msg.reasoning);
+    lines.push('');
+    lines.push('</details>');
+    lines.push('');
+  }
+  
+  // Content
+  if (msg.content) {
+    lines.push(msg.content);
+    lines.push('');
+  }
+  
+  // Tool info (if included)
+  if (includeTools && msg.toolData) {
+    lines.push(`<details>`);
+    lines.push(`<summary>🔧 Tool: ${msg.toolData.name}</summary>`);
+    lines.push('');
+    
+    if (msg.toolData.params) {
+      lines.push('**Parameters:**');
+      lines.push('```json');
+      lines.push(JSON.stringify(msg.toolData.params, null, 2));
+      lines.push('```');
+      lines.push('');
+    }
+    
+    if (msg.toolData.result !== undefined) {
+      lines.push(msg.toolData.isError ? '**Error:**' : '**Result:**');
+      lines.push(...formatToolResult(msg.toolData.result));
+      lines.push('');
+    }
+    
+    if (msg.toolData.workspacePath) {
+      lines.push(`**Workspace:** \`${msg.toolData.workspacePath}\``);
+      lines.push('');
+    }
+    
+    lines.push('</details>');
+    lines.push('');
+  }
+
+  return lines;
+}
+
+/**
+ * Render a subagent conversation as a collapsible section
+ */
+function formatSubConversationMarkdown(sub: SubConversation, options: FormatOptions): string[] {
+  const { includeTools = true } = options;
+  const label = [sub.agentType, sub.description].filter(Boolean).join(': ') || 'conversation';
+
+  const lines = [
+    '<details>',
+    `<summary>🧩 Subagent ${label} (${sub.messages.length} messages)</summary>`,
+    ''
+  ];
+
+  for (const msg of sub.messages) {
+    if (!includeTools && msg.toolData && !msg.content) {
+      continue;
+    }
+    lines.push(...formatMessageMarkdown(msg, options, '###'));
+  }
+
+  lines.push('</details>');
+  lines.push('');
+  return lines;
 }
 
 /**
@@ -25,10 +194,17 @@ export function formatSessionMarkdown(session: SessionWithMessages, options: For
   const {
     includeTools = true,
     maxMessages,
-    includeMetadata = true
+    includeMetadata = true,
+    includeNotes = true
   } = options;
   
   const lines: string[] = [];
+
+  const notes = includeNotes ? session.notes || [] : [];
+  const messageNotes = new Map<string, SessionNote[]>();
+  for (const note of notes.filter(n => n.bubble_id)) {
+    messageNotes.set(note.bubble_id!, [...(messageNotes.get(note.bubble_id!) || []), note]);
+  }
   
   // Header
   if (includeMetadata) {
@@ -40,6 +216,10 @@ export function formatSessionMarkdown(session: SessionWithMessages, options: For
     if (metadata.nickname) {
       lines.push(`**Nickname:** ${metadata.nickname}`);
     }
+
+    if (metadata.summary_title) {
+      lines.push(`**Summary:** ${metadata.summary_title}`);
+    }
     
     lines.push(`**Session ID:** ${metadata.session_id}`);
     
@@ -62,6 +242,12 @@ export function formatSessionMarkdown(session: SessionWithMessages, options: For
     
     lines.push(`**Messages:** ${metadata.message_count || session.messages.length}`);
     lines.push('');
+
+    for (const note of notes.filter(n => !n.bubble_id)) {
+      lines.push(...formatNoteMarkdown(note));
+      lines.push('');
+    }
+
     lines.push('---');
     lines.push('');
   }
@@ -71,48 +257,31 @@ export function formatSessionMarkdown(session: SessionWithMessages, options: For
     ? session.messages.slice(0, maxMessages)
     : session.messages;
   
+  const subConversations = session.subConversations || [];
+  
   for (let i = 0; i < messagesToShow.length; i++) {
     const msg = messagesToShow[i]!;
+
+    // Compaction and resume points are shown even when the message after them is hidden
+    if (msg.boundary) {
+      lines.push(...formatBoundaryMarkdown(msg.boundary));
+    }
     
     // Skip tool-only messages if not including tools
     if (!includeTools && msg.toolData && !msg.content) {
       continue;
     }
     
-    // Message header
-    const roleLabel = msg.role === 'user' ? '👤 User' : 
-                     msg.role === 'assistant' ? '🤖 Assistant' : 
-                     '🔧 Tool';
-    
-    lines.push(`## ${roleLabel}`);
-    lines.push('');
-    
-    // Content
-    if (msg.content) {
-      lines.push(msg.content);
-      lines.push('');
+    lines.push(...formatMessageMarkdown(msg, options, '##'));
+
+    // Subagents started by this message
+    for (const sub of subConversations.filter(sub => sub.parentBubbleId === msg.bubbleId)) {
+      lines.push(...formatSubConversationMarkdown(sub, options));
     }
-    
-    // Tool info (if included)
-    if (includeTools && msg.toolData) {
-      lines.push(`<details>`);
-      lines.push(`<summary>🔧 Tool: ${msg.toolData.name}</summary>`);
-      lines.push('');
-      
-      if (msg.toolData.params) {
-        lines.push('**Parameters:**');
-        lines.push('```json');
-        lines.push(JSON.stringify(msg.toolData.params, null, 2));
-        lines.push('```');
-        lines.push('');
-      }
-      
-      if (msg.toolData.workspacePath) {
-        lines.push(`**Workspace:** \`${msg.toolData.workspacePath}\``);
-        lines.push('');
-      }
-      
-      lines.push('</details>');
+
+    // Notes on this message
+    for (const note of messageNotes.get(msg.bubbleId) || []) {
+      lines.push(...formatNoteMarkdown(note));
       lines.push('');
     }
     
@@ -122,6 +291,16 @@ export function formatSessionMarkdown(session: SessionWithMessages, options: For
       lines.push('');
     }
   }
+
+  // Subagents that can't be tied to a message
+  const unplaced = subConversations.filter(sub => !sub.parentBubbleId || !session.messages.some(msg => msg.bubbleId === sub.parentBubbleId));
+  if (unplaced.length > 0) {
+    lines.push('---');
+    lines.push('');
+    for (const sub of unplaced) {
+      lines.push(...formatSubConversationMarkdown(sub, options));
+    }
+  }
   
   // Show truncation notice
   if (maxMessages && session.messages.length > maxMessages) {
@@ -143,7 +322,9 @@ export function formatSessionJSON(session: SessionWithMessages, options: FormatO
     metadata: session.metadata,
     messages: maxMessages 
       ? session.messages.slice(0, maxMessages)
-      : session.messages
+      : session.messages,
+    notes: session.notes,
+    subConversations: session.subConversations
   };
   
   // Filter out tool data if not including
@@ -253,23 +434,194 @@ export function formatSessionList(sessions: SessionMetadata[], useEmojis = true)
 /**
  * Format a single message
  */
-export function formatMessage(message: ParsedMessage, includeTools = true): string {
+export function formatMessage(message: ParsedMessage, includeTools = true, includeDetails = false): string {
   const lines: string[] = [];
   
   const roleLabel = message.role === 'user' ? '[USER]' : 
                    message.role === 'assistant' ? '[ASSISTANT]' : 
                    '[TOOL]';
   
-  lines.push(roleLabel);
+  const details = includeDetails ? formatMessageDetails(message) : null;
+  lines.push(details ? `${roleLabel} (${details})` : roleLabel);
   
   if (message.content) {
     lines.push(message.content);
   }
   
   if (includeTools && message.toolData) {
-    lines.push(`Tool: ${message.toolData.name}`);
+    lines.push(`Tool: ${message.toolData.name}${message.toolData.isError ? ' (failed)' : ''}`);
   }
   
   return lines.join('\n');
 }
 
+/**
+ * Build a regex matching any search term (prefix match, case-insensitive)
+ * Prefix matching roughly mirrors the stemming done by the full-text index.
+ */
+function buildTermPattern(query: string): RegExp | null {
+  const terms = query
+    .split(/\s+/)
+    .map(term => term.replace(/^"+|"+$/g, ''))
+    .filter(term => term.length > 0)
+    .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return new RegExp(`(${terms.join('|')})[\\w-]*`, 'gi');
+}
+
+/**
+ * Wrap every occurrence of the query terms in `text` (Markdown bold by default)
+ */
+export function highlightMatches(
+  text: string,
+  query: string,
+  wrap: (term: string) => string = term => `**${term}**`
+): string {
+  const pattern = buildTermPattern(query);
+  if (!pattern) {
+    return text;
+  }
+
+  return text.replace(pattern, match => wrap(match));
+}
+
+/**
+ * Cut a single-line excerpt of `text` centred on the first query term
+ */
+export function createSnippet(text: string, query: string, maxLength = 200): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+
+  if (flat.length <= maxLength) {
+    return flat;
+  }
+
+  const pattern = buildTermPattern(query);
+  const matchIndex = pattern ? flat.search(pattern) : -1;
+  const start = matchIndex > maxLength / 3
+    ? Math.min(matchIndex - Math.floor(maxLength / 3), flat.length - maxLength)
+    : 0;
+  const end = start + maxLength;
+
+  return `${start > 0 ? '...' : ''}${flat.substring(start, end)}${end < flat.length ? '...' : ''}`;
+}
+
+/**
+ * Format message-level search results as Markdown with highlighted terms
+ */
+export function formatSearchResults(results: SearchResult[], query: string): string {
+  if (results.length === 0) {
+    return 'No sessions found.';
+  }
+
+  const roleLabel = (msg: ParsedMessage) => msg.role === 'user' ? '👤 User' :
+                                            msg.role === 'assistant' ? '🤖 Assistant' :
+                                            '🔧 Tool';
+
+  const blocks = results.map((result, i) => {
+    const s = result.session;
+    const lines: string[] = [];
+
+    const nickname = s.nickname || s.session_id.substring(0, 8) + '...';
+    const project = s.project_name || 'no project';
+    const tags = s.tags && s.tags.length > 0 ? ` [${s.tags.join(', ')}]` : '';
+
+    lines.push(`${i + 1}. **${nickname}** (${project})${tags}`);
+    lines.push(`   ID: ${s.session_id}`);
+
+    if (result.matches.length === 0) {
+      const preview = s.first_message_preview
+        ? s.first_message_preview.substring(0, 80) + '...'
+        : 'no preview';
+      lines.push(`   Preview: "${preview}"`);
+    }
+
+    for (const match of result.matches) {
+      lines.push('');
+      for (const msg of match.contextBefore) {
+        lines.push(`   > _${roleLabel(msg)}:_ ${createSnippet(msg.content, query, 120)}`);
+      }
+      const snippet = highlightMatches(createSnippet(match.message.content, query), query);
+      lines.push(`   > **${roleLabel(match.message)}:** ${snippet}`);
+      for (const msg of match.contextAfter) {
+        lines.push(`   > _${roleLabel(msg)}:_ ${createSnippet(msg.content, query, 120)}`);
+      }
+    }
+
+    return lines.join('\n');
+  });
+
+  return blocks.join('\n\n');
+}
+
+/**
+ * Format bookmarked exchanges as Markdown (full question and answer text)
+ */
+export function formatBookmarksMarkdown(exchanges: BookmarkedExchange[]): string {
+  if (exchanges.length === 0) {
+    return 'No bookmarks found.';
+  }
+
+  const roleLabel = (msg: ParsedMessage) => msg.role === 'user' ? '👤 User' :
+                                            msg.role === 'assistant' ? '🤖 Assistant' :
+                                            '🔧 Tool';
+
+  const blocks = exchanges.map(exchange => {
+    const { bookmark, session } = exchange;
+    const lines: string[] = [];
+
+    const nickname = session.nickname || session.session_id.substring(0, 8) + '...';
+    const project = session.project_name || 'no project';
+
+    lines.push(`## ${bookmark.label || nickname}`);
+    lines.push('');
+    lines.push(`_Bookmark ${bookmark.id} • ${nickname} (${project}) • ${session.session_id} • message ${bookmark.bubble_id}_`);
+    lines.push('');
+
+    const messages = exchange.question ? [exchange.question, ...exchange.answer] : exchange.answer;
+    if (messages.length === 0) {
+      lines.push('_Message text is not indexed yet; sync the session to include it._');
+      lines.push('');
+    }
+
+    for (const msg of messages) {
+      const marker = msg.bubbleId === bookmark.bubble_id ? ' ⭐' : '';
+      lines.push(`**${roleLabel(msg)}${marker}:**`);
+      lines.push('');
+      lines.push(msg.content);
+      lines.push('');
+    }
+
+    return lines.join('\n').trimEnd();
+  });
+
+  return blocks.join('\n\n---\n\n');
+}
+
+/**
+ * Summarize a collection's filters on one line, e.g. `"token refresh" tag:auth source:claude since:30d`
+ */
+export function formatCollectionQuery(query: CollectionQuery): string {
+  const parts: string[] = [];
+
+  if (query.query) parts.push(JSON.stringify(query.query));
+  if (query.projectPath) parts.push(`project:${query.projectPath}`);
+  if (query.tag) parts.push(`tag:${query.tag}`);
+  if (query.taggedOnly) parts.push('tagged-only');
+  if (query.source && query.source !== 'all') parts.push(`source:${query.source}`);
+  if (query.since) parts.push(`since:${query.since}`);
+  if (query.until) parts.push(`until:${query.until}`);
+  if (query.minMessages !== undefined) parts.push(`min-messages:${query.minMessages}`);
+  if (query.maxMessages !== undefined) parts.push(`max-messages:${query.maxMessages}`);
+  if (query.model) parts.push(`model:${query.model}`);
+  if (query.gitBranch) parts.push(`branch:${query.gitBranch}`);
+  if (query.sortBy) parts.push(`sort:${query.sortBy}`);
+  if (query.limit) parts.push(`limit:${query.limit}`);
+  if (query.caseSensitive) parts.push('case-sensitive');
+  if (query.includeMissing) parts.push('include-missing');
+
+  return parts.length > 0 ? parts.join(' ') : 'all sessions';
+}
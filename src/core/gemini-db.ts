@@ -0,0 +1,293 @@
+/**
+ * Gemini CLI Database Reader
+ *
+ * Reads chat sessions from Gemini CLI's saved conversation files
+ * Location: ~/.gemini/tmp/[project-hash]/chats/session-[timestamp]-[id].json
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+
+/**
+ * Tool call made by Gemini during a turn
+ */
+export interface GeminiToolCall {
+  id?: string;
+  name: string;
+  args?: Record<string, unknown>;
+  result?: unknown;
+  status?: string;
+  resultDisplay?: unknown;
+}
+
+/**
+ * Single message from a Gemini CLI conversation
+ */
+export interface GeminiMessage {
+  id: string;
+  timestamp: string;
+  /** user | gemini | info | error | warning */
+  type: string;
+  content: string | Array<{ text?: string }>;
+  toolCalls?: GeminiToolCall[];
+  model?: string;
+}
+
+/**
+ * Gemini CLI conversation file
+ */
+export interface GeminiConversation {
+  sessionId: string;
+  /** SHA-256 of the project root the CLI was started in */
+  projectHash: string;
+  startTime?: string;
+  lastUpdated?: string;
+  messages: GeminiMessage[];
+}
+
+/**
+ * Gemini CLI session metadata
+ */
+export interface GeminiSession {
+  sessionId: string;
+  filePath: string;
+  projectHash: string;
+  projectPath: string | null;
+  projectName: string | null;
+  messageCount: number;
+  createdAt: number;
+  lastAccessedAt: number;
+  firstMessagePreview?: string;
+}
+
+/**
+ * Text of a Gemini message (string or parts array)
+ */
+export function geminiMessageText(message: GeminiMessage): string {
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+  if (!Array.isArray(message.content)) {
+    return '';
+  }
+
+  return message.content
+    .filter(part => typeof part?.text === 'string')
+    .map(part => part.text)
+    .join('\n');
+}
+
+function isAbsolutePath(p: string): boolean {
+  return p.startsWith('/') || /^[A-Z]:\\/i.test(p);
+}
+
+/**
+ * Find the project root of a conversation
+ * Gemini only stores a hash of the directory it was started in, so every ancestor of
+ * the absolute paths used in tool calls is hashed and compared against it.
+ */
+export function detectGeminiProjectPath(conversation: GeminiConversation): string | null {
+  const checked = new Set<string>();
+
+  for (const message of conversation.messages) {
+    for (const call of message.toolCalls || []) {
+      for (const value of Object.values(call.args || {})) {
+        const candidates = Array.isArray(value) ? value : [value];
+
+        for (const candidate of candidates) {
+          if (typeof candidate !== 'string' || !isAbsolutePath(candidate)) {
+            continue;
+          }
+
+          let dir = candidate.replace(/[\/\\]+$/, '');
+          while (dir && !checked.has(dir)) {
+            checked.add(dir);
+            if (crypto.createHash('sha256').update(dir).digest('hex') === conversation.projectHash) {
+              return dir;
+            }
+            const parent = path.dirname(dir);
+            if (parent === dir) {
+              break;
+            }
+            dir = parent;
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Database reader for Gemini CLI sessions
+ */
+export class GeminiDB {
+  private geminiTmpPath: string;
+  /** File holding the latest copy of each session, as of the last listing */
+  private sessionFiles = new Map<string, string>();
+
+  constructor(geminiTmpPath?: string) {
+    this.geminiTmpPath = geminiTmpPath || path.join(os.homedir(), '.gemini', 'tmp');
+  }
+
+  /**
+   * Get all Gemini CLI sessions across all projects
+   */
+  getAllSessions(): GeminiSession[] {
+    const sessions = new Map<string, GeminiSession>();
+
+    for (const sessionFile of this.getSessionFiles()) {
+      try {
+        const session = this.parseSessionFile(sessionFile);
+        // A resumed session can be saved again; keep the most recent copy
+        const existing = session ? sessions.get(session.sessionId) : undefined;
+        if (session && (!existing || session.lastAccessedAt > existing.lastAccessedAt)) {
+          sessions.set(session.sessionId, session);
+        }
+      } catch (error) {
+        // Skip invalid session files
+        console.error(`Error parsing session file ${sessionFile}:`, error);
+      }
+    }
+
+    this.sessionFiles = new Map(Array.from(sessions.values(), session => [session.sessionId, session.filePath]));
+    return Array.from(sessions.values());
+  }
+
+  /**
+   * Get all conversation files (tmp/[project-hash]/chats/*.json)
+   */
+  private getSessionFiles(): string[] {
+    if (!fs.existsSync(this.geminiTmpPath)) {
+      return [];
+    }
+
+    const projectDirs = fs.readdirSync(this.geminiTmpPath, { withFileTypes: true })
+      .filter(dirent => dirent.isDirectory())
+      .map(dirent => path.join(this.geminiTmpPath, dirent.name, 'chats'));
+
+    return projectDirs
+      .filter(chatsDir => fs.existsSync(chatsDir))
+      .flatMap(chatsDir => fs.readdirSync(chatsDir)
+        .filter(file => file.endsWith('.json'))
+        .map(file => path.join(chatsDir, file)));
+  }
+
+  /**
+   * Read a conversation file
+   */
+  private readConversation(filePath: string): GeminiConversation | null {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (!data || typeof data.sessionId !== 'string' || !Array.isArray(data.messages)) {
+      return null;
+    }
+
+    return {
+      sessionId: data.sessionId,
+      // Fall back to the directory name, which is the project hash
+      projectHash: data.projectHash || path.basename(path.dirname(path.dirname(filePath))),
+      startTime: data.startTime,
+      lastUpdated: data.lastUpdated,
+      messages: data.messages
+    };
+  }
+
+  /**
+   * Parse a conversation file into session metadata
+   */
+  private parseSessionFile(filePath: string): GeminiSession | null {
+    const conversation = this.readConversation(filePath);
+    if (!conversation || conversation.messages.length === 0) {
+      return null;
+    }
+
+    const chatMessages = conversation.messages.filter(m => m.type === 'user' || m.type === 'gemini');
+    const firstUser = chatMessages.find(m => m.type === 'user');
+    const first = conversation.messages[0]!;
+    const last = conversation.messages[conversation.messages.length - 1]!;
+    const projectPath = detectGeminiProjectPath(conversation);
+
+    return {
+      sessionId: conversation.sessionId,
+      filePath,
+      projectHash: conversation.projectHash,
+      projectPath,
+      projectName: projectPath ? path.basename(projectPath) : null,
+      messageCount: chatMessages.length,
+      createdAt: new Date(conversation.startTime || first.timestamp).getTime(),
+      lastAccessedAt: new Date(conversation.lastUpdated || last.timestamp).getTime(),
+      firstMessagePreview: firstUser ? geminiMessageText(firstUser).substring(0, 200) : undefined
+    };
+  }
+
+  /**
+   * Get a conversation by session ID (most recently updated copy)
+   */
+  getConversation(sessionId: string): GeminiConversation | null {
+    const knownFile = this.sessionFiles.get(sessionId);
+    if (knownFile) {
+      try {
+        const conversation = this.readConversation(knownFile);
+        if (conversation?.sessionId === sessionId) {
+          return conversation;
+        }
+      } catch (error) {
+        // Moved or rewritten since the listing; scan below
+      }
+    }
+
+    let found: GeminiConversation | null = null;
+    let foundFile: string | null = null;
+
+    for (const sessionFile of this.getSessionFiles()) {
+      try {
+        const conversation = this.readConversation(sessionFile);
+        if (conversation?.sessionId !== sessionId) {
+          continue;
+        }
+        if (!found || (conversation.lastUpdated || '') > (found.lastUpdated || '')) {
+          found = conversation;
+          foundFile = sessionFile;
+        }
+      } catch (error) {
+        // Skip invalid session files
+        continue;
+      }
+    }
+
+    if (foundFile) {
+      this.sessionFiles.set(sessionId, foundFile);
+    } else {
+      this.sessionFiles.delete(sessionId);
+    }
+    return found;
+  }
+
+  /**
+   * Get messages for a specific session
+   */
+  getSessionMessages(sessionId: string): GeminiMessage[] {
+    return this.getConversation(sessionId)?.messages || [];
+  }
+
+  /**
+   * Get session timestamps for sync optimization
+   * Returns Map<sessionId, lastAccessedTimestamp>
+   */
+  getSessionTimestamps(limit?: number): Map<string, number> {
+    const sorted = this.getAllSessions().sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+    const limited = limit ? sorted.slice(0, limit) : sorted;
+
+    return new Map(limited.map(session => [session.sessionId, session.lastAccessedAt]));
+  }
+
+  /**
+   * Close the database connection (no-op for file-based storage)
+   */
+  close(): void {
+    // No cleanup needed for file-based storage
+  }
+}
@@ -5,15 +5,40 @@
  */
 
 export { CursorDB } from './cursor-db.js';
-export { MetadataDB } from './metadata-db.js';
+export {
+  MetadataDB,
+  type SessionContentRank,
+  type MessageHit,
+  type MessageContext,
+  type MessageExchange,
+  type ImportedSession,
+  type MetadataDBOptions,
+  type SchemaStatus,
+  type SchemaHistoryEntry,
+  type MigrationResult,
+  type TagChange,
+  type TagMoveResult,
+  type SessionListQuery
+} from './metadata-db.js';
+export { MIGRATIONS, LATEST_SCHEMA_VERSION, type Migration } from './migrations.js';
+export { parseDateFilter } from './date-filter.js';
+export {
+  parseSearchQuery,
+  type ParsedSearchQuery,
+  type SearchTerm,
+  type QueryFilters
+} from './query-parser.js';
 export { 
   parseBubble, 
   parseBubbles, 
   parseLexicalText,
+  parseLexicalRichText,
   filterMessagesByRole,
   getConversationOnly,
   estimateTokens,
-  type ParseOptions
+  applyParseOptions,
+  type ParseOptions,
+  type LexicalContent
 } from './message-parser.js';
 export { 
   extractWorkspacePath, 
@@ -34,15 +59,92 @@ export {
   formatSessionPreviewPlain,
   formatSessionList,
   formatMessage,
+  formatMessageDetails,
+  formatSearchResults,
+  formatBookmarksMarkdown,
+  formatCollectionQuery,
+  highlightMatches,
+  createSnippet,
   type FormatOptions
 } from './formatter.js';
-export { getCursorDBPath, getMetadataDBPath, cursorDBExists, getPlatformInfo } from './platform.js';
+export { getCursorDBPath, getMetadataDBPath, getWindsurfUserDataPath, getVSCodeUserDataPath, getAiderRoots, cursorDBExists, getPlatformInfo } from './platform.js';
+export {
+  SessionSourceRegistry,
+  parseSessionId,
+  type SessionSource,
+  type SourceSession,
+  type WatchTarget
+} from './session-source.js';
+export {
+  WindsurfDB,
+  type WindsurfConversation,
+  type WindsurfMessage,
+  type WindsurfToolCall
+} from './windsurf-db.js';
+export { getWindsurfWorkspaceInfo, type WindsurfWorkspaceInfo } from './windsurf-workspace-extractor.js';
+export {
+  CopilotChatDB,
+  type CopilotChatSession,
+  type CopilotRequest,
+  type CopilotResponsePart
+} from './copilot-chat-db.js';
+export {
+  AiderHistoryDB,
+  parseAiderHistory,
+  type AiderSession,
+  type AiderMessage
+} from './aider-history-db.js';
+export {
+  CodexDB,
+  type CodexRolloutItem,
+  type CodexSession
+} from './codex-db.js';
+export {
+  GeminiDB,
+  detectGeminiProjectPath,
+  type GeminiConversation,
+  type GeminiMessage,
+  type GeminiToolCall,
+  type GeminiSession
+} from './gemini-db.js';
+export {
+  parseConversationsExport,
+  detectExportProvider,
+  type ExportProvider,
+  type ExportedConversation
+} from './chat-export.js';
+export {
+  CursorSessionSource,
+  ClaudeCodeSessionSource,
+  WindsurfSessionSource,
+  CopilotSessionSource,
+  AiderSessionSource,
+  CodexSessionSource,
+  GeminiSessionSource,
+  ImportSessionSource
+} from './session-sources.js';
 export { 
   CursorContext,
   type ListSessionsOptions,
+  type SessionFilterOptions,
   type SearchSessionsOptions,
-  type GetSessionOptions
+  type GetSessionOptions,
+  type ProjectRule,
+  type ImportExportOptions,
+  type ImportExportResult,
+  type AddNoteOptions,
+  type CollectionResult,
+  type PruneSessionsOptions,
+  type PruneSessionsResult,
+  type SyncReport,
+  type SourceSyncReport,
+  type SyncFailure
 } from './api.js';
+export {
+  SessionWatcher,
+  type SessionWatcherOptions,
+  type SessionWatchEvent
+} from './watcher.js';
 
 // Export errors
 export { 
@@ -50,7 +152,10 @@ export {
   DBConnectionError,
   DBLockedError,
   SessionNotFoundError,
-  DataCorruptionError
+  SessionMissingError,
+  DataCorruptionError,
+  MigrationError,
+  QueryParseError
 } from './errors.js';
 
 // Export all types
@@ -22,6 +22,32 @@ interface LexicalRoot {
   root?: LexicalNode;
 }
 
+/**
+ * Markdown converted from Lexical richText
+ */
+export interface LexicalContent {
+  /** Message text as Markdown */
+  markdown: string;
+  /** Files @-mentioned in the text, in order of first mention */
+  mentionedFiles: string[];
+}
+
+/**
+ * Nodes rendered as blocks of their own (separated by blank lines)
+ */
+const BLOCK_TYPES = new Set(['root', 'paragraph', 'heading', 'quote', 'list', 'code', 'horizontalrule']);
+
+/**
+ * Text format bits of Lexical text nodes, with their Markdown markers
+ * (underline, subscript and superscript have no Markdown equivalent)
+ */
+const TEXT_FORMATS: Array<[bit: number, marker: string]> = [
+  [1, '**'],
+  [2, '_'],
+  [4, '~~']
+];
+const FORMAT_CODE = 16;
+
 /**
  * Parse a bubble into a unified message format
  */
@@ -30,11 +56,12 @@ export function parseBubble(bubble: BubbleData, options: ParseOptions = {}): Par
   
   // Extract content based on message type
   let content = '';
+  let mentionedFiles: string[] = [];
   
   if (bubble.type === 1) {
     // User message - parse richText
     if (bubble.richText) {
-      content = parseLexicalText(bubble.richText);
+      ({ markdown: content, mentionedFiles } = parseLexicalRichText(bubble.richText));
     } else if (bubble.text) {
       content = bubble.text;
     }
@@ -54,65 +81,240 @@ export function parseBubble(bubble: BubbleData, options: ParseOptions = {}): Par
     content: content.trim(),
     bubbleId: bubble.bubbleId,
     timestamp: bubble.createdAt,
-    toolData
+    toolData,
+    mentionedFiles: mentionedFiles.length > 0 ? mentionedFiles : undefined
   };
 }
 
 /**
- * Parse Lexical richText JSON to plain text
+ * Parse Lexical richText JSON to Markdown
  */
 export function parseLexicalText(richTextJson: string): string {
+  return parseLexicalRichText(richTextJson).markdown;
+}
+
+/**
+ * Convert Lexical richText JSON to Markdown, collecting the files it mentions
+ * Paragraphs, headings, quotes, lists and code blocks become Markdown blocks; links,
+ * inline code and bold/italic/strikethrough text are kept inline, and mentions are
+ * written as `@path`. Invalid JSON converts to empty content.
+ */
+export function parseLexicalRichText(richTextJson: string): LexicalContent {
+  let lexical: LexicalRoot;
   try {
-    const lexical: LexicalRoot = JSON.parse(richTextJson);
-    
-    if (!lexical.root) {
-      return '';
-    }
-    
-    return extractTextFromNode(lexical.root);
+    lexical = JSON.parse(richTextJson);
   } catch (error) {
     // Invalid JSON, return empty
-    return '';
+    return { markdown: '', mentionedFiles: [] };
   }
+
+  if (!lexical?.root) {
+    return { markdown: '', mentionedFiles: [] };
+  }
+
+  const mentionedFiles = new Set<string>();
+  const markdown = renderBlocks(lexical.root.children || [], mentionedFiles);
+  return { markdown, mentionedFiles: Array.from(mentionedFiles) };
 }
 
 /**
- * Extract text from a Lexical node (recursive)
+ * Render sibling nodes as Markdown blocks separated by blank lines
+ * Runs of inline nodes between blocks are rendered as a paragraph.
  */
-function extractTextFromNode(node: LexicalNode): string {
-  const parts: string[] = [];
-  
-  // Handle text nodes
-  if (node.text) {
-    parts.push(node.text);
+function renderBlocks(nodes: LexicalNode[], mentions: Set<string>): string {
+  const blocks: string[] = [];
+  let inline: LexicalNode[] = [];
+
+  const flush = () => {
+    blocks.push(renderInline(inline, mentions).trim());
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (isBlock(node)) {
+      flush();
+      blocks.push(renderBlock(node, mentions));
+    } else {
+      inline.push(node);
+    }
   }
-  
-  // Handle code blocks
-  if (node.type === 'code') {
-    const codeContent = node.children 
-      ? node.children.map(child => extractTextFromNode(child)).join('')
-      : '';
-    const language = node.language || '';
-    parts.push(`\n\`\`\`${language}\n${codeContent}\n\`\`\`\n`);
-  }
-  // Handle inline code
-  else if (node.type === 'code-highlight') {
-    parts.push(`\`${node.text || ''}\``);
-  }
-  // Recursively process children
-  else if (node.children && Array.isArray(node.children)) {
-    for (const child of node.children) {
-      const childText = extractTextFromNode(child);
-      parts.push(childText);
+  flush();
+
+  return blocks.filter(block => block.trim()).join('\n\n');
+}
+
+/**
+ * Whether a node renders as a block (known block types, and unknown containers of blocks)
+ */
+function isBlock(node: LexicalNode): boolean {
+  return BLOCK_TYPES.has(node.type) || (node.children || []).some(child => BLOCK_TYPES.has(child.type));
+}
+
+/**
+ * Render a block node
+ */
+function renderBlock(node: LexicalNode, mentions: Set<string>): string {
+  const children = node.children || [];
+
+  switch (node.type) {
+    case 'paragraph':
+      return renderInline(children, mentions).trim();
+    case 'heading': {
+      const level = /^h([1-6])$/.exec(String(node.tag))?.[1] || '1';
+      const text = renderInline(children, mentions).trim();
+      return text ? `${'#'.repeat(Number(level))} ${text}` : '';
+    }
+    case 'quote':
+      return renderInline(children, mentions).trim()
+        .split('\n')
+        .map(line => `> ${line}`.trimEnd())
+        .join('\n');
+    case 'list':
+      return renderList(node, mentions);
+    case 'code': {
+      const code = children.map(codeText).join('');
+      const fence = code.includes('```') ? '````' : '```';
+      return `${fence}${node.language || ''}\n${code}\n${fence}`;
     }
+    case 'horizontalrule':
+      return '---';
+    default:
+      return renderBlocks(children, mentions);
   }
-  
-  // Add line breaks for paragraph nodes
-  if (node.type === 'paragraph' && parts.length > 0) {
-    parts.push('\n');
+}
+
+/**
+ * Render a list, one line per item
+ * Lexical nests a list inside an item of its own; it is indented under the item before it.
+ */
+function renderList(list: LexicalNode, mentions: Set<string>): string {
+  const lines: string[] = [];
+  let number = typeof list.start === 'number' ? list.start : 1;
+  let indent = '  ';
+
+  for (const item of list.children || []) {
+    const children = item.children || [];
+    const nested = children.filter(child => child.type === 'list');
+    const text = renderInline(children.filter(child => child.type !== 'list'), mentions).trim();
+
+    if (text || nested.length === 0) {
+      let marker = '- ';
+      if (list.listType === 'number') {
+        marker = `${typeof item.value === 'number' ? item.value : number}. `;
+        number++;
+      } else if (list.listType === 'check') {
+        marker = item.checked ? '- [x] ' : '- [ ] ';
+      }
+
+      indent = ' '.repeat(marker.length);
+      const [first = '', ...rest] = text.split('\n');
+      lines.push(`${marker}${first}`.trimEnd(), ...rest.map(line => `${indent}${line}`.trimEnd()));
+    }
+
+    for (const sublist of nested) {
+      lines.push(...renderList(sublist, mentions).split('\n').map(line => `${indent}${line}`));
+    }
   }
-  
-  return parts.join('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Render inline nodes (text, mentions, links, line breaks) as one string
+ */
+function renderInline(nodes: LexicalNode[], mentions: Set<string>): string {
+  return nodes.map(node => renderInlineNode(node, mentions)).join('');
+}
+
+function renderInlineNode(node: LexicalNode, mentions: Set<string>): string {
+  switch (node.type) {
+    case 'linebreak':
+      return '\n';
+    case 'tab':
+      return '\t';
+    case 'mention':
+      return renderMention(node, mentions);
+    case 'code-highlight':
+      return inlineCode(node.text || '');
+    case 'link':
+    case 'autolink': {
+      const text = renderInline(node.children || [], mentions);
+      const url = typeof node.url === 'string' ? node.url : '';
+      if (!url || text === url) {
+        return text || url;
+      }
+      return `[${text}](${url})`;
+    }
+    case 'text':
+      return formatText(node.text || '', typeof node.format === 'number' ? node.format : 0);
+    default:
+      return node.children ? renderInline(node.children, mentions) : node.text || '';
+  }
+}
+
+/**
+ * Apply a text node's format bits as Markdown markers
+ * Markers go around the trimmed text, since `** bold**` is not bold in Markdown.
+ */
+function formatText(text: string, format: number): string {
+  if (!format || !text.trim()) {
+    return text;
+  }
+  if (format & FORMAT_CODE) {
+    return inlineCode(text);
+  }
+
+  const [, leading, core, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+  const markers = TEXT_FORMATS.filter(([bit]) => format & bit).map(([, marker]) => marker);
+  return `${leading}${markers.join('')}${core}${markers.reverse().join('')}${trailing}`;
+}
+
+/**
+ * Wrap text in backticks (more of them when the text contains one)
+ */
+function inlineCode(text: string): string {
+  const ticks = text.includes('`') ? '``' : '`';
+  const pad = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${ticks}${pad}${text}${pad}${ticks}`;
+}
+
+/**
+ * Raw text of a code block child (formatting is meaningless inside code)
+ */
+function codeText(node: LexicalNode): string {
+  if (node.type === 'linebreak') {
+    return '\n';
+  }
+  if (node.type === 'tab') {
+    return '\t';
+  }
+  return node.children ? node.children.map(codeText).join('') : node.text || '';
+}
+
+/**
+ * Render a mention as `@name`, recording it when it refers to a file
+ * Cursor keeps the displayed name in mentionName (or the node text) and, for files,
+ * the file's URI in the mention metadata. Mentions of things like `@web` or `@docs`
+ * have neither a URI nor a path-like name.
+ */
+function renderMention(node: LexicalNode, mentions: Set<string>): string {
+  const name = (typeof node.mentionName === 'string' ? node.mentionName : node.text || '').replace(/^@/, '');
+  const metadata = (node.metadata || {}) as { selection?: { uri?: MentionUri }; uri?: MentionUri };
+  const uri = metadata.selection?.uri || metadata.uri;
+  const filePath = uri?.fsPath || uri?.path;
+
+  if (filePath) {
+    mentions.add(filePath);
+  } else if (/[\\/]|\.\w+$/.test(name)) {
+    mentions.add(name);
+  }
+
+  return name ? `@${name}` : '';
+}
+
+interface MentionUri {
+  fsPath?: string;
+  path?: string;
 }
 
 /**
@@ -180,9 +382,23 @@ export interface ParseOptions {
 export function parseBubbles(bubbles: BubbleData[], options: ParseOptions = {}): ParsedMessage[] {
   const messages = bubbles.map(bubble => parseBubble(bubble, options));
   
+  return applyParseOptions(messages, options);
+}
+
+/**
+ * Apply parse options to already-parsed messages (for sources that don't use bubbles)
+ */
+export function applyParseOptions(messages: ParsedMessage[], options: ParseOptions = {}): ParsedMessage[] {
+  let result = messages;
+  
+  // Drop tool data if excluded
+  if (options.excludeTools) {
+    result = result.map(msg => msg.toolData ? { ...msg, toolData: undefined } : msg);
+  }
+  
   // Apply max content length if specified
   if (options.maxContentLength) {
-    return messages.map(msg => ({
+    result = result.map(msg => ({
       ...msg,
       content: msg.content.length > options.maxContentLength!
         ? msg.content.substring(0, options.maxContentLength!) + '...'
@@ -190,7 +406,7 @@ export function parseBubbles(bubbles: BubbleData[], options: ParseOptions = {}):
     }));
   }
   
-  return messages;
+  return result;
 }
 
 /**
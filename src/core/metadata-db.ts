@@ -7,22 +7,283 @@
 import Database from 'better-sqlite3';
 import fs from 'fs';
 import path from 'path';
-import type { SessionMetadata, ProjectInfo } from './types.js';
+import type { SessionMetadata, SessionNote, MessageBookmark, SessionLink, SessionLinkType, SavedCollection, CollectionQuery, ProjectInfo, ParsedMessage } from './types.js';
+import { MIGRATIONS, LATEST_SCHEMA_VERSION } from './migrations.js';
+import { MigrationError } from './errors.js';
+import type { SearchTerm } from './query-parser.js';
 
-const SCHEMA_VERSION = 2;
+/**
+ * Options for opening the metadata database
+ */
+export interface MetadataDBOptions {
+  /** Apply pending migrations when the database is first used (default: true) */
+  autoMigrate?: boolean;
+}
+
+/**
+ * Applied migration recorded in schema_version
+ */
+export interface SchemaHistoryEntry {
+  version: number;
+  description: string;
+  /** When it was applied (unset for versions applied before history was kept) */
+  applied_at?: number;
+}
+
+/**
+ * Schema version of a database compared with what this release expects
+ */
+export interface SchemaStatus {
+  dbPath: string;
+  currentVersion: number;
+  latestVersion: number;
+  history: SchemaHistoryEntry[];
+  pending: Array<{ version: number; description: string }>;
+}
+
+/**
+ * Outcome of running migrations
+ */
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: Array<{ version: number; description: string }>;
+  /** Copy of the database taken before migrating */
+  backupPath?: string;
+  dryRun: boolean;
+}
+
+/**
+ * Question/answer exchange around an indexed message
+ */
+export interface MessageExchange {
+  /** User message that started the exchange */
+  question?: ParsedMessage;
+  /** Messages after the question, up to the next user message */
+  answer: ParsedMessage[];
+}
+
+/**
+ * Filters and sort order for listSessions
+ */
+export interface SessionListQuery {
+  /** Exact project path */
+  project?: string;
+  /** Project name, ignoring case */
+  project_name?: string;
+  /** Source name ('all' or unset for every source) */
+  source?: string;
+  /** Tag, including its child tags */
+  tag?: string;
+  /** Only sessions with a nickname */
+  tagged_only?: boolean;
+  /** Only sessions with at least one tag */
+  has_tags?: boolean;
+  /** Created at or after (ms) */
+  since?: number;
+  /** Created at or before (ms) */
+  until?: number;
+  min_messages?: number;
+  max_messages?: number;
+  /** Case-insensitive part of the model name */
+  model?: string;
+  git_branch?: string;
+  /** Sort order (default: newest); recently_active sorts on last_accessed */
+  sort_by?: 'newest' | 'oldest' | 'most_messages' | 'recently_active';
+  limit?: number;
+  include_missing?: boolean;
+}
+
+/**
+ * Tag renamed (or merged into an existing tag) by renameTag / mergeTags
+ */
+export interface TagChange {
+  from: string;
+  to: string;
+}
+
+/**
+ * Outcome of renaming or merging a tag
+ */
+export interface TagMoveResult {
+  /** The tag and each of its child tags, with their new names */
+  changes: TagChange[];
+  /** Number of sessions carrying any of the changed tags */
+  sessions: number;
+}
+
+/**
+ * Imported conversation (session ID is the raw ID, without the 'import:' prefix)
+ */
+export interface ImportedSession {
+  session_id: string;
+  /** Export format the conversation came from (chatgpt, claude) */
+  provider: string;
+  title?: string;
+  project_path?: string;
+  created_at?: number;
+  updated_at?: number;
+  /** When the conversation was last added or changed by an import */
+  imported_at: number;
+}
+
+/**
+ * Session ranked by full-text relevance
+ */
+export interface SessionContentRank {
+  session_id: string;
+  /** Summed BM25 score of all matching messages (lower is more relevant) */
+  score: number;
+  /** Number of matching messages and notes in the session */
+  hits: number;
+}
+
+/**
+ * Single indexed message matching a full-text query
+ */
+export interface MessageHit {
+  session_id: string;
+  message_index: number;
+  /** BM25 score of the message (lower is more relevant) */
+  score: number;
+}
+
+/**
+ * Indexed message together with the messages surrounding it
+ */
+export interface MessageContext {
+  message: ParsedMessage;
+  before: ParsedMessage[];
+  after: ParsedMessage[];
+}
+
+/**
+ * Characters the FTS5 tokenizer indexes; terms without any would match nothing
+ */
+const FTS_TOKEN_CHAR = /[\p{L}\p{N}\p{Co}]/u;
+
+/**
+ * Quote free-form user input (or parsed search terms) as FTS5 strings, so punctuation
+ * is matched literally; terms made only of punctuation (`&`, `--`) are left out
+ */
+function toFtsTerms(query: string | SearchTerm[]): { required: string[]; excluded: string[] } {
+  const terms: SearchTerm[] = typeof query === 'string'
+    ? query.split(/\s+/).map(text => ({ text, phrase: false, negated: false }))
+    : query;
+
+  const quote = (term: SearchTerm) => `"${term.text.replace(/"/g, '""')}"`;
+  const searchable = terms.filter(term => FTS_TOKEN_CHAR.test(term.text));
+  return {
+    required: searchable.filter(term => !term.negated).map(quote),
+    excluded: searchable.filter(term => term.negated).map(quote)
+  };
+}
+
+/**
+ * Convert free-form user input (or parsed search terms) into a safe FTS5 query for
+ * single messages
+ * Messages match when they contain any of the terms, since a session's terms may be
+ * spread over several messages; negated terms are excluded with NOT. Without a term
+ * that must match the query is empty.
+ */
+export function toFtsQuery(query: string | SearchTerm[]): string {
+  const { required, excluded } = toFtsTerms(query);
+
+  if (required.length === 0) {
+    return '';
+  }
+  return excluded.length > 0
+    ? `(${required.join(' OR ')}) NOT (${excluded.join(' OR ')})`
+    : required.join(' OR ');
+}
+
+/**
+ * session_metadata columns plus the session's tags as a JSON array, in the order they were added
+ */
+const SESSION_SELECT = `
+  SELECT m.*, (
+    SELECT json_group_array(name) FROM (
+      SELECT t.name FROM session_tags st JOIN tags t ON t.id = st.tag_id
+      WHERE st.session_id = m.session_id
+      ORDER BY st.rowid
+    )
+  ) AS tag_list
+  FROM session_metadata m`;
+
+/**
+ * Matches the tag named @tag and its children (`area` matches `area` and `area/auth`)
+ */
+const TAG_SUBTREE_MATCH = `(t.name = @tag OR substr(t.name, 1, length(@tag) + 1) = @tag || '/')`;
+
+/**
+ * ORDER BY clause for each session sort order (sessions without the sorted value last)
+ */
+const SESSION_ORDER: Record<NonNullable<SessionListQuery['sort_by']>, string> = {
+  newest: 'created_at IS NULL, created_at DESC',
+  oldest: 'created_at IS NULL, created_at ASC',
+  most_messages: 'COALESCE(message_count, 0) DESC, created_at DESC',
+  recently_active: 'COALESCE(last_accessed, created_at) IS NULL, COALESCE(last_accessed, created_at) DESC'
+};
+
+/**
+ * Normalize a tag name: trim it and each `/`-separated level, dropping empty levels
+ * @throws Error if nothing is left
+ */
+function normalizeTag(tag: string): string {
+  const name = tag
+    .split('/')
+    .map(part => part.trim())
+    .filter(part => part.length > 0)
+    .join('/');
+
+  if (!name) {
+    throw new Error(`Invalid tag '${tag}'`);
+  }
+  return name;
+}
 
 export class MetadataDB {
   private dbPath: string;
   private db: Database.Database | null = null;
+  private readonly autoMigrate: boolean;
+  private migrated = false;
   
-  constructor(dbPath: string) {
+  constructor(dbPath: string, options: MetadataDBOptions = {}) {
     this.dbPath = dbPath;
+    this.autoMigrate = options.autoMigrate ?? true;
   }
   
   /**
    * Connect to database (lazy initialization)
+   * @throws MigrationError if the schema is outdated and autoMigrate is off, or newer than this release
    */
   private connect(): Database.Database {
+    const db = this.open();
+
+    if (!this.migrated) {
+      const currentVersion = this.getCurrentVersion();
+
+      if (currentVersion > LATEST_SCHEMA_VERSION) {
+        throw new MigrationError(`Metadata DB schema version ${currentVersion} is newer than this release supports (${LATEST_SCHEMA_VERSION}). Please upgrade cursor-context.`);
+      }
+
+      if (currentVersion < LATEST_SCHEMA_VERSION) {
+        if (!this.autoMigrate) {
+          throw new MigrationError(`Metadata DB schema is at version ${currentVersion} but version ${LATEST_SCHEMA_VERSION} is required. Run 'cursor-context db migrate' to upgrade.`);
+        }
+        this.migrate();
+      }
+
+      this.migrated = true;
+    }
+
+    return db;
+  }
+
+  /**
+   * Open the database file without checking its schema
+   */
+  private open(): Database.Database {
     if (this.db) {
       return this.db;
     }
@@ -33,92 +294,146 @@ export class MetadataDB {
       fs.mkdirSync(dir, { recursive: true });
     }
     
-    // Open database
     this.db = new Database(this.dbPath);
-    
-    // Initialize schema
-    this.initialize();
-    
     return this.db;
   }
-  
+
   /**
-   * Initialize database and create tables
+   * Highest applied schema version (0 for a new database)
    */
-  private initialize(): void {
-    if (!this.db) {
-      return;
+  private getCurrentVersion(): number {
+    const db = this.open();
+
+    const table = db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'`).get();
+    if (!table) {
+      return 0;
     }
-    
-    // Create schema version table
-    this.db.exec(`
+
+    const row = db.prepare('SELECT MAX(version) AS version FROM schema_version').get() as { version: number | null };
+    return row.version || 0;
+  }
+
+  /**
+   * Create the schema_version history table, upgrading the single-row table older releases used
+   */
+  private ensureHistoryTable(): void {
+    const db = this.open();
+
+    db.exec(`
       CREATE TABLE IF NOT EXISTS schema_version (
-        version INTEGER PRIMARY KEY
+        version INTEGER PRIMARY KEY,
+        description TEXT,
+        applied_at INTEGER
       );
     `);
-    
-    // Check current version
-    const versionRow = this.db.prepare('SELECT version FROM schema_version LIMIT 1').get() as { version: number } | undefined;
-    const currentVersion = versionRow?.version || 0;
-    
-    if (currentVersion === 0) {
-      // First time setup - create schema v2 (multi-source from the start)
-      this.db.exec(`
-        CREATE TABLE IF NOT EXISTS session_metadata (
-          session_id TEXT PRIMARY KEY,
-          source TEXT NOT NULL,
-          nickname TEXT UNIQUE,
-          tags TEXT,
-          project_path TEXT,
-          project_name TEXT,
-          has_project INTEGER DEFAULT 0,
-          created_at INTEGER,
-          last_accessed INTEGER,
-          last_synced_at INTEGER,
-          first_message_preview TEXT,
-          message_count INTEGER DEFAULT 0
-        );
 
-        CREATE INDEX IF NOT EXISTS idx_source ON session_metadata(source);
-        CREATE INDEX IF NOT EXISTS idx_nickname ON session_metadata(nickname);
-        CREATE INDEX IF NOT EXISTS idx_project_path ON session_metadata(project_path);
-        CREATE INDEX IF NOT EXISTS idx_project_name ON session_metadata(project_name);
-        CREATE INDEX IF NOT EXISTS idx_has_project ON session_metadata(has_project);
-        CREATE INDEX IF NOT EXISTS idx_created_at ON session_metadata(created_at DESC);
-        CREATE INDEX IF NOT EXISTS idx_last_synced_at ON session_metadata(last_synced_at DESC);
+    const columns = db.pragma('table_info(schema_version)') as Array<{ name: string }>;
+    if (columns.some(col => col.name === 'applied_at')) {
+      return;
+    }
 
-        INSERT OR REPLACE INTO schema_version (version) VALUES (${SCHEMA_VERSION});
+    // Older releases kept only the current version; record the versions it implies
+    const currentVersion = this.getCurrentVersion();
+
+    db.transaction(() => {
+      db.exec(`
+        ALTER TABLE schema_version ADD COLUMN description TEXT;
+        ALTER TABLE schema_version ADD COLUMN applied_at INTEGER;
       `);
+      const backfill = db.prepare('INSERT OR IGNORE INTO schema_version (version, description) VALUES (?, ?)');
+      const describe = db.prepare('UPDATE schema_version SET description = ? WHERE version = ?');
+      for (const migration of MIGRATIONS.filter(m => m.version <= currentVersion)) {
+        backfill.run(migration.version, migration.description);
+        describe.run(migration.description, migration.version);
+      }
+    })();
+  }
+
+  /**
+   * Get the schema version, migration history and pending migrations
+   */
+  getSchemaStatus(): SchemaStatus {
+    const db = this.open();
+    const currentVersion = this.getCurrentVersion();
+
+    let history: SchemaHistoryEntry[] = [];
+    if (currentVersion > 0) {
+      const columns = db.pragma('table_info(schema_version)') as Array<{ name: string }>;
+      const known = new Map(MIGRATIONS.map(m => [m.version, m.description]));
+
+      // Older releases kept only the current version; the earlier ones are implied
+      const rows = columns.some(col => col.name === 'applied_at')
+        ? db.prepare('SELECT * FROM schema_version ORDER BY version').all() as any[]
+        : MIGRATIONS.filter(m => m.version <= currentVersion).map(m => ({ version: m.version }));
+
+      history = rows.map(row => ({
+        version: row.version,
+        description: row.description || known.get(row.version) || '',
+        applied_at: row.applied_at || undefined
+      }));
     }
 
-    // Migration from version 1 to version 2
-    // Note: This migration exists for development only. Production launches with v2.
-    // V1 never had multi-source support, so all v1 sessions are from Cursor.
-    if (currentVersion === 1) {
-      const columns = this.db.pragma('table_info(session_metadata)') as Array<{ name: string }>;
+    return {
+      dbPath: this.dbPath,
+      currentVersion,
+      latestVersion: LATEST_SCHEMA_VERSION,
+      history,
+      pending: MIGRATIONS
+        .filter(m => m.version > currentVersion)
+        .map(m => ({ version: m.version, description: m.description }))
+    };
+  }
 
-      // Add last_synced_at if missing
-      const hasLastSyncedAt = columns.some(col => col.name === 'last_synced_at');
-      if (!hasLastSyncedAt) {
-        this.db.exec(`
-          ALTER TABLE session_metadata ADD COLUMN last_synced_at INTEGER;
-          CREATE INDEX IF NOT EXISTS idx_last_synced_at ON session_metadata(last_synced_at DESC);
-        `);
-      }
+  /**
+   * Apply pending migrations, each in its own transaction
+   * An existing database is copied to `<dbPath>.v<version>-<timestamp>.bak` first.
+   *
+   * @param options.dryRun - Report what would be applied without changing anything
+   * @throws MigrationError if a migration fails (the database stays at the last good version)
+   */
+  migrate(options: { dryRun?: boolean } = {}): MigrationResult {
+    const db = this.open();
+    const fromVersion = this.getCurrentVersion();
+    const pending = MIGRATIONS.filter(m => m.version > fromVersion);
+
+    const result: MigrationResult = {
+      fromVersion,
+      toVersion: fromVersion,
+      applied: [],
+      dryRun: !!options.dryRun
+    };
+
+    if (options.dryRun) {
+      result.toVersion = pending.length > 0 ? LATEST_SCHEMA_VERSION : fromVersion;
+      result.applied = pending.map(m => ({ version: m.version, description: m.description }));
+      return result;
+    }
+
+    if (pending.length > 0 && fromVersion > 0) {
+      result.backupPath = `${this.dbPath}.v${fromVersion}-${Date.now()}.bak`;
+      db.prepare('VACUUM INTO ?').run(result.backupPath);
+    }
+
+    this.ensureHistoryTable();
+    const record = db.prepare('INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)');
 
-      // Add source column (v1 only had Cursor support, so all existing sessions are cursor)
-      const hasSource = columns.some(col => col.name === 'source');
-      if (!hasSource) {
-        this.db.exec(`
-          ALTER TABLE session_metadata ADD COLUMN source TEXT NOT NULL DEFAULT 'cursor';
-          CREATE INDEX IF NOT EXISTS idx_source ON session_metadata(source);
-          UPDATE session_metadata SET source = 'cursor' WHERE source IS NULL;
-        `);
+    for (const migration of pending) {
+      try {
+        db.transaction(() => {
+          migration.up(db);
+          record.run(migration.version, migration.description, Date.now());
+        })();
+      } catch (error: any) {
+        const backup = result.backupPath ? ` A backup was saved to ${result.backupPath}.` : '';
+        throw new MigrationError(`Migration ${migration.version} (${migration.description}) failed: ${error.message}. The database was left at version ${result.toVersion}.${backup}`);
       }
 
-      // Update schema version
-      this.db.exec(`UPDATE schema_version SET version = ${SCHEMA_VERSION}`);
+      result.toVersion = migration.version;
+      result.applied.push({ version: migration.version, description: migration.description });
     }
+
+    this.migrated = true;
+    return result;
   }
   
   /**
@@ -129,20 +444,24 @@ export class MetadataDB {
 
     const stmt = db.prepare(`
       INSERT INTO session_metadata (
-        session_id, source, nickname, tags, project_path, project_name, has_project,
-        created_at, last_accessed, last_synced_at, first_message_preview, message_count
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        session_id, source, nickname, project_path, project_name, has_project,
+        created_at, last_accessed, last_synced_at, first_message_preview, message_count, missing_since,
+        model, git_branch, summary_title
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(session_id) DO UPDATE SET
         source = excluded.source,
         nickname = excluded.nickname,
-        tags = excluded.tags,
         project_path = excluded.project_path,
         project_name = excluded.project_name,
         has_project = excluded.has_project,
         last_accessed = excluded.last_accessed,
         last_synced_at = excluded.last_synced_at,
         first_message_preview = excluded.first_message_preview,
-        message_count = excluded.message_count
+        message_count = excluded.message_count,
+        missing_since = excluded.missing_since,
+        model = excluded.model,
+        git_branch = excluded.git_branch,
+        summary_title = excluded.summary_title
     `);
 
     // Validate that source is provided
@@ -150,11 +469,10 @@ export class MetadataDB {
       throw new Error(`Source is required for session ${metadata.session_id}`);
     }
 
-    stmt.run(
+    const upsert = () => stmt.run(
       metadata.session_id,
       metadata.source,
       metadata.nickname || null,
-      metadata.tags ? JSON.stringify(metadata.tags) : null,
       metadata.project_path || null,
       metadata.project_name || null,
       metadata.has_project ? 1 : 0,
@@ -162,8 +480,27 @@ export class MetadataDB {
       metadata.last_accessed || Date.now(),
       metadata.last_synced_at || Date.now(),
       metadata.first_message_preview || null,
-      metadata.message_count || 0
+      metadata.message_count || 0,
+      metadata.missing_since || null,
+      metadata.model || null,
+      metadata.git_branch || null,
+      metadata.summary_title || null
     );
+
+    // Tags are only replaced when given; sync leaves them alone
+    if (metadata.tags === undefined) {
+      upsert();
+      return;
+    }
+
+    db.transaction(() => {
+      upsert();
+      db.prepare('DELETE FROM session_tags WHERE session_id = ?').run(metadata.session_id);
+      for (const tag of metadata.tags!) {
+        this.linkTag(metadata.session_id, normalizeTag(tag));
+      }
+      this.deleteUnusedTags();
+    })();
   }
   
   /**
@@ -172,7 +509,7 @@ export class MetadataDB {
   getSessionMetadata(sessionId: string): SessionMetadata | null {
     const db = this.connect();
     
-    const row = db.prepare('SELECT * FROM session_metadata WHERE session_id = ?')
+    const row = db.prepare(`${SESSION_SELECT} WHERE session_id = ?`)
       .get(sessionId) as any;
     
     if (!row) {
@@ -188,9 +525,9 @@ export class MetadataDB {
   private rowToMetadata(row: any): SessionMetadata {
     return {
       session_id: row.session_id,
-      source: row.source as 'cursor' | 'claude' | undefined,
+      source: row.source || undefined,
       nickname: row.nickname || undefined,
-      tags: row.tags ? JSON.parse(row.tags) : undefined,
+      tags: row.tag_list && row.tag_list !== '[]' ? JSON.parse(row.tag_list) : undefined,
       project_path: row.project_path || undefined,
       project_name: row.project_name || undefined,
       has_project: Boolean(row.has_project),
@@ -198,7 +535,11 @@ export class MetadataDB {
       last_accessed: row.last_accessed || undefined,
       last_synced_at: row.last_synced_at || undefined,
       first_message_preview: row.first_message_preview || undefined,
-      message_count: row.message_count || undefined
+      message_count: row.message_count || undefined,
+      missing_since: row.missing_since || undefined,
+      model: row.model || undefined,
+      git_branch: row.git_branch || undefined,
+      summary_title: row.summary_title || undefined
     };
   }
   
@@ -233,7 +574,7 @@ export class MetadataDB {
   getSessionByNickname(nickname: string): SessionMetadata | null {
     const db = this.connect();
 
-    const row = db.prepare('SELECT * FROM session_metadata WHERE nickname = ?')
+    const row = db.prepare(`${SESSION_SELECT} WHERE nickname = ?`)
       .get(nickname) as any;
 
     if (!row) {
@@ -250,7 +591,7 @@ export class MetadataDB {
     const db = this.connect();
 
     // Match session IDs that start with the prefix
-    const rows = db.prepare('SELECT * FROM session_metadata WHERE session_id LIKE ?')
+    const rows = db.prepare(`${SESSION_SELECT} WHERE session_id LIKE ?`)
       .all(`${prefix}%`) as any[];
 
     if (rows.length === 0) {
@@ -279,89 +620,168 @@ export class MetadataDB {
   
   /**
    * Add tag to session
+   * Tags can be hierarchical (`area/auth`); see findByTag.
    */
   addTag(sessionId: string, tag: string): void {
-    this.connect(); // Ensure DB is initialized
-    
-    const metadata = this.getSessionMetadata(sessionId);
-    
-    if (!metadata) {
-      // Create metadata with tag
+    const db = this.connect();
+    const name = normalizeTag(tag);
+
+    if (!this.getSessionMetadata(sessionId)) {
       this.upsertSessionMetadata({
         session_id: sessionId,
-        tags: [tag],
         has_project: false
       });
-      return;
-    }
-    
-    const tags = metadata.tags || [];
-    if (!tags.includes(tag)) {
-      tags.push(tag);
-      metadata.tags = tags;
-      this.upsertSessionMetadata(metadata);
     }
+
+    db.transaction(() => this.linkTag(sessionId, name))();
   }
-  
+
   /**
    * Remove tag from session
    */
   removeTag(sessionId: string, tag: string): void {
-    const metadata = this.getSessionMetadata(sessionId);
-    
-    if (!metadata || !metadata.tags) {
-      return;
-    }
-    
-    metadata.tags = metadata.tags.filter(t => t !== tag);
-    this.upsertSessionMetadata(metadata);
+    const db = this.connect();
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM session_tags WHERE session_id = ? AND tag_id = (SELECT id FROM tags WHERE name = ?)')
+        .run(sessionId, normalizeTag(tag));
+      this.deleteUnusedTags();
+    })();
   }
-  
+
   /**
-   * Find sessions by tag
+   * Find sessions by tag, including sessions tagged with one of its children
+   * (`area` finds sessions tagged `area`, `area/auth` or `area/auth/oauth`)
    */
-  findByTag(tag: string): SessionMetadata[] {
+  findByTag(tag: string, includeMissing = false): SessionMetadata[] {
     const db = this.connect();
-    
-    const rows = db.prepare('SELECT * FROM session_metadata WHERE tags IS NOT NULL')
-      .all() as any[];
-    
-    return rows
-      .map(row => this.rowToMetadata(row))
-      .filter(metadata => metadata.tags?.includes(tag));
+
+    const rows = db.prepare(`
+      ${SESSION_SELECT}
+      WHERE session_id IN (
+        SELECT st.session_id FROM session_tags st JOIN tags t ON t.id = st.tag_id
+        WHERE ${TAG_SUBTREE_MATCH}
+      )${includeMissing ? '' : ' AND missing_since IS NULL'}
+      ORDER BY created_at DESC
+    `).all({ tag: normalizeTag(tag) }) as any[];
+
+    return rows.map(row => this.rowToMetadata(row));
   }
-  
+
   /**
    * List all tags with counts
    */
   listAllTags(): { tag: string; count: number }[] {
     const db = this.connect();
-    
-    const rows = db.prepare('SELECT tags FROM session_metadata WHERE tags IS NOT NULL')
-      .all() as { tags: string }[];
-    
-    const tagCounts = new Map<string, number>();
-    
-    for (const row of rows) {
-      const tags = JSON.parse(row.tags) as string[];
-      for (const tag of tags) {
-        tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1);
+
+    return db.prepare(`
+      SELECT t.name AS tag, COUNT(*) AS count
+      FROM tags t JOIN session_tags st ON st.tag_id = t.id
+      GROUP BY t.id
+      ORDER BY count DESC, t.name
+    `).all() as { tag: string; count: number }[];
+  }
+
+  /**
+   * Rename a tag on every session, together with its children
+   * (renaming `auth` to `area/auth` also turns `auth/oauth` into `area/auth/oauth`)
+   *
+   * @throws Error if the tag does not exist or a new name is already taken (use mergeTags)
+   */
+  renameTag(from: string, to: string): TagMoveResult {
+    return this.moveTag(from, to, false);
+  }
+
+  /**
+   * Merge a tag (and its children) into another tag, which may already exist
+   * Sessions carrying both end up with the target tag once.
+   *
+   * @throws Error if the source tag does not exist
+   */
+  mergeTags(from: string, into: string): TagMoveResult {
+    return this.moveTag(from, into, true);
+  }
+
+  private moveTag(from: string, to: string, merge: boolean): TagMoveResult {
+    const db = this.connect();
+    const source = normalizeTag(from);
+    const target = normalizeTag(to);
+
+    if (source === target || target.startsWith(`${source}/`)) {
+      throw new Error(`Cannot move tag '${source}' to '${target}'`);
+    }
+
+    // Parents first, so a child can take the name its parent just gave up
+    const subtree = db.prepare(`SELECT id, name FROM tags t WHERE ${TAG_SUBTREE_MATCH} ORDER BY length(name)`)
+      .all({ tag: source }) as Array<{ id: number; name: string }>;
+    if (subtree.length === 0) {
+      throw new Error(`Tag '${source}' not found`);
+    }
+
+    const moving = new Set(subtree.map(t => t.name));
+    const changes = subtree.map(t => ({ id: t.id, from: t.name, to: target + t.name.substring(source.length) }));
+    const findTag = db.prepare('SELECT id FROM tags WHERE name = ?');
+
+    if (!merge) {
+      const taken = changes.find(change => !moving.has(change.to) && findTag.get(change.to));
+      if (taken) {
+        throw new Error(`Tag '${taken.to}' already exists. Merge the tags instead to combine them.`);
       }
     }
-    
-    return Array.from(tagCounts.entries())
-      .map(([tag, count]) => ({ tag, count }))
-      .sort((a, b) => b.count - a.count);
+
+    const { sessions } = db.prepare('SELECT COUNT(DISTINCT session_id) AS sessions FROM session_tags WHERE tag_id IN (SELECT value FROM json_each(?))')
+      .get(JSON.stringify(changes.map(change => change.id))) as { sessions: number };
+
+    db.transaction(() => {
+      for (const change of changes) {
+        const existing = findTag.get(change.to) as { id: number } | undefined;
+
+        if (existing) {
+          db.prepare('INSERT OR IGNORE INTO session_tags (session_id, tag_id) SELECT session_id, ? FROM session_tags WHERE tag_id = ? ORDER BY rowid')
+            .run(existing.id, change.id);
+          db.prepare('DELETE FROM session_tags WHERE tag_id = ?').run(change.id);
+          db.prepare('DELETE FROM tags WHERE id = ?').run(change.id);
+        } else {
+          db.prepare('UPDATE tags SET name = ? WHERE id = ?').run(change.to, change.id);
+        }
+      }
+    })();
+
+    return {
+      changes: changes.map(({ from, to }) => ({ from, to })),
+      sessions
+    };
   }
-  
+
+  /**
+   * Attach an (already normalized) tag to a session, creating the tag if needed
+   */
+  private linkTag(sessionId: string, name: string): void {
+    const db = this.connect();
+    db.prepare('INSERT OR IGNORE INTO tags (name) VALUES (?)').run(name);
+    db.prepare('INSERT OR IGNORE INTO session_tags (session_id, tag_id) SELECT ?, id FROM tags WHERE name = ?')
+      .run(sessionId, name);
+  }
+
+  /**
+   * Drop tags no session uses any more
+   */
+  private deleteUnusedTags(): void {
+    const db = this.connect();
+    db.prepare('DELETE FROM tags WHERE id NOT IN (SELECT tag_id FROM session_tags)').run();
+  }
+
   /**
    * List sessions by project
    */
-  listSessionsByProject(projectPath: string): SessionMetadata[] {
+  listSessionsByProject(projectPath: string, includeMissing = false): SessionMetadata[] {
     const db = this.connect();
     
-    const rows = db.prepare('SELECT * FROM session_metadata WHERE project_path = ? ORDER BY created_at DESC')
-      .all(projectPath) as any[];
+    const rows = db.prepare(`
+      ${SESSION_SELECT}
+      WHERE project_path = ?${includeMissing ? '' : ' AND missing_since IS NULL'}
+      ORDER BY created_at DESC
+    `).all(projectPath) as any[];
     
     return rows.map(row => this.rowToMetadata(row));
   }
@@ -388,81 +808,833 @@ export class MetadataDB {
   }
   
   /**
-   * List all sessions with optional filters
+   * List all sessions with optional filters (every given filter must match)
    */
-  listSessions(options: {
-    project?: string;
-    tagged_only?: boolean;
-    limit?: number;
-  } = {}): SessionMetadata[] {
+  listSessions(options: SessionListQuery = {}): SessionMetadata[] {
     const db = this.connect();
-    
-    let query = 'SELECT * FROM session_metadata WHERE 1=1';
-    const params: any[] = [];
-    
+
+    let query = `${SESSION_SELECT} WHERE 1=1`;
+    const params: Record<string, unknown> = {};
+
+    if (!options.include_missing) {
+      query += ' AND missing_since IS NULL';
+    }
+
     if (options.project) {
-      query += ' AND project_path = ?';
-      params.push(options.project);
+      query += ' AND project_path = @project';
+      params.project = options.project;
     }
-    
+
+    if (options.project_name) {
+      query += ' AND lower(project_name) = lower(@projectName)';
+      params.projectName = options.project_name;
+    }
+
+    if (options.source && options.source !== 'all') {
+      query += ' AND source = @source';
+      params.source = options.source;
+    }
+
+    if (options.tag) {
+      query += `
+        AND session_id IN (
+          SELECT st.session_id FROM session_tags st JOIN tags t ON t.id = st.tag_id
+          WHERE ${TAG_SUBTREE_MATCH}
+        )`;
+      params.tag = normalizeTag(options.tag);
+    }
+
     if (options.tagged_only) {
       query += ' AND nickname IS NOT NULL';
     }
-    
-    query += ' ORDER BY created_at DESC';
-    
+
+    if (options.has_tags) {
+      query += ' AND EXISTS (SELECT 1 FROM session_tags st WHERE st.session_id = m.session_id)';
+    }
+
+    if (options.since !== undefined) {
+      query += ' AND created_at >= @since';
+      params.since = options.since;
+    }
+
+    if (options.until !== undefined) {
+      query += ' AND created_at <= @until';
+      params.until = options.until;
+    }
+
+    if (options.min_messages !== undefined) {
+      query += ' AND message_count >= @minMessages';
+      params.minMessages = options.min_messages;
+    }
+
+    if (options.max_messages !== undefined) {
+      query += ' AND message_count <= @maxMessages';
+      params.maxMessages = options.max_messages;
+    }
+
+    if (options.model) {
+      query += ' AND instr(lower(model), lower(@model)) > 0';
+      params.model = options.model;
+    }
+
+    if (options.git_branch) {
+      query += ' AND git_branch = @gitBranch';
+      params.gitBranch = options.git_branch;
+    }
+
+    query += ` ORDER BY ${SESSION_ORDER[options.sort_by || 'newest']}`;
+
     if (options.limit) {
-      query += ' LIMIT ?';
-      params.push(options.limit);
+      query += ' LIMIT @limit';
+      params.limit = options.limit;
     }
-    
-    const rows = db.prepare(query).all(...params) as any[];
-    
+
+    const rows = db.prepare(query).all(params) as any[];
+
     return rows.map(row => this.rowToMetadata(row));
   }
   
   /**
-   * Delete session metadata
+   * Delete session metadata with its messages, tags, notes, bookmarks and links
    */
   deleteSessionMetadata(sessionId: string): void {
     const db = this.connect();
-    db.prepare('DELETE FROM session_metadata WHERE session_id = ?').run(sessionId);
+    db.transaction(() => {
+      db.prepare('DELETE FROM session_metadata WHERE session_id = ?').run(sessionId);
+      db.prepare('DELETE FROM session_messages WHERE session_id = ?').run(sessionId);
+      db.prepare('DELETE FROM session_tags WHERE session_id = ?').run(sessionId);
+      db.prepare('DELETE FROM session_notes WHERE session_id = ?').run(sessionId);
+      db.prepare('DELETE FROM message_bookmarks WHERE session_id = ?').run(sessionId);
+      db.prepare('DELETE FROM session_links WHERE from_session_id = ? OR to_session_id = ?').run(sessionId, sessionId);
+      this.deleteUnusedTags();
+    })();
   }
-  
+
   /**
-   * Get database statistics
+   * List the IDs of a source's stored sessions, missing ones included
    */
-  getStats(): {
-    total_sessions: number;
-    sessions_with_nicknames: number;
-    sessions_with_tags: number;
-    sessions_with_projects: number;
-    total_projects: number;
-    total_tags: number;
-  } {
+  listSessionIds(source: string): string[] {
     const db = this.connect();
-    
-    const stats = db.prepare(`
+    const rows = db.prepare('SELECT session_id FROM session_metadata WHERE source = ?').all(source) as { session_id: string }[];
+    return rows.map(row => row.session_id);
+  }
+
+  /**
+   * Move a session's nickname, tags, notes, bookmarks and links onto another session, then delete it
+   * The target keeps its own nickname if it has one; links between the two are dropped.
+   */
+  mergeSessionInto(fromId: string, toId: string): void {
+    const db = this.connect();
+    const from = this.getSessionMetadata(fromId);
+    const to = this.getSessionMetadata(toId);
+    if (!from || !to) {
+      throw new Error(`Cannot merge session ${fromId} into ${toId}: both must exist`);
+    }
+
+    db.transaction(() => {
+      if (from.nickname && !to.nickname) {
+        db.prepare('UPDATE session_metadata SET nickname = NULL WHERE session_id = ?').run(fromId);
+        db.prepare('UPDATE session_metadata SET nickname = ? WHERE session_id = ?').run(from.nickname, toId);
+      }
+
+      const params = { from: fromId, to: toId };
+      db.prepare('INSERT OR IGNORE INTO session_tags (session_id, tag_id) SELECT @to, tag_id FROM session_tags WHERE session_id = @from ORDER BY rowid').run(params);
+      db.prepare('UPDATE session_notes SET session_id = @to WHERE session_id = @from').run(params);
+      db.prepare('UPDATE OR IGNORE message_bookmarks SET session_id = @to WHERE session_id = @from').run(params);
+      db.prepare('UPDATE OR IGNORE session_links SET from_session_id = @to WHERE from_session_id = @from AND to_session_id != @to').run(params);
+      db.prepare('UPDATE OR IGNORE session_links SET to_session_id = @to WHERE to_session_id = @from AND from_session_id != @to').run(params);
+
+      // Whatever could not move (duplicates, links between the two) goes with the session
+      this.deleteSessionMetadata(fromId);
+    })();
+  }
+
+  /**
+   * Mark a source's sessions that are not in `presentIds` as missing
+   * Sessions already marked keep their original timestamp.
+   * @returns IDs of the sessions newly marked missing
+   */
+  markMissingSessions(source: string, presentIds: Set<string>): string[] {
+    const db = this.connect();
+
+    const rows = db.prepare('SELECT session_id FROM session_metadata WHERE source = ? AND missing_since IS NULL')
+      .all(source) as { session_id: string }[];
+    const missing = rows.map(row => row.session_id).filter(id => !presentIds.has(id));
+
+    const mark = db.prepare('UPDATE session_metadata SET missing_since = ? WHERE session_id = ?');
+    const now = Date.now();
+    db.transaction(() => {
+      for (const sessionId of missing) {
+        mark.run(now, sessionId);
+      }
+    })();
+
+    return missing;
+  }
+
+  /**
+   * Set or clear (null) the missing timestamp of a session
+   */
+  setSessionMissing(sessionId: string, missingSince: number | null): void {
+    const db = this.connect();
+    db.prepare('UPDATE session_metadata SET missing_since = ? WHERE session_id = ?').run(missingSince, sessionId);
+  }
+
+  /**
+   * List sessions marked missing, oldest first
+   */
+  listMissingSessions(source?: string): SessionMetadata[] {
+    const db = this.connect();
+
+    let query = `${SESSION_SELECT} WHERE missing_since IS NOT NULL`;
+    const params: any[] = [];
+
+    if (source) {
+      query += ' AND source = ?';
+      params.push(source);
+    }
+
+    query += ' ORDER BY missing_since ASC';
+
+    const rows = db.prepare(query).all(...params) as any[];
+    return rows.map(row => this.rowToMetadata(row));
+  }
+
+  /**
+   * Replace the full-text index entries for a session
+   */
+  indexSessionMessages(sessionId: string, messages: ParsedMessage[]): void {
+    const db = this.connect();
+
+    const remove = db.prepare('DELETE FROM session_messages WHERE session_id = ?');
+    const insert = db.prepare(`
+      INSERT INTO session_messages (session_id, message_index, bubble_id, role, timestamp, content)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    const reindex = db.transaction((items: ParsedMessage[]) => {
+      remove.run(sessionId);
+
+      items.forEach((message, index) => {
+        if (!message.content) {
+          return;
+        }
+        insert.run(
+          sessionId,
+          index,
+          message.bubbleId,
+          message.role,
+          message.timestamp || null,
+          message.content
+        );
+      });
+    });
+
+    reindex(messages);
+  }
+
+  /**
+   * Rank sessions by BM25 relevance over all of their indexed messages and notes
+   * A session matches when each term is found somewhere in it, not necessarily in the
+   * same message, and none of the negated terms are.
+   */
+  searchSessionContent(query: string | SearchTerm[], limit?: number): SessionContentRank[] {
+    const db = this.connect();
+
+    const { required, excluded } = toFtsTerms(query);
+    if (required.length === 0) {
+      return [];
+    }
+
+    // One row per term and matching message or note; excluded terms are numbered -1
+    const termHits = (term: number) => `
+        SELECT m.session_id AS session_id, 'm' || m.id AS hit, message_fts.rank AS score, ${term} AS term -- rank is bm25() by default
+        FROM message_fts
+        JOIN session_messages m ON m.id = message_fts.rowid
+        WHERE message_fts MATCH ?
+        UNION ALL
+        SELECT n.session_id AS session_id, 'n' || n.id AS hit, note_fts.rank AS score, ${term} AS term
+        FROM note_fts
+        JOIN session_notes n ON n.id = note_fts.rowid
+        WHERE note_fts MATCH ?`;
+
+    const queries = required.map((_, index) => termHits(index));
+    const params: any[] = required.flatMap(term => [term, term]);
+    if (excluded.length > 0) {
+      queries.push(termHits(-1));
+      params.push(excluded.join(' OR '), excluded.join(' OR '));
+    }
+
+    let sql = `
+      SELECT
+        session_id,
+        SUM(CASE WHEN term >= 0 THEN score ELSE 0 END) AS score,
+        COUNT(DISTINCT CASE WHEN term >= 0 THEN hit END) AS hits
+      FROM (${queries.join('\n        UNION ALL')}
+      )
+      GROUP BY session_id
+      HAVING COUNT(DISTINCT CASE WHEN term >= 0 THEN term END) = ${required.length}
+        AND SUM(term < 0) = 0
+      ORDER BY score ASC
+    `;
+
+    if (limit) {
+      sql += ' LIMIT ?';
+      params.push(limit);
+    }
+
+    return db.prepare(sql).all(...params) as SessionContentRank[];
+  }
+
+  /**
+   * Find individual messages matching a full-text query, most relevant first
+   */
+  searchMessages(query: string | SearchTerm[], options: { sessionId?: string; limit?: number } = {}): MessageHit[] {
+    const db = this.connect();
+
+    const ftsQuery = toFtsQuery(query);
+    if (!ftsQuery) {
+      return [];
+    }
+
+    let sql = `
+      SELECT m.session_id AS session_id, m.message_index AS message_index, message_fts.rank AS score
+      FROM message_fts
+      JOIN session_messages m ON m.id = message_fts.rowid
+      WHERE message_fts MATCH ?
+    `;
+    const params: any[] = [ftsQuery];
+
+    if (options.sessionId) {
+      sql += ' AND m.session_id = ?';
+      params.push(options.sessionId);
+    }
+
+    sql += ' ORDER BY score ASC';
+
+    if (options.limit) {
+      sql += ' LIMIT ?';
+      params.push(options.limit);
+    }
+
+    return db.prepare(sql).all(...params) as MessageHit[];
+  }
+
+  /**
+   * Get an indexed message with up to `window` indexed messages on each side
+   */
+  getMessageContext(sessionId: string, messageIndex: number, window: number): MessageContext | null {
+    const db = this.connect();
+
+    const row = db.prepare('SELECT * FROM session_messages WHERE session_id = ? AND message_index = ?')
+      .get(sessionId, messageIndex) as any;
+
+    if (!row) {
+      return null;
+    }
+
+    const before = window > 0
+      ? db.prepare(`
+          SELECT * FROM session_messages
+          WHERE session_id = ? AND message_index < ?
+          ORDER BY message_index DESC LIMIT ?
+        `).all(sessionId, messageIndex, window) as any[]
+      : [];
+
+    const after = window > 0
+      ? db.prepare(`
+          SELECT * FROM session_messages
+          WHERE session_id = ? AND message_index > ?
+          ORDER BY message_index ASC LIMIT ?
+        `).all(sessionId, messageIndex, window) as any[]
+      : [];
+
+    return {
+      message: this.rowToMessage(row),
+      before: before.reverse().map(r => this.rowToMessage(r)),
+      after: after.map(r => this.rowToMessage(r))
+    };
+  }
+
+  /**
+   * Get the indexed question/answer exchange a message belongs to
+   * The message is looked up by bubbleId, falling back to `messageIndex` when it is not
+   * indexed (tool-only messages have no text to index).
+   */
+  getMessageExchange(sessionId: string, bubbleId: string, messageIndex: number): MessageExchange {
+    const db = this.connect();
+
+    const row = db.prepare('SELECT message_index FROM session_messages WHERE session_id = ? AND bubble_id = ?')
+      .get(sessionId, bubbleId) as { message_index: number } | undefined;
+    const position = row ? row.message_index : messageIndex;
+
+    const bounds = db.prepare(`
+      SELECT
+        (SELECT MAX(message_index) FROM session_messages WHERE session_id = @sessionId AND role = 'user' AND message_index <= @position) AS start,
+        (SELECT MIN(message_index) FROM session_messages WHERE session_id = @sessionId AND role = 'user' AND message_index > @position) AS end
+    `).get({ sessionId, position }) as { start: number | null; end: number | null };
+
+    const rows = db.prepare(`
+      SELECT * FROM session_messages
+      WHERE session_id = ? AND message_index >= ? AND message_index < ?
+      ORDER BY message_index
+    `).all(sessionId, bounds.start ?? 0, bounds.end ?? Number.MAX_SAFE_INTEGER) as any[];
+
+    const messages = rows.map(r => this.rowToMessage(r));
+    if (bounds.start !== null && messages[0]?.role === 'user') {
+      return { question: messages[0], answer: messages.slice(1) };
+    }
+    return { answer: messages };
+  }
+
+  /**
+   * Convert indexed message row to ParsedMessage
+   */
+  private rowToMessage(row: any): ParsedMessage {
+    return {
+      role: row.role as ParsedMessage['role'],
+      content: row.content,
+      bubbleId: row.bubble_id || '',
+      timestamp: row.timestamp || undefined
+    };
+  }
+  
+  /**
+   * Store an imported conversation, replacing its messages if it changed
+   * Returns whether the conversation was added, updated or already up to date
+   */
+  saveImportedSession(
+    session: Omit<ImportedSession, 'imported_at'>,
+    messages: ParsedMessage[]
+  ): 'added' | 'updated' | 'unchanged' {
+    const db = this.connect();
+
+    const existing = this.getImportedSession(session.session_id);
+    if (existing) {
+      const count = db.prepare('SELECT COUNT(*) AS count FROM imported_messages WHERE session_id = ?')
+        .get(session.session_id) as { count: number };
+
+      if (existing.updated_at === session.updated_at &&
+          existing.project_path === session.project_path &&
+          existing.title === session.title &&
+          count.count === messages.length) {
+        return 'unchanged';
+      }
+    }
+
+    const upsert = db.prepare(`
+      INSERT INTO imported_sessions (session_id, provider, title, project_path, created_at, updated_at, imported_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(session_id) DO UPDATE SET
+        provider = excluded.provider,
+        title = excluded.title,
+        project_path = excluded.project_path,
+        created_at = excluded.created_at,
+        updated_at = excluded.updated_at,
+        imported_at = excluded.imported_at
+    `);
+    const remove = db.prepare('DELETE FROM imported_messages WHERE session_id = ?');
+    const insert = db.prepare(`
+      INSERT INTO imported_messages (session_id, message_index, bubble_id, role, timestamp, content, tool_data)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const save = db.transaction(() => {
+      upsert.run(
+        session.session_id,
+        session.provider,
+        session.title || null,
+        session.project_path || null,
+        session.created_at || null,
+        session.updated_at || null,
+        Date.now()
+      );
+
+      remove.run(session.session_id);
+      messages.forEach((message, index) => {
+        insert.run(
+          session.session_id,
+          index,
+          message.bubbleId,
+          message.role,
+          message.timestamp || null,
+          message.content,
+          message.toolData ? JSON.stringify(message.toolData) : null
+        );
+      });
+    });
+
+    save();
+    return existing ? 'updated' : 'added';
+  }
+
+  /**
+   * Get an imported conversation by raw session ID
+   */
+  getImportedSession(sessionId: string): ImportedSession | null {
+    const db = this.connect();
+
+    const row = db.prepare('SELECT * FROM imported_sessions WHERE session_id = ?')
+      .get(sessionId) as any;
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      session_id: row.session_id,
+      provider: row.provider,
+      title: row.title || undefined,
+      project_path: row.project_path || undefined,
+      created_at: row.created_at || undefined,
+      updated_at: row.updated_at || undefined,
+      imported_at: row.imported_at
+    };
+  }
+
+  /**
+   * Get the messages of an imported conversation
+   */
+  getImportedMessages(sessionId: string): ParsedMessage[] {
+    const db = this.connect();
+
+    const rows = db.prepare('SELECT * FROM imported_messages WHERE session_id = ? ORDER BY message_index')
+      .all(sessionId) as any[];
+
+    return rows.map(row => ({
+      ...this.rowToMessage(row),
+      toolData: row.tool_data ? JSON.parse(row.tool_data) : undefined
+    }));
+  }
+
+  /**
+   * Get imported conversation IDs with the time they were last imported, newest first
+   */
+  getImportedSessionTimestamps(limit?: number): Map<string, number> {
+    const db = this.connect();
+
+    let sql = 'SELECT session_id, imported_at FROM imported_sessions ORDER BY imported_at DESC';
+    const params: any[] = [];
+
+    if (limit) {
+      sql += ' LIMIT ?';
+      params.push(limit);
+    }
+
+    const rows = db.prepare(sql).all(...params) as { session_id: string; imported_at: number }[];
+    return new Map(rows.map(row => [row.session_id, row.imported_at]));
+  }
+
+  /**
+   * Attach a markdown note to a session, or to one of its messages when bubbleId is given
+   */
+  addNote(sessionId: string, content: string, bubbleId?: string): SessionNote {
+    const db = this.connect();
+    const now = Date.now();
+
+    const result = db.prepare(`
+      INSERT INTO session_notes (session_id, bubble_id, content, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(sessionId, bubbleId || null, content, now, now);
+
+    return this.getNote(Number(result.lastInsertRowid))!;
+  }
+
+  /**
+   * Get a note by ID
+   */
+  getNote(noteId: number): SessionNote | null {
+    const db = this.connect();
+
+    const row = db.prepare('SELECT * FROM session_notes WHERE id = ?').get(noteId) as any;
+    return row ? this.rowToNote(row) : null;
+  }
+
+  /**
+   * List a session's notes (session-level and per-message), oldest first
+   */
+  listNotes(sessionId: string): SessionNote[] {
+    const db = this.connect();
+
+    const rows = db.prepare('SELECT * FROM session_notes WHERE session_id = ? ORDER BY created_at, id')
+      .all(sessionId) as any[];
+    return rows.map(row => this.rowToNote(row));
+  }
+
+  /**
+   * Replace the content of a note
+   * @returns The updated note, or null if it does not exist
+   */
+  updateNote(noteId: number, content: string): SessionNote | null {
+    const db = this.connect();
+
+    db.prepare('UPDATE session_notes SET content = ?, updated_at = ? WHERE id = ?').run(content, Date.now(), noteId);
+    return this.getNote(noteId);
+  }
+
+  /**
+   * Delete a note
+   * @returns false if the note did not exist
+   */
+  deleteNote(noteId: number): boolean {
+    const db = this.connect();
+
+    return db.prepare('DELETE FROM session_notes WHERE id = ?').run(noteId).changes > 0;
+  }
+
+  /**
+   * Bookmark a message (bookmarking it again only updates the label)
+   */
+  addBookmark(sessionId: string, bubbleId: string, messageIndex: number, label?: string): MessageBookmark {
+    const db = this.connect();
+
+    db.prepare(`
+      INSERT INTO message_bookmarks (session_id, bubble_id, message_index, label, created_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(session_id, bubble_id) DO UPDATE SET
+        message_index = excluded.message_index,
+        label = COALESCE(excluded.label, label)
+    `).run(sessionId, bubbleId, messageIndex, label || null, Date.now());
+
+    const row = db.prepare('SELECT * FROM message_bookmarks WHERE session_id = ? AND bubble_id = ?')
+      .get(sessionId, bubbleId) as any;
+    return this.rowToBookmark(row);
+  }
+
+  /**
+   * List bookmarks, newest first
+   */
+  listBookmarks(options: { sessionId?: string; limit?: number } = {}): MessageBookmark[] {
+    const db = this.connect();
+
+    let query = 'SELECT * FROM message_bookmarks WHERE 1=1';
+    const params: any[] = [];
+
+    if (options.sessionId) {
+      query += ' AND session_id = ?';
+      params.push(options.sessionId);
+    }
+
+    query += ' ORDER BY created_at DESC, id DESC';
+
+    if (options.limit) {
+      query += ' LIMIT ?';
+      params.push(options.limit);
+    }
+
+    const rows = db.prepare(query).all(...params) as any[];
+    return rows.map(row => this.rowToBookmark(row));
+  }
+
+  /**
+   * Delete a bookmark
+   * @returns false if the bookmark did not exist
+   */
+  deleteBookmark(bookmarkId: number): boolean {
+    const db = this.connect();
+
+    return db.prepare('DELETE FROM message_bookmarks WHERE id = ?').run(bookmarkId).changes > 0;
+  }
+
+  /**
+   * Link two sessions ("fromSessionId <type> toSessionId")
+   * Adding an existing link again keeps it; a manual link turns a detected one into a manual one.
+   * Related links are undirected and stored once per pair.
+   */
+  addLink(fromSessionId: string, toSessionId: string, type: SessionLinkType, origin: SessionLink['origin'] = 'manual'): SessionLink {
+    if (fromSessionId === toSessionId) {
+      throw new Error('A session cannot be linked to itself');
+    }
+
+    if (type === 'related' && fromSessionId > toSessionId) {
+      [fromSessionId, toSessionId] = [toSessionId, fromSessionId];
+    }
+
+    const db = this.connect();
+
+    db.prepare(`
+      INSERT INTO session_links (from_session_id, to_session_id, link_type, origin, created_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(from_session_id, to_session_id, link_type) DO UPDATE SET
+        origin = CASE WHEN excluded.origin = 'manual' THEN 'manual' ELSE origin END
+    `).run(fromSessionId, toSessionId, type, origin, Date.now());
+
+    const row = db.prepare('SELECT * FROM session_links WHERE from_session_id = ? AND to_session_id = ? AND link_type = ?')
+      .get(fromSessionId, toSessionId, type) as any;
+    return this.rowToLink(row);
+  }
+
+  /**
+   * Remove the links between two sessions, in either direction
+   * @returns Number of links removed
+   */
+  removeLinks(sessionId: string, otherSessionId: string, type?: SessionLinkType): number {
+    const db = this.connect();
+
+    let query = `
+      DELETE FROM session_links
+      WHERE ((from_session_id = ? AND to_session_id = ?) OR (from_session_id = ? AND to_session_id = ?))
+    `;
+    const params: any[] = [sessionId, otherSessionId, otherSessionId, sessionId];
+
+    if (type) {
+      query += ' AND link_type = ?';
+      params.push(type);
+    }
+
+    return db.prepare(query).run(...params).changes;
+  }
+
+  /**
+   * List the links from and to a session, oldest first
+   */
+  listLinks(sessionId: string): SessionLink[] {
+    const db = this.connect();
+
+    const rows = db.prepare(`
+      SELECT * FROM session_links
+      WHERE from_session_id = ? OR to_session_id = ?
+      ORDER BY created_at, id
+    `).all(sessionId, sessionId) as any[];
+    return rows.map(row => this.rowToLink(row));
+  }
+
+  /**
+   * Save a collection, replacing the filters (and description, if given) of an existing one
+   */
+  saveCollection(name: string, query: CollectionQuery, description?: string): SavedCollection {
+    const db = this.connect();
+    const now = Date.now();
+
+    db.prepare(`
+      INSERT INTO collections (name, description, query, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(name) DO UPDATE SET
+        description = COALESCE(excluded.description, description),
+        query = excluded.query,
+        updated_at = excluded.updated_at
+    `).run(name, description || null, JSON.stringify(query), now, now);
+
+    return this.getCollection(name)!;
+  }
+
+  /**
+   * Get a collection by name
+   */
+  getCollection(name: string): SavedCollection | null {
+    const db = this.connect();
+
+    const row = db.prepare('SELECT * FROM collections WHERE name = ?').get(name) as any;
+    return row ? this.rowToCollection(row) : null;
+  }
+
+  /**
+   * List collections by name
+   */
+  listCollections(): SavedCollection[] {
+    const db = this.connect();
+
+    const rows = db.prepare('SELECT * FROM collections ORDER BY name').all() as any[];
+    return rows.map(row => this.rowToCollection(row));
+  }
+
+  /**
+   * Delete a collection
+   * @returns false if the collection did not exist
+   */
+  deleteCollection(name: string): boolean {
+    const db = this.connect();
+
+    return db.prepare('DELETE FROM collections WHERE name = ?').run(name).changes > 0;
+  }
+
+  /**
+   * Convert collection row to SavedCollection
+   */
+  private rowToCollection(row: any): SavedCollection {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      query: JSON.parse(row.query),
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+
+  /**
+   * Convert link row to SessionLink
+   */
+  private rowToLink(row: any): SessionLink {
+    return {
+      id: row.id,
+      from_session_id: row.from_session_id,
+      to_session_id: row.to_session_id,
+      type: row.link_type,
+      origin: row.origin,
+      created_at: row.created_at
+    };
+  }
+
+  /**
+   * Convert bookmark row to MessageBookmark
+   */
+  private rowToBookmark(row: any): MessageBookmark {
+    return {
+      id: row.id,
+      session_id: row.session_id,
+      bubble_id: row.bubble_id,
+      message_index: row.message_index,
+      label: row.label || undefined,
+      created_at: row.created_at
+    };
+  }
+
+  /**
+   * Convert note row to SessionNote
+   */
+  private rowToNote(row: any): SessionNote {
+    return {
+      id: row.id,
+      session_id: row.session_id,
+      bubble_id: row.bubble_id || undefined,
+      content: row.content,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+
+  /**
+   * Get database statistics
+   */
+  getStats(): {
+    total_sessions: number;
+    sessions_with_nicknames: number;
+    sessions_with_tags: number;
+    sessions_with_projects: number;
+    total_projects: number;
+    total_tags: number;
+  } {
+    const db = this.connect();
+    
+    const stats = db.prepare(`
       SELECT
         COUNT(*) as total_sessions,
         COALESCE(SUM(CASE WHEN nickname IS NOT NULL THEN 1 ELSE 0 END), 0) as sessions_with_nicknames,
-        COALESCE(SUM(CASE WHEN tags IS NOT NULL AND tags != '' THEN 1 ELSE 0 END), 0) as sessions_with_tags,
+        (SELECT COUNT(DISTINCT session_id) FROM session_tags) as sessions_with_tags,
         COALESCE(SUM(CASE WHEN has_project = 1 THEN 1 ELSE 0 END), 0) as sessions_with_projects,
-        COUNT(DISTINCT CASE WHEN project_path IS NOT NULL THEN project_path END) as total_projects
+        COUNT(DISTINCT CASE WHEN project_path IS NOT NULL THEN project_path END) as total_projects,
+        (SELECT COUNT(*) FROM tags) as total_tags
       FROM session_metadata
     `).get() as any;
     
-    // Count total unique tags using listAllTags method
-    const allTags = this.listAllTags();
-    const totalTags = allTags.length;
-    
     return {
       total_sessions: stats.total_sessions,
       sessions_with_nicknames: stats.sessions_with_nicknames,
       sessions_with_tags: stats.sessions_with_tags,
       sessions_with_projects: stats.sessions_with_projects,
       total_projects: stats.total_projects,
-      total_tags: totalTags
+      total_tags: stats.total_tags
     };
   }
   
@@ -0,0 +1,357 @@
+/**
+ * Metadata Database Migrations
+ *
+ * Ordered list of schema changes. A new database runs every migration; an existing one
+ * runs those newer than its recorded version. Append new migrations to the end of the
+ * list — never edit or reorder one that has shipped.
+ */
+
+import type Database from 'better-sqlite3';
+
+/**
+ * Single schema change
+ */
+export interface Migration {
+  /** Schema version after this migration (consecutive, starting at 1) */
+  version: number;
+  description: string;
+  /** Apply the change (runs inside a transaction) */
+  up(db: Database.Database): void;
+}
+
+/**
+ * Parsed message store with an external-content FTS5 index kept in sync by triggers
+ */
+const MESSAGE_INDEX_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS session_messages (
+    id INTEGER PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    message_index INTEGER NOT NULL,
+    bubble_id TEXT,
+    role TEXT NOT NULL,
+    timestamp TEXT,
+    content TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_session_messages_session ON session_messages(session_id, message_index);
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS message_fts USING fts5(
+    content,
+    content = 'session_messages',
+    content_rowid = 'id',
+    tokenize = 'porter unicode61'
+  );
+
+  CREATE TRIGGER IF NOT EXISTS session_messages_ai AFTER INSERT ON session_messages BEGIN
+    INSERT INTO message_fts (rowid, content) VALUES (new.id, new.content);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS session_messages_ad AFTER DELETE ON session_messages BEGIN
+    INSERT INTO message_fts (message_fts, rowid, content) VALUES ('delete', old.id, old.content);
+  END;
+`;
+
+/**
+ * Conversations imported from data-export files, stored locally because the
+ * export file itself is not kept around
+ */
+const IMPORT_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS imported_sessions (
+    session_id TEXT PRIMARY KEY,
+    provider TEXT NOT NULL,
+    title TEXT,
+    project_path TEXT,
+    created_at INTEGER,
+    updated_at INTEGER,
+    imported_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS imported_messages (
+    session_id TEXT NOT NULL,
+    message_index INTEGER NOT NULL,
+    bubble_id TEXT,
+    role TEXT NOT NULL,
+    timestamp TEXT,
+    content TEXT NOT NULL,
+    tool_data TEXT,
+    PRIMARY KEY (session_id, message_index)
+  );
+`;
+
+function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.pragma(`table_info(${table})`) as Array<{ name: string }>;
+  return columns.some(col => col.name === column);
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Session metadata',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS session_metadata (
+          session_id TEXT PRIMARY KEY,
+          nickname TEXT UNIQUE,
+          tags TEXT,
+          project_path TEXT,
+          project_name TEXT,
+          has_project INTEGER DEFAULT 0,
+          created_at INTEGER,
+          last_accessed INTEGER,
+          first_message_preview TEXT,
+          message_count INTEGER DEFAULT 0
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_nickname ON session_metadata(nickname);
+        CREATE INDEX IF NOT EXISTS idx_project_path ON session_metadata(project_path);
+        CREATE INDEX IF NOT EXISTS idx_project_name ON session_metadata(project_name);
+        CREATE INDEX IF NOT EXISTS idx_has_project ON session_metadata(has_project);
+        CREATE INDEX IF NOT EXISTS idx_created_at ON session_metadata(created_at DESC);
+      `);
+    }
+  },
+  {
+    version: 2,
+    description: 'Multi-source sessions and sync timestamps',
+    up(db) {
+      // Development builds of v1 may already have either column
+      if (!hasColumn(db, 'session_metadata', 'last_synced_at')) {
+        db.exec('ALTER TABLE session_metadata ADD COLUMN last_synced_at INTEGER');
+      }
+
+      // v1 only had Cursor support, so all existing sessions are cursor
+      if (!hasColumn(db, 'session_metadata', 'source')) {
+        db.exec(`ALTER TABLE session_metadata ADD COLUMN source TEXT NOT NULL DEFAULT 'cursor'`);
+      }
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_last_synced_at ON session_metadata(last_synced_at DESC);
+        CREATE INDEX IF NOT EXISTS idx_source ON session_metadata(source);
+      `);
+    }
+  },
+  {
+    version: 3,
+    description: 'Full-text message index',
+    up(db) {
+      // Clearing the sync timestamps makes the next sync re-read (and index) every session
+      db.exec(`
+        ${MESSAGE_INDEX_SCHEMA}
+
+        UPDATE session_metadata SET last_synced_at = NULL;
+      `);
+    }
+  },
+  {
+    version: 4,
+    description: 'Imported ChatGPT / claude.ai conversations',
+    up(db) {
+      db.exec(IMPORT_SCHEMA);
+    }
+  },
+  {
+    version: 5,
+    description: 'Track sessions missing from their source',
+    up(db) {
+      db.exec('ALTER TABLE session_metadata ADD COLUMN missing_since INTEGER');
+    }
+  },
+  {
+    version: 6,
+    description: 'Relational tags',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS tags (
+          id INTEGER PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE
+        );
+
+        CREATE TABLE IF NOT EXISTS session_tags (
+          session_id TEXT NOT NULL,
+          tag_id INTEGER NOT NULL,
+          PRIMARY KEY (session_id, tag_id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_session_tags_tag ON session_tags(tag_id);
+      `);
+
+      // Move the JSON-encoded tag lists over, keeping each session's tag order
+      const rows = db.prepare('SELECT session_id, tags FROM session_metadata WHERE tags IS NOT NULL')
+        .all() as Array<{ session_id: string; tags: string }>;
+      const insertTag = db.prepare('INSERT OR IGNORE INTO tags (name) VALUES (?)');
+      const linkTag = db.prepare('INSERT OR IGNORE INTO session_tags (session_id, tag_id) SELECT ?, id FROM tags WHERE name = ?');
+
+      for (const row of rows) {
+        let tags: unknown;
+        try {
+          tags = JSON.parse(row.tags);
+        } catch {
+          continue;
+        }
+        if (!Array.isArray(tags)) {
+          continue;
+        }
+
+        for (const tag of tags) {
+          const name = typeof tag === 'string' ? tag.trim() : '';
+          if (name) {
+            insertTag.run(name);
+            linkTag.run(row.session_id, name);
+          }
+        }
+      }
+
+      db.exec('ALTER TABLE session_metadata DROP COLUMN tags');
+    }
+  },
+  {
+    version: 7,
+    description: 'Session and message notes',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS session_notes (
+          id INTEGER PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          bubble_id TEXT,
+          content TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_session_notes_session ON session_notes(session_id);
+
+        CREATE VIRTUAL TABLE IF NOT EXISTS note_fts USING fts5(
+          content,
+          content = 'session_notes',
+          content_rowid = 'id',
+          tokenize = 'porter unicode61'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS session_notes_ai AFTER INSERT ON session_notes BEGIN
+          INSERT INTO note_fts (rowid, content) VALUES (new.id, new.content);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS session_notes_ad AFTER DELETE ON session_notes BEGIN
+          INSERT INTO note_fts (note_fts, rowid, content) VALUES ('delete', old.id, old.content);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS session_notes_au AFTER UPDATE OF content ON session_notes BEGIN
+          INSERT INTO note_fts (note_fts, rowid, content) VALUES ('delete', old.id, old.content);
+          INSERT INTO note_fts (rowid, content) VALUES (new.id, new.content);
+        END;
+      `);
+    }
+  },
+  {
+    version: 8,
+    description: 'Message bookmarks',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS message_bookmarks (
+          id INTEGER PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          bubble_id TEXT NOT NULL,
+          message_index INTEGER NOT NULL,
+          label TEXT,
+          created_at INTEGER NOT NULL,
+          UNIQUE (session_id, bubble_id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_message_bookmarks_created ON message_bookmarks(created_at DESC);
+      `);
+    }
+  },
+  {
+    version: 9,
+    description: 'Session links',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS session_links (
+          id INTEGER PRIMARY KEY,
+          from_session_id TEXT NOT NULL,
+          to_session_id TEXT NOT NULL,
+          link_type TEXT NOT NULL,
+          origin TEXT NOT NULL DEFAULT 'manual',
+          created_at INTEGER NOT NULL,
+          UNIQUE (from_session_id, to_session_id, link_type)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_session_links_to ON session_links(to_session_id);
+      `);
+    }
+  },
+  {
+    version: 10,
+    description: 'Saved collections',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS collections (
+          id INTEGER PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE,
+          description TEXT,
+          query TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+      `);
+    }
+  },
+  {
+    version: 11,
+    description: 'Session model and git branch',
+    up(db) {
+      // Re-read sessions of the sources that record either, so the next sync fills them in
+      db.exec(`
+        ALTER TABLE session_metadata ADD COLUMN model TEXT;
+        ALTER TABLE session_metadata ADD COLUMN git_branch TEXT;
+
+        CREATE INDEX IF NOT EXISTS idx_last_accessed ON session_metadata(last_accessed DESC);
+
+        UPDATE session_metadata SET last_synced_at = NULL
+        WHERE source IN ('claude', 'codex', 'copilot', 'gemini');
+      `);
+    }
+  },
+  {
+    version: 12,
+    description: 'Re-index Claude Code tool calls',
+    up(db) {
+      // Tool calls are now separate messages carrying their results; re-sync to rebuild the message index
+      db.exec(`UPDATE session_metadata SET last_synced_at = NULL WHERE source = 'claude'`);
+    }
+  },
+  {
+    version: 13,
+    description: 'Re-index Claude Code sessions without subagent messages',
+    up(db) {
+      // Subagent (sidechain) messages are no longer part of the main conversation
+      db.exec(`UPDATE session_metadata SET last_synced_at = NULL WHERE source = 'claude'`);
+    }
+  },
+  {
+    version: 14,
+    description: 'Session summary titles',
+    up(db) {
+      // Resumed Claude Code sessions are now stitched together; re-sync to fill in their summaries.
+      // The first full sync moves what was stored under a resumed file's ID onto its session.
+      db.exec(`
+        ALTER TABLE session_metadata ADD COLUMN summary_title TEXT;
+
+        UPDATE session_metadata SET last_synced_at = NULL WHERE source = 'claude';
+      `);
+    }
+  },
+  {
+    version: 15,
+    description: 'Re-index Cursor messages as Markdown',
+    up(db) {
+      // User messages keep their lists, links and @file mentions now; re-sync to rebuild the message index
+      db.exec(`UPDATE session_metadata SET last_synced_at = NULL WHERE source = 'cursor'`);
+    }
+  }
+];
+
+/**
+ * Schema version after all migrations
+ */
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1]!.version;
@@ -38,6 +38,66 @@ export function getCursorDBPath(): string {
   return dbPath;
 }
 
+/**
+ * Get Windsurf user data directory (contains globalStorage/ and workspaceStorage/)
+ * @throws Error if platform is unsupported
+ */
+export function getWindsurfUserDataPath(): string {
+  const home = os.homedir();
+  const platform = process.platform;
+
+  switch (platform) {
+    case 'darwin': // macOS
+      return path.join(home, 'Library/Application Support/Windsurf/User');
+
+    case 'win32': // Windows
+      return path.join(home, 'AppData/Roaming/Windsurf/User');
+
+    case 'linux': // Linux
+      return path.join(home, '.config/Windsurf/User');
+
+    default:
+      throw new Error(`Unsupported platform: ${platform}`);
+  }
+}
+
+/**
+ * Get VS Code user data directory (contains globalStorage/ and workspaceStorage/)
+ * @throws Error if platform is unsupported
+ */
+export function getVSCodeUserDataPath(): string {
+  const home = os.homedir();
+  const platform = process.platform;
+
+  switch (platform) {
+    case 'darwin': // macOS
+      return path.join(home, 'Library/Application Support/Code/User');
+
+    case 'win32': // Windows
+      return path.join(home, 'AppData/Roaming/Code/User');
+
+    case 'linux': // Linux
+      return path.join(home, '.config/Code/User');
+
+    default:
+      throw new Error(`Unsupported platform: ${platform}`);
+  }
+}
+
+/**
+ * Get root directories scanned for Aider chat history files
+ * Uses CURSOR_CONTEXT_AIDER_ROOTS (separated by the platform path delimiter); nothing is
+ * scanned unless it is set, since walking the home directory on every sync is too slow
+ */
+export function getAiderRoots(): string[] {
+  const configured = process.env.CURSOR_CONTEXT_AIDER_ROOTS;
+  if (configured) {
+    return configured.split(path.delimiter).filter(Boolean);
+  }
+
+  return [];
+}
+
 /**
  * Check if Cursor database exists
  */
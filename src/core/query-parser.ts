@@ -0,0 +1,232 @@
+/**
+ * Search Query Parser
+ *
+ * Turns search queries like
+ *
+ *   project:api tag:bug source:claude after:2025-10-01 "token refresh" -draft
+ *
+ * into session filters (the `key:value` operators) and a full-text expression
+ * (words, "quoted phrases" and -excluded terms). Words whose prefix is not a
+ * known operator (`localhost:3000`, `TypeError:`) are searched as text.
+ */
+
+import { parseDateFilter } from './date-filter.js';
+import { QueryParseError } from './errors.js';
+
+/**
+ * Word or phrase of the full-text part of a query
+ */
+export interface SearchTerm {
+  text: string;
+  /** Written in quotes: the words must appear next to each other */
+  phrase: boolean;
+  /** Prefixed with '-': sessions mentioning it are left out */
+  negated: boolean;
+}
+
+/**
+ * Session filters given as operators (same meaning as the search options of the same name)
+ */
+export interface QueryFilters {
+  projectPath?: string;
+  /** Project name (last segment of the project path), matched ignoring case */
+  projectName?: string;
+  tag?: string;
+  source?: string;
+  since?: string;
+  until?: string;
+  minMessages?: number;
+  maxMessages?: number;
+  model?: string;
+  gitBranch?: string;
+}
+
+/**
+ * Parsed search query
+ */
+export interface ParsedSearchQuery {
+  filters: QueryFilters;
+  /** Full-text terms, in query order */
+  terms: SearchTerm[];
+  /** Terms that must match, joined by spaces (for highlighting matches) */
+  text: string;
+}
+
+/**
+ * Operators and the filters they set
+ * - project:<name or path>  tag:<tag>  source:<name>  model:<name>  branch:<name>
+ * - after:/since:<date>  before:/until:<date> (ISO or relative, both inclusive)
+ * - messages:<n>, messages:>n, messages:<=n, messages:10..50
+ */
+const OPERATORS: Record<string, keyof QueryFilters | 'messages'> = {
+  project: 'projectPath',
+  tag: 'tag',
+  source: 'source',
+  after: 'since',
+  since: 'since',
+  before: 'until',
+  until: 'until',
+  model: 'model',
+  branch: 'gitBranch',
+  messages: 'messages'
+};
+
+/**
+ * Optional sign, optional `key:` and a quoted or bare value
+ */
+const TOKEN = /(-)?(?:([A-Za-z]+):)?(?:"([^"]*)"|([^\s"]+))/y;
+
+const MESSAGE_COUNT = /^(>=|<=|>|<|=)?(\d+)$/;
+const MESSAGE_RANGE = /^(\d+)\.\.(\d+)$/;
+
+/**
+ * Parse a search query into filters and full-text terms
+ *
+ * @param query - Query text
+ * @param options.sources - Valid source names (`source:` is not checked without them)
+ * @throws QueryParseError on unterminated quotes, operators without a value,
+ *   repeated or excluded operators and invalid operator values
+ */
+export function parseSearchQuery(query: string, options: { sources?: string[] } = {}): ParsedSearchQuery {
+  const filters: QueryFilters = {};
+  const terms: SearchTerm[] = [];
+  const seen = new Set<string>();
+
+  // Quotes always come in pairs (a quote inside a word starts a new token)
+  const lastQuote = query.lastIndexOf('"');
+  if ((query.split('"').length - 1) % 2 === 1) {
+    throw new QueryParseError('Unterminated quote', query, lastQuote);
+  }
+
+  let position = 0;
+  while (position < query.length) {
+    if (/\s/.test(query[position]!)) {
+      position++;
+      continue;
+    }
+
+    // Always matches once quotes are balanced
+    TOKEN.lastIndex = position;
+    const match = TOKEN.exec(query)!;
+
+    const [token, sign, key, quoted, bare] = match;
+    const start = position;
+    position += token.length;
+
+    const negated = sign === '-';
+    const operator = key ? OPERATORS[key.toLowerCase()] : undefined;
+
+    if (!key && bare && /^[A-Za-z]+:$/.test(bare) && OPERATORS[bare.slice(0, -1).toLowerCase()]) {
+      throw new QueryParseError(`Missing value for '${bare.toLowerCase()}'`, query, start);
+    }
+
+    if (!operator) {
+      // Unknown prefixes are part of the text (`localhost:3000`)
+      const value = quoted ?? bare!;
+      const text = key ? `${key}:${value}` : value;
+      if (text.trim()) {
+        terms.push({ text, phrase: quoted !== undefined, negated });
+      }
+      continue;
+    }
+
+    const name = `${key!.toLowerCase()}:`;
+    const value = (quoted ?? bare ?? '').trim();
+    if (negated) {
+      throw new QueryParseError(`Operators can't be excluded ('${token}')`, query, start);
+    }
+    if (!value) {
+      throw new QueryParseError(`Missing value for '${name}'`, query, start);
+    }
+    if (seen.has(operator)) {
+      throw new QueryParseError(`'${name}' can only be used once`, query, start);
+    }
+    seen.add(operator);
+
+    try {
+      applyOperator(filters, operator, value, options);
+    } catch (error: any) {
+      throw new QueryParseError(`${error.message} (in '${name}')`, query, start);
+    }
+  }
+
+  return {
+    filters,
+    terms,
+    text: terms.filter(term => !term.negated).map(term => term.text).join(' ')
+  };
+}
+
+/**
+ * Set the filter(s) of an operator
+ * @throws Error if the value is invalid
+ */
+function applyOperator(
+  filters: QueryFilters,
+  operator: keyof QueryFilters | 'messages',
+  value: string,
+  options: { sources?: string[] }
+): void {
+  switch (operator) {
+    case 'projectPath':
+      // A bare name matches the project name, anything path-like the full path
+      if (/[\\/]/.test(value)) {
+        filters.projectPath = value;
+      } else {
+        filters.projectName = value;
+      }
+      return;
+    case 'source':
+      if (options.sources && value !== 'all' && !options.sources.includes(value)) {
+        throw new Error(`Unknown session source '${value}'. Available sources: ${options.sources.join(', ')}`);
+      }
+      filters.source = value;
+      return;
+    case 'since':
+    case 'until':
+      parseDateFilter(value);
+      filters[operator] = value;
+      return;
+    case 'messages':
+      applyMessageCount(filters, value);
+      return;
+    default:
+      filters[operator as 'tag' | 'model' | 'gitBranch'] = value;
+  }
+}
+
+/**
+ * messages:12 (exactly), messages:>12, messages:<=40, messages:10..50
+ */
+function applyMessageCount(filters: QueryFilters, value: string): void {
+  const range = MESSAGE_RANGE.exec(value);
+  if (range) {
+    filters.minMessages = parseInt(range[1]!, 10);
+    filters.maxMessages = parseInt(range[2]!, 10);
+    return;
+  }
+
+  const count = MESSAGE_COUNT.exec(value);
+  if (!count) {
+    throw new Error(`Invalid message count '${value}'. Use a number (12), a comparison (>12, <=40) or a range (10..50)`);
+  }
+
+  const num = parseInt(count[2]!, 10);
+  switch (count[1]) {
+    case '>':
+      filters.minMessages = num + 1;
+      break;
+    case '>=':
+      filters.minMessages = num;
+      break;
+    case '<':
+      filters.maxMessages = Math.max(num - 1, 0);
+      break;
+    case '<=':
+      filters.maxMessages = num;
+      break;
+    default:
+      filters.minMessages = num;
+      filters.maxMessages = num;
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Session Sources
+ *
+ * Pluggable abstraction over the chat tools we read sessions from (Cursor, Claude Code, ...).
+ * CursorContext only talks to sources through this interface, so adding a new tool
+ * means writing a reader plus a SessionSource adapter and registering it.
+ */
+
+import type { ParsedMessage, SubConversation } from './types.js';
+import type { ParseOptions } from './message-parser.js';
+
+/**
+ * Everything a source knows about one session, used to build SessionMetadata
+ */
+export interface SourceSession {
+  /** Messages in unified format */
+  messages: ParsedMessage[];
+  /** Detected workspace/project path */
+  projectPath?: string;
+  /** Nickname set from inside the session (nickname_current_session tool call) */
+  nickname?: string;
+  /** Creation time (milliseconds since epoch) */
+  createdAt?: number;
+  /** Model that answered last, if the source records it */
+  model?: string;
+  /** Git branch the session ran on, if the source records it */
+  gitBranch?: string;
+  /** Title the source generated for the session, if any */
+  summaryTitle?: string;
+}
+
+/**
+ * Filesystem location watched for changes to a source's sessions
+ */
+export interface WatchTarget {
+  /** File or directory to watch */
+  path: string;
+  /** Watch subdirectories too */
+  recursive?: boolean;
+  /** Only react to changed files whose path (relative to `path`) matches */
+  match?: (filename: string) => boolean;
+}
+
+/**
+ * A chat tool whose sessions can be synced and retrieved
+ */
+export interface SessionSource {
+  /** Source name, also used as the session ID prefix (e.g. 'cursor' -> 'cursor:<id>') */
+  readonly name: string;
+  /** Human readable label (e.g. 'Claude Code') */
+  readonly label: string;
+
+  /**
+   * Get raw session IDs with their last updated timestamp (ms), newest first
+   */
+  getSessionTimestamps(limit?: number): Map<string, number>;
+
+  /**
+   * Check whether the source has a session with this raw ID
+   */
+  hasSession(sessionId: string): boolean;
+
+  /**
+   * Load messages, workspace and nickname for a session
+   * Returns null if the session does not exist or has no messages
+   */
+  loadSession(sessionId: string): SourceSession | null;
+
+  /**
+   * Get a session's messages
+   * @throws SessionNotFoundError if the source does not have the session
+   */
+  getMessages(sessionId: string, parseOptions?: ParseOptions): ParsedMessage[];
+
+  /**
+   * Get the conversations subagents had on behalf of a session (optional; for sources
+   * whose sessions can start subagents)
+   * @throws SessionNotFoundError if the source does not have the session
+   */
+  getSubConversations?(sessionId: string, parseOptions?: ParseOptions): SubConversation[];
+
+  /**
+   * Filesystem locations to watch for session changes (optional, used by SessionWatcher)
+   * Sources without watch targets are only synced on the regular schedule.
+   */
+  getWatchTargets?(): WatchTarget[];
+
+  /**
+   * Map a changed file (relative to its watch target) to the raw ID of the session it holds
+   * Returns null when the file cannot be tied to one session; the whole source is then
+   * checked for updated sessions instead.
+   */
+  sessionIdFromPath?(filename: string): string | null;
+
+  /**
+   * Get the ID a session is stored under, for sources where one session has several raw IDs
+   * (the files of a resumed Claude Code session); other IDs are returned as given
+   */
+  resolveSessionId?(sessionId: string): string;
+
+  /**
+   * Check whether an unprefixed ID has the format of this source's raw IDs
+   * Sources whose lookups scan files implement this, so that a mistyped nickname or an
+   * ID from another tool is not looked up in them.
+   */
+  matchesSessionId?(sessionId: string): boolean;
+
+  /**
+   * Release any resources held by the source
+   */
+  close(): void;
+}
+
+/**
+ * Registry of available session sources, keyed by name
+ */
+export class SessionSourceRegistry {
+  private sources = new Map<string, SessionSource>();
+
+  /**
+   * Register a source (replaces any existing source with the same name)
+   */
+  register(source: SessionSource): void {
+    if (!source.name || source.name.includes(':')) {
+      throw new Error(`Invalid session source name: '${source.name}'`);
+    }
+
+    const existing = this.sources.get(source.name);
+    if (existing && existing !== source) {
+      existing.close();
+    }
+
+    this.sources.set(source.name, source);
+  }
+
+  /**
+   * Get a source by name
+   */
+  get(name: string): SessionSource | undefined {
+    return this.sources.get(name);
+  }
+
+  /**
+   * Check if a source is registered
+   */
+  has(name: string): boolean {
+    return this.sources.has(name);
+  }
+
+  /**
+   * Get all registered source names (in registration order)
+   */
+  names(): string[] {
+    return Array.from(this.sources.keys());
+  }
+
+  /**
+   * Get all registered sources (in registration order)
+   */
+  list(): SessionSource[] {
+    return Array.from(this.sources.values());
+  }
+
+  /**
+   * Resolve a source filter ('all' or a source name) to the matching sources
+   */
+  select(filter: string = 'all'): SessionSource[] {
+    if (filter === 'all') {
+      return this.list();
+    }
+
+    const source = this.sources.get(filter);
+    if (!source) {
+      throw new Error(`Unknown session source '${filter}'. Available sources: ${this.names().join(', ')}`);
+    }
+
+    return [source];
+  }
+
+  /**
+   * Close all sources
+   */
+  close(): void {
+    for (const source of this.sources.values()) {
+      source.close();
+    }
+  }
+}
+
+/**
+ * Split a prefixed session ID ('claude:abc') into source name and raw ID
+ * Only the first ':' separates the prefix, so raw IDs may themselves contain colons.
+ */
+export function parseSessionId(sessionId: string): { source: string; rawId: string } | null {
+  const separator = sessionId.indexOf(':');
+  if (separator <= 0 || separator === sessionId.length - 1) {
+    return null;
+  }
+
+  return {
+    source: sessionId.substring(0, separator),
+    rawId: sessionId.substring(separator + 1)
+  };
+}
@@ -0,0 +1,510 @@
+/**
+ * Built-in Session Sources
+ *
+ * SessionSource adapters for each supported chat tool. Each adapter wraps a
+ * reader (CursorDB, ClaudeCodeDB, ...) and converts its data to the unified format.
+ */
+
+import { CursorDB } from './cursor-db.js';
+import { ClaudeCodeDB } from './claude-code-db.js';
+import { WindsurfDB } from './windsurf-db.js';
+import { CopilotChatDB } from './copilot-chat-db.js';
+import { AiderHistoryDB } from './aider-history-db.js';
+import { CodexDB, extractCwdFromCodexItems } from './codex-db.js';
+import { GeminiDB, detectGeminiProjectPath } from './gemini-db.js';
+import type { MetadataDB } from './metadata-db.js';
+import { parseBubbles, applyParseOptions, type ParseOptions } from './message-parser.js';
+import { getWorkspaceInfo, extractWorkspaceFromComposerData, isEmptySession } from './workspace-extractor.js';
+import { getClaudeWorkspaceInfo } from './claude-workspace-extractor.js';
+import { getWindsurfWorkspaceInfo } from './windsurf-workspace-extractor.js';
+import {
+  claudeToUnified,
+  claudeSidechainsToUnified,
+  windsurfToUnified,
+  copilotToUnified,
+  aiderToUnified,
+  codexToUnified,
+  geminiToUnified
+} from './format-adapters.js';
+import { SessionNotFoundError } from './errors.js';
+import path from 'path';
+import type { SessionSource, SourceSession, WatchTarget } from './session-source.js';
+import type { ParsedMessage, SubConversation } from './types.js';
+
+/** Raw ID format of Copilot Chat, Codex CLI and Gemini CLI sessions */
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Aider session IDs: a hash of the transcript path and session header */
+const AIDER_SESSION_ID = /^[0-9a-f]{16}$/;
+
+/**
+ * Find a nickname set with the nickname_current_session tool in unified messages
+ * Tool names carry a client-specific MCP prefix, so only the suffix is matched.
+ */
+function findNicknameInMessages(messages: ParsedMessage[]): string | undefined {
+  for (const msg of messages) {
+    const nickname = msg.toolData?.params?.nickname;
+    if (msg.toolData?.name.endsWith('nickname_current_session') && typeof nickname === 'string' && nickname) {
+      return nickname;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Last non-empty value picked from a list (e.g. the model of the latest reply)
+ */
+function lastValue<T>(items: T[], pick: (item: T) => unknown): string | undefined {
+  for (let i = items.length - 1; i >= 0; i--) {
+    const value = pick(items[i]!);
+    if (typeof value === 'string' && value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Cursor composer sessions (state.vscdb)
+ */
+export class CursorSessionSource implements SessionSource {
+  readonly name = 'cursor';
+  readonly label = 'Cursor';
+
+  constructor(private readonly db: CursorDB) {}
+
+  getSessionTimestamps(limit?: number): Map<string, number> {
+    return this.db.getAllSessionTimestamps(limit);
+  }
+
+  hasSession(sessionId: string): boolean {
+    return this.db.getComposerData(sessionId) !== null;
+  }
+
+  loadSession(sessionId: string): SourceSession | null {
+    const composerData = this.db.getComposerData(sessionId);
+    if (!composerData) {
+      return null;
+    }
+
+    // Skip empty sessions (no messages)
+    if (isEmptySession(composerData)) {
+      return null;
+    }
+
+    const bubbles = this.db.getSessionBubbles(sessionId);
+    const workspaceInfo = getWorkspaceInfo(bubbles);
+
+    // If workspace not found in bubbles, check composerData fields
+    const projectPath = workspaceInfo.primaryPath ||
+                        extractWorkspaceFromComposerData(composerData) ||
+                        undefined;
+
+    return {
+      messages: parseBubbles(bubbles),
+      projectPath,
+      nickname: workspaceInfo.nickname || undefined,
+      createdAt: composerData.createdAt ? Date.parse(composerData.createdAt) : undefined
+    };
+  }
+
+  getMessages(sessionId: string, parseOptions?: ParseOptions): ParsedMessage[] {
+    return parseBubbles(this.db.getSessionBubbles(sessionId), parseOptions);
+  }
+
+  getWatchTargets(): WatchTarget[] {
+    // Watch the directory so the -wal/-shm files are seen even when SQLite recreates them
+    const dbFile = path.basename(this.db.getDBPath());
+    return [{
+      path: path.dirname(this.db.getDBPath()),
+      match: filename => path.basename(filename).startsWith(dbFile)
+    }];
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Claude Code sessions (~/.claude/projects JSONL files)
+ */
+export class ClaudeCodeSessionSource implements SessionSource {
+  readonly name = 'claude';
+  readonly label = 'Claude Code';
+
+  constructor(private readonly db: ClaudeCodeDB) {}
+
+  getSessionTimestamps(limit?: number): Map<string, number> {
+    return this.db.getSessionTimestamps(limit);
+  }
+
+  hasSession(sessionId: string): boolean {
+    return this.db.hasSession(this.db.resolveSessionId(sessionId));
+  }
+
+  resolveSessionId(sessionId: string): string {
+    return this.db.resolveSessionId(sessionId);
+  }
+
+  loadSession(sessionId: string): SourceSession | null {
+    const { main: messages, summary } = this.db.getSessionTranscript(this.db.resolveSessionId(sessionId));
+    if (messages.length === 0) {
+      return null;
+    }
+
+    // Extract workspace and nickname
+    const workspaceInfo = getClaudeWorkspaceInfo(messages);
+
+    // Get created timestamp from first message
+    const createdAt = messages[0]?.timestamp
+      ? new Date(messages[0].timestamp).getTime()
+      : undefined;
+
+    return {
+      messages: claudeToUnified(messages),
+      projectPath: workspaceInfo.primaryPath || undefined,
+      nickname: workspaceInfo.nickname || undefined,
+      createdAt,
+      // Locally generated replies (e.g. interruptions) are marked with a placeholder model
+      model: lastValue(messages, m => m.message?.model !== '<synthetic>' ? m.message?.model : undefined),
+      gitBranch: lastValue(messages, m => m.gitBranch),
+      summaryTitle: summary
+    };
+  }
+
+  getMessages(sessionId: string, parseOptions?: ParseOptions): ParsedMessage[] {
+    const messages = this.db.getSessionMessages(sessionId);
+    if (messages.length === 0) {
+      throw new SessionNotFoundError(`claude:${sessionId}`);
+    }
+
+    return applyParseOptions(claudeToUnified(messages), parseOptions);
+  }
+
+  getSubConversations(sessionId: string, parseOptions?: ParseOptions): SubConversation[] {
+    const { main, sidechains } = this.db.getSessionTranscript(sessionId);
+    if (main.length === 0) {
+      throw new SessionNotFoundError(`claude:${sessionId}`);
+    }
+
+    return claudeSidechainsToUnified(sidechains, claudeToUnified(main))
+      .map(sub => ({ ...sub, messages: applyParseOptions(sub.messages, parseOptions) }));
+  }
+
+  getWatchTargets(): WatchTarget[] {
+    return [{
+      path: this.db.getProjectsPath(),
+      recursive: true,
+      match: filename => filename.endsWith('.jsonl')
+    }];
+  }
+
+  sessionIdFromPath(filename: string): string | null {
+    // A file of a resumed session syncs the session it belongs to
+    return filename.endsWith('.jsonl') ? this.db.resolveSessionId(path.basename(filename, '.jsonl')) : null;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Windsurf Cascade conversations (VS Code-style state.vscdb storage)
+ */
+export class WindsurfSessionSource implements SessionSource {
+  readonly name = 'windsurf';
+  readonly label = 'Windsurf';
+
+  constructor(private readonly db: WindsurfDB) {}
+
+  getSessionTimestamps(limit?: number): Map<string, number> {
+    return this.db.getAllSessionTimestamps(limit);
+  }
+
+  hasSession(sessionId: string): boolean {
+    return this.db.getConversation(sessionId) !== null;
+  }
+
+  loadSession(sessionId: string): SourceSession | null {
+    const conversation = this.db.getConversation(sessionId);
+    if (!conversation) {
+      return null;
+    }
+
+    const workspaceInfo = getWindsurfWorkspaceInfo(conversation);
+
+    return {
+      messages: windsurfToUnified(conversation),
+      projectPath: workspaceInfo.primaryPath || undefined,
+      nickname: workspaceInfo.nickname || undefined,
+      createdAt: conversation.createdAt
+    };
+  }
+
+  getMessages(sessionId: string, parseOptions?: ParseOptions): ParsedMessage[] {
+    const conversation = this.db.getConversation(sessionId);
+    if (!conversation) {
+      throw new SessionNotFoundError(`windsurf:${sessionId}`);
+    }
+
+    return applyParseOptions(windsurfToUnified(conversation), parseOptions);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * GitHub Copilot Chat sessions (VS Code workspaceStorage/[hash]/chatSessions/*.json)
+ */
+export class CopilotSessionSource implements SessionSource {
+  readonly name = 'copilot';
+  readonly label = 'Copilot Chat';
+
+  constructor(private readonly db: CopilotChatDB) {}
+
+  getSessionTimestamps(limit?: number): Map<string, number> {
+    return this.db.getSessionTimestamps(limit);
+  }
+
+  hasSession(sessionId: string): boolean {
+    return this.db.hasSession(sessionId);
+  }
+
+  matchesSessionId(sessionId: string): boolean {
+    return UUID.test(sessionId);
+  }
+
+  loadSession(sessionId: string): SourceSession | null {
+    const session = this.db.getSession(sessionId);
+    if (!session || session.requests.length === 0) {
+      return null;
+    }
+
+    return {
+      messages: copilotToUnified(session),
+      projectPath: session.workspaceFolder,
+      createdAt: session.creationDate,
+      model: lastValue(session.requests, r => r.modelId)
+    };
+  }
+
+  getMessages(sessionId: string, parseOptions?: ParseOptions): ParsedMessage[] {
+    const session = this.db.getSession(sessionId);
+    if (!session) {
+      throw new SessionNotFoundError(`copilot:${sessionId}`);
+    }
+
+    return applyParseOptions(copilotToUnified(session), parseOptions);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Aider sessions (.aider.chat.history.md transcripts found under the configured roots)
+ */
+export class AiderSessionSource implements SessionSource {
+  readonly name = 'aider';
+  readonly label = 'Aider';
+
+  constructor(private readonly db: AiderHistoryDB) {}
+
+  getSessionTimestamps(limit?: number): Map<string, number> {
+    return this.db.getSessionTimestamps(limit);
+  }
+
+  hasSession(sessionId: string): boolean {
+    return this.db.getSession(sessionId) !== null;
+  }
+
+  matchesSessionId(sessionId: string): boolean {
+    return AIDER_SESSION_ID.test(sessionId);
+  }
+
+  loadSession(sessionId: string): SourceSession | null {
+    const session = this.db.getSession(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    return {
+      messages: aiderToUnified(session),
+      projectPath: session.projectPath,
+      createdAt: session.startedAt
+    };
+  }
+
+  getMessages(sessionId: string, parseOptions?: ParseOptions): ParsedMessage[] {
+    const session = this.db.getSession(sessionId);
+    if (!session) {
+      throw new SessionNotFoundError(`aider:${sessionId}`);
+    }
+
+    return applyParseOptions(aiderToUnified(session), parseOptions);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * OpenAI Codex CLI sessions (~/.codex/sessions rollout JSONL files)
+ */
+export class CodexSessionSource implements SessionSource {
+  readonly name = 'codex';
+  readonly label = 'Codex CLI';
+
+  constructor(private readonly db: CodexDB) {}
+
+  getSessionTimestamps(limit?: number): Map<string, number> {
+    return this.db.getSessionTimestamps(limit);
+  }
+
+  hasSession(sessionId: string): boolean {
+    return this.db.getSessionMessages(sessionId).length > 0;
+  }
+
+  matchesSessionId(sessionId: string): boolean {
+    return UUID.test(sessionId);
+  }
+
+  loadSession(sessionId: string): SourceSession | null {
+    const items = this.db.getSessionMessages(sessionId);
+    const messages = codexToUnified(items);
+    if (messages.length === 0) {
+      return null;
+    }
+
+    const first = items.find(item => item.timestamp || item.payload.timestamp);
+
+    return {
+      messages,
+      projectPath: extractCwdFromCodexItems(items) || undefined,
+      nickname: findNicknameInMessages(messages),
+      createdAt: first ? new Date(first.timestamp || first.payload.timestamp).getTime() : undefined,
+      model: lastValue(items, item => item.type === 'turn_context' ? item.payload.model : undefined),
+      gitBranch: lastValue(items, item => item.type === 'session_meta' ? item.payload.git?.branch : undefined)
+    };
+  }
+
+  getMessages(sessionId: string, parseOptions?: ParseOptions): ParsedMessage[] {
+    const items = this.db.getSessionMessages(sessionId);
+    if (items.length === 0) {
+      throw new SessionNotFoundError(`codex:${sessionId}`);
+    }
+
+    return applyParseOptions(codexToUnified(items), parseOptions);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Gemini CLI sessions (~/.gemini/tmp/[project-hash]/chats JSON files)
+ */
+export class GeminiSessionSource implements SessionSource {
+  readonly name = 'gemini';
+  readonly label = 'Gemini CLI';
+
+  constructor(private readonly db: GeminiDB) {}
+
+  getSessionTimestamps(limit?: number): Map<string, number> {
+    return this.db.getSessionTimestamps(limit);
+  }
+
+  hasSession(sessionId: string): boolean {
+    return this.db.getConversation(sessionId) !== null;
+  }
+
+  matchesSessionId(sessionId: string): boolean {
+    return UUID.test(sessionId);
+  }
+
+  loadSession(sessionId: string): SourceSession | null {
+    const conversation = this.db.getConversation(sessionId);
+    if (!conversation) {
+      return null;
+    }
+
+    const messages = geminiToUnified(conversation.messages);
+    if (messages.length === 0) {
+      return null;
+    }
+
+    const startTime = conversation.startTime || conversation.messages[0]?.timestamp;
+
+    return {
+      messages,
+      projectPath: detectGeminiProjectPath(conversation) || undefined,
+      nickname: findNicknameInMessages(messages),
+      createdAt: startTime ? new Date(startTime).getTime() : undefined,
+      model: lastValue(conversation.messages, m => m.model)
+    };
+  }
+
+  getMessages(sessionId: string, parseOptions?: ParseOptions): ParsedMessage[] {
+    const conversation = this.db.getConversation(sessionId);
+    if (!conversation) {
+      throw new SessionNotFoundError(`gemini:${sessionId}`);
+    }
+
+    return applyParseOptions(geminiToUnified(conversation.messages), parseOptions);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Conversations imported from ChatGPT / claude.ai data exports (stored in MetadataDB)
+ * Raw IDs are '<provider>-<conversation id>', e.g. 'import:chatgpt-6721...'
+ */
+export class ImportSessionSource implements SessionSource {
+  readonly name = 'import';
+  readonly label = 'Imported';
+
+  constructor(private readonly db: MetadataDB) {}
+
+  getSessionTimestamps(limit?: number): Map<string, number> {
+    return this.db.getImportedSessionTimestamps(limit);
+  }
+
+  hasSession(sessionId: string): boolean {
+    return this.db.getImportedSession(sessionId) !== null;
+  }
+
+  loadSession(sessionId: string): SourceSession | null {
+    const session = this.db.getImportedSession(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    return {
+      messages: this.db.getImportedMessages(sessionId),
+      projectPath: session.project_path,
+      createdAt: session.created_at
+    };
+  }
+
+  getMessages(sessionId: string, parseOptions?: ParseOptions): ParsedMessage[] {
+    if (!this.db.getImportedSession(sessionId)) {
+      throw new SessionNotFoundError(`import:${sessionId}`);
+    }
+
+    return applyParseOptions(this.db.getImportedMessages(sessionId), parseOptions);
+  }
+
+  close(): void {
+    // The metadata database is owned (and closed) by CursorContext
+  }
+}
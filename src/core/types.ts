@@ -102,6 +102,48 @@ export interface ParsedMessage {
   bubbleId: string;
   timestamp?: string;
   toolData?: ToolInfo;
+  /** Model that produced the message (for sources that record it) */
+  model?: string;
+  /** Tokens of the model response the message starts (set on its first message only) */
+  usage?: TokenUsage;
+  /** Git branch checked out when the message was written */
+  gitBranch?: string;
+  /** Model reasoning (thinking) that preceded the message */
+  reasoning?: string;
+  /** Set on the first message after the conversation was compacted or resumed */
+  boundary?: ConversationBoundary;
+  /** Files @-mentioned in the message (for sources that record mentions) */
+  mentionedFiles?: string[];
+}
+
+/**
+ * Point where a conversation continues after compaction or in a resumed session
+ */
+export interface ConversationBoundary {
+  /**
+   * - compaction: earlier messages were replaced by a summary to free up context
+   * - resume: the session was continued in a new file (--continue / --resume)
+   */
+  type: 'compaction' | 'resume';
+  /** Summary of the earlier messages the conversation continued from (compaction) */
+  summary?: string;
+  /** What started the compaction ('auto' or 'manual') */
+  trigger?: string;
+  /** Context tokens before the compaction */
+  preTokens?: number;
+  /** Source session ID of the file the conversation continues in (resume) */
+  sessionId?: string;
+}
+
+/**
+ * Tokens used by a model response
+ */
+export interface TokenUsage {
+  /** Prompt tokens that were not read from or written to the cache */
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens?: number;
+  cacheCreationTokens?: number;
 }
 
 /**
@@ -111,6 +153,8 @@ export interface ToolInfo {
   name: string;
   params?: Record<string, unknown>;
   result?: unknown;
+  /** The tool failed; `result` holds its error output */
+  isError?: boolean;
   workspacePath?: string;
 }
 
@@ -119,7 +163,8 @@ export interface ToolInfo {
  */
 export interface SessionMetadata {
   session_id: string;
-  source?: 'cursor' | 'claude';
+  /** Name of the session source the session came from (e.g. 'cursor', 'claude') */
+  source?: string;
   nickname?: string;
   tags?: string[];
   project_path?: string;
@@ -130,6 +175,152 @@ export interface SessionMetadata {
   last_synced_at?: number;
   first_message_preview?: string;
   message_count?: number;
+  /** When sync found the session gone from its source (unset while it exists) */
+  missing_since?: number;
+  /** Model that answered last (for sources that record it) */
+  model?: string;
+  /** Git branch the session was run on (for sources that record it) */
+  git_branch?: string;
+  /** Title generated by the source (Claude Code summaries), a title candidate when there is no nickname */
+  summary_title?: string;
+}
+
+/**
+ * Markdown note attached to a session, or to one of its messages
+ */
+export interface SessionNote {
+  id: number;
+  session_id: string;
+  /** Message the note annotates (its bubbleId); unset for session-level notes */
+  bubble_id?: string;
+  content: string;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Bookmarked message
+ */
+export interface MessageBookmark {
+  id: number;
+  session_id: string;
+  /** bubbleId of the bookmarked message */
+  bubble_id: string;
+  /** Position of the message in the session when it was bookmarked */
+  message_index: number;
+  label?: string;
+  created_at: number;
+}
+
+/**
+ * Bookmarked message together with the question/answer exchange it belongs to
+ */
+export interface BookmarkedExchange {
+  bookmark: MessageBookmark;
+  session: SessionMetadata;
+  /** User message that started the exchange (unset if the session starts with a reply) */
+  question?: ParsedMessage;
+  /** Messages answering the question, up to the next user message */
+  answer: ParsedMessage[];
+}
+
+/**
+ * Kind of link between two sessions
+ * - continues: the session picks up where the other left off (e.g. after hitting the context limit)
+ * - supersedes: the session replaces the other (the other's approach was abandoned)
+ * - related: the sessions cover related work
+ */
+export type SessionLinkType = 'continues' | 'supersedes' | 'related';
+
+/**
+ * Typed link from one session to another ("from continues to")
+ */
+export interface SessionLink {
+  id: number;
+  from_session_id: string;
+  to_session_id: string;
+  type: SessionLinkType;
+  /** 'manual' links were added by the user; 'detected' ones from get_session calls inside a session */
+  origin: 'manual' | 'detected';
+  created_at: number;
+}
+
+/**
+ * How a linked session relates to the session it was looked up from
+ */
+export type SessionRelation = 'continues' | 'continued_by' | 'supersedes' | 'superseded_by' | 'related';
+
+/**
+ * Session linked to another one, seen from that other session
+ */
+export interface RelatedSession {
+  relation: SessionRelation;
+  session: SessionMetadata;
+  link: SessionLink;
+}
+
+/**
+ * Chain of sessions connected by continues / supersedes links
+ */
+export interface SessionThread {
+  /** Sessions in the chain, earliest first */
+  sessions: SessionMetadata[];
+  /** Continues / supersedes links between the sessions in the chain */
+  links: SessionLink[];
+}
+
+/**
+ * Filters of a saved collection
+ * Without a query the collection lists sessions; with one it searches them.
+ */
+export interface CollectionQuery {
+  /** Full-text search query */
+  query?: string;
+  projectPath?: string;
+  /** Tag filter; a parent tag also matches its children */
+  tag?: string;
+  taggedOnly?: boolean;
+  /** Source name or 'all' */
+  source?: string;
+  /** Only sessions created at or after this date (ISO, or relative like '30d') */
+  since?: string;
+  /** Only sessions created at or before this date (ISO, or relative like '7d') */
+  until?: string;
+  minMessages?: number;
+  maxMessages?: number;
+  /** Model name (or part of it, e.g. 'sonnet') */
+  model?: string;
+  gitBranch?: string;
+  /** Sort order for listings (searches are ranked by relevance) */
+  sortBy?: 'newest' | 'oldest' | 'most_messages' | 'recently_active';
+  limit?: number;
+  caseSensitive?: boolean;
+  includeMissing?: boolean;
+}
+
+/**
+ * Named, saved set of session filters that is re-evaluated every time it is run
+ */
+export interface SavedCollection {
+  id: number;
+  name: string;
+  description?: string;
+  query: CollectionQuery;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Conversation a subagent had on behalf of a session (Claude Code Task tool)
+ */
+export interface SubConversation {
+  /** bubbleId of the tool message that started the subagent (unset if it can't be matched) */
+  parentBubbleId?: string;
+  /** Task description given to the subagent */
+  description?: string;
+  /** Kind of subagent (e.g. 'general-purpose') */
+  agentType?: string;
+  messages: ParsedMessage[];
 }
 
 /**
@@ -137,7 +328,12 @@ export interface SessionMetadata {
  */
 export interface SessionWithMessages {
   metadata: SessionMetadata;
+  /** Main conversation */
   messages: ParsedMessage[];
+  /** Notes on the session and its messages, oldest first */
+  notes?: SessionNote[];
+  /** Subagent conversations, in the order they started (only when requested) */
+  subConversations?: SubConversation[];
 }
 
 /**
@@ -157,16 +353,6 @@ export interface FetchOptions {
   include_tools?: boolean;
 }
 
-/**
- * Options for searching sessions
- */
-export interface SearchOptions {
-  query: string;
-  project?: 'current' | 'all' | string;
-  context_window?: number;
-  limit?: number;
-}
-
 /**
  * Search result with context
  */
@@ -0,0 +1,60 @@
+/**
+ * VS Code Storage Helpers
+ *
+ * Shared helpers for editors built on VS Code (Windsurf, VS Code itself), which keep
+ * per-workspace data in [user data]/workspaceStorage/[hash]/ next to a workspace.json.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * A workspaceStorage/[hash] directory and the folder it belongs to
+ */
+export interface WorkspaceStorageDir {
+  dir: string;
+  workspaceFolder?: string;
+}
+
+/**
+ * Convert a folder URI from workspace.json (file:///...) to a filesystem path
+ */
+export function folderUriToPath(uri: string): string {
+  if (!uri.startsWith('file://')) {
+    return uri;
+  }
+
+  const pathname = decodeURIComponent(new URL(uri).pathname);
+  // file:///c%3A/Users/... -> c:/Users/...
+  return /^\/[A-Za-z]:/.test(pathname) ? pathname.substring(1) : pathname;
+}
+
+/**
+ * Read the workspace folder from workspaceStorage/[hash]/workspace.json
+ */
+export function readWorkspaceFolder(workspaceDir: string): string | undefined {
+  try {
+    const data = JSON.parse(fs.readFileSync(path.join(workspaceDir, 'workspace.json'), 'utf-8'));
+    const folder = data.folder || data.workspace;
+    return typeof folder === 'string' ? folderUriToPath(folder) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * List workspaceStorage directories with their workspace folders
+ */
+export function listWorkspaceStorageDirs(userDataPath: string): WorkspaceStorageDir[] {
+  const workspaceStorage = path.join(userDataPath, 'workspaceStorage');
+  if (!fs.existsSync(workspaceStorage)) {
+    return [];
+  }
+
+  return fs.readdirSync(workspaceStorage, { withFileTypes: true })
+    .filter(dirent => dirent.isDirectory())
+    .map(dirent => {
+      const dir = path.join(workspaceStorage, dirent.name);
+      return { dir, workspaceFolder: readWorkspaceFolder(dir) };
+    });
+}
@@ -0,0 +1,197 @@
+/**
+ * Session Watcher
+ *
+ * Keeps MetadataDB continuously synced by watching the files session sources read from
+ * (Cursor's state.vscdb and its WAL, Claude Code's JSONL files, ...). Changes are
+ * debounced per source, and only the affected sessions are re-synced.
+ */
+
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import type { CursorContext } from './api.js';
+import type { SessionSource } from './session-source.js';
+
+/**
+ * Options for the session watcher
+ */
+export interface SessionWatcherOptions {
+  /** Source to watch ('all' or a source name, default: 'all') */
+  source?: string;
+  /** Wait this long after the last change before syncing (default: 1000ms) */
+  debounceMs?: number;
+  /**
+   * Interval for a background sync of all sources (default: 4 minutes, 0 disables)
+   * Covers sources without watch targets and keeps on-demand auto-sync from kicking in.
+   */
+  fullSyncIntervalMs?: number;
+}
+
+/**
+ * Emitted after every sync triggered by the watcher
+ */
+export interface SessionWatchEvent {
+  /** Source name, or the source filter for initial/interval syncs */
+  source: string;
+  /** What triggered the sync */
+  trigger: 'initial' | 'change' | 'interval';
+  /** Prefixed IDs of the sessions that were synced */
+  sessionIds: string[];
+  durationMs: number;
+}
+
+/**
+ * Changes waiting for the debounce timer of one source
+ * `sessionIds` is null when a change could not be tied to a session (sync the whole source)
+ */
+interface PendingChanges {
+  sessionIds: Set<string> | null;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Watches session source files and syncs changed sessions into MetadataDB
+ *
+ * Events:
+ * - 'sync' (SessionWatchEvent) after each sync
+ * - 'error' (Error) when watching or syncing fails (only emitted if a listener is attached)
+ */
+export class SessionWatcher extends EventEmitter {
+  private readonly source: string;
+  private readonly debounceMs: number;
+  private readonly fullSyncIntervalMs: number;
+  private watchers: fs.FSWatcher[] = [];
+  private pending = new Map<string, PendingChanges>();
+  private interval: NodeJS.Timeout | null = null;
+  /** Syncs run one at a time, in order */
+  private queue: Promise<void> = Promise.resolve();
+  private running = false;
+
+  constructor(private readonly api: CursorContext, options: SessionWatcherOptions = {}) {
+    super();
+    this.source = options.source || 'all';
+    this.debounceMs = options.debounceMs ?? 1000;
+    this.fullSyncIntervalMs = options.fullSyncIntervalMs ?? 4 * 60 * 1000;
+  }
+
+  /**
+   * Run an initial sync, then start watching
+   * @returns Paths being watched
+   */
+  async start(): Promise<string[]> {
+    if (this.running) {
+      return [];
+    }
+    this.running = true;
+
+    await this.enqueue(this.source, 'initial', () => this.api.syncSessions(undefined, this.source).then(() => []));
+
+    const watched: string[] = [];
+    const sources = this.api.getSources()
+      .filter(source => this.source === 'all' || source.name === this.source);
+
+    for (const source of sources) {
+      for (const target of source.getWatchTargets?.() || []) {
+        if (!fs.existsSync(target.path)) {
+          continue;
+        }
+
+        try {
+          const watcher = fs.watch(target.path, { recursive: target.recursive ?? false }, (_event, filename) => {
+            const name = filename?.toString() || '';
+            if (!target.match || target.match(name)) {
+              this.schedule(source, name);
+            }
+          });
+          watcher.on('error', error => this.reportError(error));
+          this.watchers.push(watcher);
+          watched.push(target.path);
+        } catch (error) {
+          this.reportError(error as Error);
+        }
+      }
+    }
+
+    if (this.fullSyncIntervalMs > 0) {
+      this.interval = setInterval(() => {
+        this.enqueue(this.source, 'interval', () => this.api.syncSessions(undefined, this.source).then(() => []));
+      }, this.fullSyncIntervalMs);
+    }
+
+    return watched;
+  }
+
+  /**
+   * Stop watching (pending changes are dropped; a sync in progress finishes)
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+    }
+    this.pending.clear();
+
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+
+    await this.queue;
+  }
+
+  /**
+   * Record a change and (re)start the source's debounce timer
+   */
+  private schedule(source: SessionSource, filename: string): void {
+    if (!this.running) {
+      return;
+    }
+
+    const sessionId = filename && source.sessionIdFromPath ? source.sessionIdFromPath(filename) : null;
+    const existing = this.pending.get(source.name);
+
+    let sessionIds: Set<string> | null;
+    if (existing) {
+      clearTimeout(existing.timer);
+      sessionIds = existing.sessionIds && sessionId ? existing.sessionIds.add(sessionId) : null;
+    } else {
+      sessionIds = sessionId ? new Set([sessionId]) : null;
+    }
+
+    const timer = setTimeout(() => {
+      this.pending.delete(source.name);
+      const ids = sessionIds ? Array.from(sessionIds) : undefined;
+      this.enqueue(source.name, 'change', () => this.api.syncSourceChanges(source.name, ids));
+    }, this.debounceMs);
+
+    this.pending.set(source.name, { sessionIds, timer });
+  }
+
+  /**
+   * Queue a sync behind any sync already running and emit its result
+   */
+  private enqueue(source: string, trigger: SessionWatchEvent['trigger'], sync: () => Promise<string[]>): Promise<void> {
+    this.queue = this.queue.then(async () => {
+      const start = Date.now();
+      try {
+        const sessionIds = await sync();
+        this.emit('sync', { source, trigger, sessionIds, durationMs: Date.now() - start } satisfies SessionWatchEvent);
+      } catch (error) {
+        this.reportError(error as Error);
+      }
+    });
+
+    return this.queue;
+  }
+
+  private reportError(error: Error): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
+}
@@ -0,0 +1,375 @@
+/**
+ * Windsurf Database Access
+ *
+ * Reads Cascade conversations from Windsurf's VS Code-style storage in read-only mode.
+ * Location: [user data]/globalStorage/state.vscdb and [user data]/workspaceStorage/[hash]/state.vscdb
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { getWindsurfUserDataPath } from './platform.js';
+import { listWorkspaceStorageDirs } from './vscode-storage.js';
+import { DBConnectionError, DBLockedError } from './errors.js';
+
+/**
+ * Tool call made by Cascade during a conversation
+ */
+export interface WindsurfToolCall {
+  id?: string;
+  name: string;
+  arguments?: Record<string, unknown>;
+  result?: unknown;
+}
+
+/**
+ * Single message (step) in a Cascade conversation
+ */
+export interface WindsurfMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  timestamp?: string;
+  toolCalls: WindsurfToolCall[];
+}
+
+/**
+ * Cascade conversation, normalized from the raw storage JSON
+ */
+export interface WindsurfConversation {
+  id: string;
+  title?: string;
+  createdAt?: number;
+  lastUpdatedAt?: number;
+  /** Folder of the workspace storage the conversation was found in (if any) */
+  workspaceFolder?: string;
+  messages: WindsurfMessage[];
+}
+
+/**
+ * A state.vscdb file and the workspace folder it belongs to
+ */
+interface StateDB {
+  dbPath: string;
+  workspaceFolder?: string;
+}
+
+/**
+ * Database reader for Windsurf Cascade conversations
+ */
+export class WindsurfDB {
+  private userDataPath: string;
+  private cache: { signature: string; conversations: Map<string, WindsurfConversation> } | null = null;
+
+  constructor(userDataPath?: string, private readonly timeout = 5000) {
+    this.userDataPath = userDataPath || getWindsurfUserDataPath();
+  }
+
+  /**
+   * Get all conversations with their last updated timestamps, newest first
+   * Returns map of conversationId -> lastUpdatedAt timestamp (milliseconds since epoch)
+   */
+  getAllSessionTimestamps(limit?: number): Map<string, number> {
+    const sorted = Array.from(this.loadConversations().values())
+      .sort((a, b) => conversationTime(b) - conversationTime(a));
+
+    const limited = limit ? sorted.slice(0, limit) : sorted;
+
+    return new Map(limited.map(c => [c.id, conversationTime(c)]));
+  }
+
+  /**
+   * Get a conversation by ID
+   */
+  getConversation(conversationId: string): WindsurfConversation | null {
+    return this.loadConversations().get(conversationId) || null;
+  }
+
+  /**
+   * Release cached conversations (Windsurf databases are opened per read)
+   */
+  close(): void {
+    this.cache = null;
+  }
+
+  /**
+   * Load conversations from every state.vscdb, reusing the cache while no file changed
+   */
+  private loadConversations(): Map<string, WindsurfConversation> {
+    const stateDBs = this.findStateDBs();
+    const signature = stateDBs.map(s => `${s.dbPath}:${fileSignature(s.dbPath)}`).join('|');
+
+    if (this.cache && this.cache.signature === signature) {
+      return this.cache.conversations;
+    }
+
+    const conversations = new Map<string, WindsurfConversation>();
+
+    for (const stateDB of stateDBs) {
+      for (const conversation of this.readStateDB(stateDB)) {
+        const existing = conversations.get(conversation.id);
+        // The same conversation can be mirrored in global and workspace storage; keep the newest
+        if (!existing || conversationTime(conversation) >= conversationTime(existing)) {
+          conversations.set(conversation.id, {
+            ...conversation,
+            workspaceFolder: conversation.workspaceFolder || existing?.workspaceFolder
+          });
+        }
+      }
+    }
+
+    this.cache = { signature, conversations };
+    return conversations;
+  }
+
+  /**
+   * Find the global and per-workspace state databases
+   */
+  private findStateDBs(): StateDB[] {
+    const stateDBs: StateDB[] = [];
+
+    const globalDB = path.join(this.userDataPath, 'globalStorage', 'state.vscdb');
+    if (fs.existsSync(globalDB)) {
+      stateDBs.push({ dbPath: globalDB });
+    }
+
+    for (const { dir, workspaceFolder } of listWorkspaceStorageDirs(this.userDataPath)) {
+      const dbPath = path.join(dir, 'state.vscdb');
+      if (fs.existsSync(dbPath)) {
+        stateDBs.push({ dbPath, workspaceFolder });
+      }
+    }
+
+    return stateDBs;
+  }
+
+  /**
+   * Read all Cascade conversations stored in one state database
+   */
+  private readStateDB(stateDB: StateDB): WindsurfConversation[] {
+    let db: Database.Database;
+
+    try {
+      db = new Database(stateDB.dbPath, {
+        readonly: true,
+        timeout: this.timeout,
+        fileMustExist: true
+      });
+    } catch (error) {
+      const message = (error as Error).message;
+      if (message.includes('SQLITE_BUSY') || message.includes('database is locked')) {
+        throw new DBLockedError('Database is locked. Make sure Windsurf is not performing intensive operations.');
+      }
+      throw new DBConnectionError(`Failed to connect to database: ${message}`, stateDB.dbPath);
+    }
+
+    try {
+      const rows = db.prepare(`SELECT key, value FROM ItemTable WHERE key LIKE '%cascade%'`)
+        .all() as { key: string; value: Buffer | string }[];
+
+      const conversations: WindsurfConversation[] = [];
+
+      for (const row of rows) {
+        let data: unknown;
+        try {
+          data = JSON.parse(row.value.toString());
+        } catch {
+          // Not every cascade key holds JSON (e.g. UI flags)
+          continue;
+        }
+
+        for (const raw of findRawConversations(data)) {
+          const conversation = normalizeConversation(raw, stateDB.workspaceFolder);
+          if (conversation) {
+            conversations.push(conversation);
+          }
+        }
+      }
+
+      return conversations;
+    } catch (error) {
+      // Databases without an ItemTable (or unreadable ones) simply hold no conversations
+      if ((error as Error).message.includes('no such table')) {
+        return [];
+      }
+      throw new DBConnectionError(
+        `Failed to read Windsurf conversations: ${(error as Error).message}`,
+        stateDB.dbPath
+      );
+    } finally {
+      db.close();
+    }
+  }
+}
+
+/**
+ * Last activity time of a conversation (falls back to creation time)
+ */
+function conversationTime(conversation: WindsurfConversation): number {
+  return conversation.lastUpdatedAt || conversation.createdAt || 0;
+}
+
+/**
+ * Change signature (mtime + size) of a database and its WAL file
+ */
+function fileSignature(dbPath: string): string {
+  return [dbPath, `${dbPath}-wal`]
+    .map(file => {
+      try {
+        const stat = fs.statSync(file);
+        return `${stat.mtimeMs}:${stat.size}`;
+      } catch {
+        return '-';
+      }
+    })
+    .join(',');
+}
+
+/**
+ * Locate conversation objects in a cascade value
+ * Windsurf has stored them as a bare array, under a `conversations`/`sessions`/`trajectories`
+ * key (array or id-keyed object), or as a single conversation.
+ */
+function findRawConversations(data: unknown): Record<string, any>[] {
+  if (Array.isArray(data)) {
+    return data.filter(isRecord);
+  }
+
+  if (!isRecord(data)) {
+    return [];
+  }
+
+  for (const key of ['conversations', 'sessions', 'trajectories', 'cascades']) {
+    const value = data[key];
+    if (Array.isArray(value)) {
+      return value.filter(isRecord);
+    }
+    if (isRecord(value)) {
+      return Object.entries(value)
+        .filter(([, conversation]) => isRecord(conversation))
+        .map(([id, conversation]) => ({ id, ...(conversation as Record<string, any>) }));
+    }
+  }
+
+  return [data];
+}
+
+/**
+ * Convert a raw conversation object to a WindsurfConversation
+ * Returns null if the object has no ID or no messages
+ */
+function normalizeConversation(raw: Record<string, any>, workspaceFolder?: string): WindsurfConversation | null {
+  const id = raw.cascadeId || raw.conversationId || raw.sessionId || raw.id;
+  const rawMessages = raw.messages || raw.steps || raw.turns;
+
+  if (typeof id !== 'string' || !Array.isArray(rawMessages)) {
+    return null;
+  }
+
+  const messages = rawMessages
+    .filter(isRecord)
+    .map((message, index) => normalizeMessage(message, `${id}-${index}`))
+    .filter((message): message is WindsurfMessage => message !== null);
+
+  if (messages.length === 0) {
+    return null;
+  }
+
+  const workspaces = raw.workspaceFolders || raw.workspaces;
+  const ownFolder = typeof raw.workspaceFolder === 'string' ? raw.workspaceFolder :
+                    Array.isArray(workspaces) && typeof workspaces[0] === 'string' ? workspaces[0] :
+                    undefined;
+
+  return {
+    id,
+    title: raw.title || raw.name || raw.summary || undefined,
+    createdAt: toMillis(raw.createdAt ?? raw.createdTime ?? messages[0]?.timestamp),
+    lastUpdatedAt: toMillis(raw.lastUpdatedAt ?? raw.lastModifiedTime ?? raw.updatedAt ?? messages[messages.length - 1]?.timestamp),
+    workspaceFolder: ownFolder || workspaceFolder,
+    messages
+  };
+}
+
+/**
+ * Convert a raw message/step to a WindsurfMessage
+ */
+function normalizeMessage(raw: Record<string, any>, fallbackId: string): WindsurfMessage | null {
+  const kind = String(raw.role || raw.type || raw.source || '').toLowerCase();
+
+  let role: WindsurfMessage['role'];
+  if (kind === 'user' || kind.includes('user_input') || kind === 'human') {
+    role = 'user';
+  } else if (kind === 'assistant' || kind === 'bot' || kind === 'cascade' || kind.includes('planner_response')) {
+    role = 'assistant';
+  } else {
+    return null;
+  }
+
+  const text = [raw.text, raw.content, raw.message, raw.userInput?.text, raw.plannerResponse?.response]
+    .find((value): value is string => typeof value === 'string') || '';
+
+  const rawToolCalls = raw.toolCalls || raw.plannerResponse?.toolCalls || [];
+  const toolCalls = (Array.isArray(rawToolCalls) ? rawToolCalls : [])
+    .filter(isRecord)
+    .map(normalizeToolCall)
+    .filter((call): call is WindsurfToolCall => call !== null);
+
+  if (!text.trim() && toolCalls.length === 0) {
+    return null;
+  }
+
+  const timestamp = toMillis(raw.timestamp ?? raw.createdAt);
+
+  return {
+    id: String(raw.id || raw.stepId || raw.messageId || fallbackId),
+    role,
+    text,
+    timestamp: timestamp ? new Date(timestamp).toISOString() : undefined,
+    toolCalls
+  };
+}
+
+/**
+ * Convert a raw tool call (arguments may be a JSON string)
+ */
+function normalizeToolCall(raw: Record<string, any>): WindsurfToolCall | null {
+  const name = raw.name || raw.toolName;
+  if (typeof name !== 'string') {
+    return null;
+  }
+
+  let args = raw.arguments ?? raw.argumentsJson ?? raw.input;
+  if (typeof args === 'string') {
+    try {
+      args = JSON.parse(args);
+    } catch {
+      args = { raw: args };
+    }
+  }
+
+  return {
+    id: typeof raw.id === 'string' ? raw.id : undefined,
+    name,
+    arguments: isRecord(args) ? args : undefined,
+    result: raw.result ?? raw.output
+  };
+}
+
+/**
+ * Parse a timestamp (ms number, seconds number or date string) to milliseconds
+ */
+function toMillis(value: unknown): number | undefined {
+  if (typeof value === 'number' && value > 0) {
+    // Values below 1e12 are seconds since epoch
+    return value < 1e12 ? value * 1000 : value;
+  }
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,143 @@
+/**
+ * Windsurf Workspace Extractor
+ *
+ * Extracts workspace paths and nicknames from Windsurf Cascade conversations
+ */
+
+import type { WindsurfConversation } from './windsurf-db.js';
+import { getProjectNameFromPath } from './claude-workspace-extractor.js';
+
+/**
+ * Tool argument keys holding a directory (used as-is)
+ */
+const DIRECTORY_KEYS = ['Cwd', 'cwd', 'DirectoryPath', 'SearchPath', 'project'];
+
+/**
+ * Tool argument keys holding a file path (its directory is used)
+ */
+const FILE_KEYS = ['TargetFile', 'AbsolutePath', 'FilePath', 'file_path', 'path'];
+
+function isAbsolutePath(p: string): boolean {
+  return p.startsWith('/') || /^[A-Z]:\\/i.test(p);
+}
+
+/**
+ * Parent directory of a file path (handles both separators)
+ */
+function parentDirectory(filePath: string): string {
+  const index = Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\'));
+  return index > 0 ? filePath.substring(0, index) : filePath;
+}
+
+/**
+ * Longest directory shared by all paths
+ */
+function commonDirectory(paths: string[]): string | null {
+  if (paths.length === 0) {
+    return null;
+  }
+
+  const separator = paths[0]!.includes('\\') ? '\\' : '/';
+  let common = paths[0]!.split(separator);
+
+  for (const p of paths.slice(1)) {
+    const parts = p.split(separator);
+    let i = 0;
+    while (i < common.length && i < parts.length && common[i] === parts[i]) {
+      i++;
+    }
+    common = common.slice(0, i);
+  }
+
+  const result = common.join(separator);
+  // A bare root ('/' or 'C:') is not a meaningful project
+  return result && result !== separator && !/^[A-Z]:$/i.test(result) ? result : null;
+}
+
+/**
+ * Extract all directory paths referenced by Cascade tool calls
+ */
+export function extractAllWorkspacePathsFromWindsurf(conversation: WindsurfConversation): string[] {
+  const directories: string[] = [];
+  const files: string[] = [];
+
+  for (const message of conversation.messages) {
+    for (const call of message.toolCalls) {
+      if (!call.arguments) {
+        continue;
+      }
+
+      for (const key of DIRECTORY_KEYS) {
+        const value = call.arguments[key];
+        if (typeof value === 'string' && isAbsolutePath(value)) {
+          directories.push(value.replace(/[\/\\]+$/, ''));
+        }
+      }
+
+      for (const key of FILE_KEYS) {
+        const value = call.arguments[key];
+        if (typeof value === 'string' && isAbsolutePath(value)) {
+          files.push(parentDirectory(value));
+        }
+      }
+    }
+  }
+
+  return Array.from(new Set([...directories, ...files]));
+}
+
+/**
+ * Extract project path from a Windsurf conversation
+ * Prefers the workspace folder the conversation was stored under, then tool call paths.
+ */
+export function extractWorkspaceFromWindsurf(conversation: WindsurfConversation): string | null {
+  if (conversation.workspaceFolder) {
+    return conversation.workspaceFolder;
+  }
+
+  return commonDirectory(extractAllWorkspacePathsFromWindsurf(conversation));
+}
+
+/**
+ * Extract nickname from nickname_current_session tool calls
+ */
+export function extractNicknameFromWindsurf(conversation: WindsurfConversation): string | null {
+  for (const message of conversation.messages) {
+    for (const call of message.toolCalls) {
+      if (!call.name.endsWith('nickname_current_session')) {
+        continue;
+      }
+
+      const nickname = call.arguments?.nickname;
+      if (nickname && typeof nickname === 'string') {
+        return nickname;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get workspace info for Windsurf conversation
+ */
+export interface WindsurfWorkspaceInfo {
+  primaryPath: string | null;
+  projectName: string | null;
+  allPaths: string[];
+  hasProject: boolean;
+  nickname: string | null;
+}
+
+export function getWindsurfWorkspaceInfo(conversation: WindsurfConversation): WindsurfWorkspaceInfo {
+  const primaryPath = extractWorkspaceFromWindsurf(conversation);
+  const allPaths = extractAllWorkspacePathsFromWindsurf(conversation);
+
+  return {
+    primaryPath,
+    projectName: primaryPath ? getProjectNameFromPath(primaryPath) : null,
+    allPaths,
+    hasProject: primaryPath !== null,
+    nickname: extractNicknameFromWindsurf(conversation)
+  };
+}
@@ -13,20 +13,58 @@ import {
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
-import { CursorContext } from '../core/index.js';
+import { CursorContext, SessionWatcher } from '../core/index.js';
 import {
   handleListSessions,
   handleSearchSessions,
   handleGetSession,
+  handleGetSessionThread,
   handleNicknameCurrentSession,
   handleSetNickname,
   handleAddTag,
   handleRemoveTag,
   handleSyncSessions,
   handleListTags,
-  handleListProjects
+  handleRenameTag,
+  handleAddNote,
+  handleGetNotes,
+  handleGetBookmarks,
+  handleListCollections,
+  handleGetCollection,
+  handleListProjects,
+  handlePruneSessions
 } from './tools.js';
 
+/**
+ * Date, size, model and branch filters accepted by list_sessions and search_sessions
+ */
+const SESSION_FILTER_PROPERTIES = {
+  since: {
+    type: 'string',
+    description: 'Only sessions created since this date: ISO date (2025-10-01) or relative (7d, 2w, 3m, 1y, today)',
+  },
+  until: {
+    type: 'string',
+    description: 'Only sessions created until this date (ISO or relative; an ISO date includes the whole day)',
+  },
+  minMessages: {
+    type: 'number',
+    description: 'Only sessions with at least this many messages',
+  },
+  maxMessages: {
+    type: 'number',
+    description: 'Only sessions with at most this many messages',
+  },
+  model: {
+    type: 'string',
+    description: 'Only sessions answered by this model, or part of its name (e.g. "sonnet"); recorded for Claude Code, Codex, Copilot and Gemini sessions',
+  },
+  branch: {
+    type: 'string',
+    description: 'Only sessions run on this git branch; recorded for Claude Code and Codex sessions',
+  },
+};
+
 /**
  * Create and start the MCP server
  */
@@ -46,6 +84,8 @@ async function main() {
 
   // Initialize Cursor Context API (reused across requests)
   const api = new CursorContext();
+  const sourceNames = api.getSourceNames();
+  const sourceEnum = [...sourceNames, 'all'];
 
   // Register tool list handler
   server.setRequestHandler(ListToolsRequestSchema, async () => {
@@ -76,7 +116,7 @@ USE this for: Retrieving the user's actual saved Cursor chat session data from t
               },
               tag: {
                 type: 'string',
-                description: 'Filter by specific tag',
+                description: 'Filter by tag (a parent tag like "area" also matches "area/auth")',
               },
               taggedOnly: {
                 type: 'boolean',
@@ -84,14 +124,15 @@ USE this for: Retrieving the user's actual saved Cursor chat session data from t
               },
               sort: {
                 type: 'string',
-                enum: ['newest', 'oldest', 'most_messages'],
-                description: 'Sort order (default: newest)',
+                enum: ['newest', 'oldest', 'most_messages', 'recently_active'],
+                description: 'Sort order (default: newest; recently_active puts the sessions last changed first)',
               },
               source: {
                 type: 'string',
-                enum: ['cursor', 'claude', 'all'],
-                description: 'Filter by source (cursor, claude, or all) (default: all)',
+                enum: sourceEnum,
+                description: `Filter by source (${sourceNames.join(', ')}, or all) (default: all)`,
               },
+              ...SESSION_FILTER_PROPERTIES,
             },
           },
         },
@@ -106,13 +147,14 @@ TRIGGER PHRASES:
 - "Look in my old sessions for [X]"
 
 DO NOT use for: Reading code, understanding the current chat, or explaining the project.
-USE this for: Searching through saved chat session data for specific topics the user mentioned in PAST conversations.`,
+USE this for: Searching through saved chat session data for specific topics the user mentioned in PAST conversations.
+Results include the matching messages with surrounding context, so the exact exchange can be cited.`,
           inputSchema: {
             type: 'object',
             properties: {
               query: {
                 type: 'string',
-                description: 'Search query',
+                description: 'Search query. Words must all match; use "quoted phrases", -word to leave out sessions mentioning a word, and filter operators: project:<name or path>, tag:<tag>, source:<name>, after:<date>, before:<date> (ISO or relative like 7d), model:<name>, branch:<name>, messages:>20. Example: project:api tag:bug after:2025-10-01 "token refresh" -draft',
               },
               project: {
                 type: 'string',
@@ -126,6 +168,11 @@ USE this for: Searching through saved chat session data for specific topics the
                 type: 'number',
                 description: 'Maximum results (default: 10)',
               },
+              contextWindow: {
+                type: 'number',
+                description: 'Messages of context to show around each matching message (default: 1)',
+              },
+              ...SESSION_FILTER_PROPERTIES,
             },
             required: ['query'],
           },
@@ -156,6 +203,47 @@ USE this after search_sessions finds a session, or when user provides a session
                 enum: ['markdown', 'json'],
                 description: 'Output format (default: markdown)',
               },
+              includeDetails: {
+                type: 'boolean',
+                description: 'Show which model wrote each message, its token usage and the git branch (Claude Code sessions; default: false)',
+              },
+              includeReasoning: {
+                type: 'boolean',
+                description: 'Include the model\'s reasoning (thinking) before its replies (Claude Code sessions; default: false)',
+              },
+              includeSubagents: {
+                type: 'boolean',
+                description: 'Include the conversations of subagents the session started with the Task tool, nested under the call that started them (Claude Code sessions; default: false, main conversation only)',
+              },
+            },
+            required: ['idOrNickname'],
+          },
+        },
+        {
+          name: 'get_session_thread',
+          description: `Get the whole chain of PAST sessions a session belongs to, in order.
+
+Sessions are chained when one continues another (e.g. a new chat started after hitting the context limit) or supersedes it. Links are added by the user or detected when a session loaded another with get_session.
+
+TRIGGER PHRASES:
+- "Load the whole thread for [nickname]"
+- "What came before this session?"
+- "Show every part of the auth refactor chats"`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              idOrNickname: {
+                type: 'string',
+                description: 'Session ID (UUID) or nickname of any session in the chain',
+              },
+              includeMessages: {
+                type: 'boolean',
+                description: 'Include the messages of every session, not just the outline (default: false)',
+              },
+              maxMessages: {
+                type: 'number',
+                description: 'Maximum messages per session when includeMessages is set (default: 20)',
+              },
             },
             required: ['idOrNickname'],
           },
@@ -266,6 +354,132 @@ TRIGGER: "What tags do I have?" or "Show my chat tags"`,
             properties: {},
           },
         },
+        {
+          name: 'add_note',
+          description: `Attach a markdown note to a session, or to one of its messages.
+
+Use when user wants to record why a session matters:
+- "Note that this session has the final auth design"
+- "Add a note to that answer: this approach didn't work"
+
+Notes appear in get_session output next to the message they annotate and are included in search_sessions.`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session ID (UUID) or nickname',
+              },
+              content: {
+                type: 'string',
+                description: 'Note text (markdown)',
+              },
+              messageId: {
+                type: 'string',
+                description: 'Attach to this message (its bubbleId from get_session JSON output, or a unique prefix). Omit for a session-level note',
+              },
+            },
+            required: ['sessionId', 'content'],
+          },
+        },
+        {
+          name: 'get_notes',
+          description: `Get the notes the user attached to a past session and its messages.
+
+TRIGGER: "What notes did I leave on that session?"`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session ID (UUID) or nickname',
+              },
+            },
+            required: ['sessionId'],
+          },
+        },
+        {
+          name: 'get_bookmarks',
+          description: `**Get the exchanges the user bookmarked in their PAST chat sessions.**
+
+Returns each bookmarked message with the question and full answer it belongs to - the curated parts of sessions, without loading whole sessions.
+
+TRIGGER PHRASES:
+- "Show my bookmarked answers"
+- "Pull in my starred exchanges about auth"
+- "What did I bookmark in the migration session?"`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Only bookmarks in this session (ID or nickname)',
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of bookmarks, newest first (default: 20)',
+              },
+            },
+          },
+        },
+        {
+          name: 'list_collections',
+          description: `List the user's saved collections: named filter combinations (project, tag, source, date range, search query).
+
+Use before get_collection when the user refers to a saved set of sessions by name.`,
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'get_collection',
+          description: `Run one of the user's saved collections and return the PAST sessions it matches right now.
+
+Relative date ranges (e.g. "last 30 days") are re-evaluated on every run.
+
+TRIGGER PHRASES:
+- "Show my 'auth-work' collection"
+- "What's in my recent-bugs collection?"`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Collection name (see list_collections)',
+              },
+            },
+            required: ['name'],
+          },
+        },
+        {
+          name: 'rename_tag',
+          description: `Rename a tag on every session, or merge it into another tag.
+
+Use when user wants to reorganize tags:
+- "Rename the 'auth' tag to 'area/auth'"
+- "Merge 'bug' into 'bugfix'"
+
+Child tags move along (renaming 'auth' also renames 'auth/oauth'). Renaming onto an existing tag fails unless merge is true.`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              from: {
+                type: 'string',
+                description: 'Tag to rename',
+              },
+              to: {
+                type: 'string',
+                description: 'New tag name',
+              },
+              merge: {
+                type: 'boolean',
+                description: 'Merge into the target tag if it already exists (default: false)',
+              },
+            },
+            required: ['from', 'to'],
+          },
+        },
         {
           name: 'list_projects',
           description: `**Show all projects that have saved chat sessions.**
@@ -278,7 +492,7 @@ TRIGGER: "What projects have I chatted about?" or "Show my session projects"`,
         },
         {
           name: 'sync_sessions',
-          description: `Sync sessions from Cursor and/or Claude Code databases to the metadata database.
+          description: `Sync sessions from ${api.getSourceLabel('all')} to the metadata database.
 
 Use when user wants to:
 - "Sync my sessions"
@@ -296,8 +510,8 @@ This will fetch new/updated sessions and make them available for querying.`,
               },
               source: {
                 type: 'string',
-                enum: ['cursor', 'claude', 'all'],
-                description: 'Source to sync from (cursor, claude, or all) (default: all)',
+                enum: sourceEnum,
+                description: `Source to sync from (${sourceNames.join(', ')}, or all) (default: all)`,
               },
               project: {
                 type: 'string',
@@ -306,6 +520,41 @@ This will fetch new/updated sessions and make them available for querying.`,
             },
           },
         },
+        {
+          name: 'prune_sessions',
+          description: `List, purge or restore saved sessions that were deleted from their source (e.g. a chat deleted in Cursor or a removed Claude Code JSONL file).
+
+Use when user wants to:
+- "Which of my sessions were deleted?"
+- "Clean up deleted sessions"
+- "Remove sessions that no longer exist"
+
+Missing sessions are hidden from listings but keep their nicknames and tags until purged.`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              action: {
+                type: 'string',
+                enum: ['list', 'purge', 'restore'],
+                description: 'list missing sessions, purge (delete) them, or restore any that exist again (default: list)',
+              },
+              source: {
+                type: 'string',
+                enum: sourceEnum,
+                description: `Source to check (${sourceNames.join(', ')}, or all) (default: all)`,
+              },
+              sessionIds: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only these missing sessions (default: all)',
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'Report what would be purged or restored without changing anything',
+              },
+            },
+          },
+        },
       ],
     };
   });
@@ -325,6 +574,9 @@ This will fetch new/updated sessions and make them available for querying.`,
         case 'get_session':
           return await handleGetSession(api, args || {});
 
+        case 'get_session_thread':
+          return await handleGetSessionThread(api, args || {});
+
         case 'nickname_current_session':
           return await handleNicknameCurrentSession(api, args || {});
 
@@ -340,12 +592,33 @@ This will fetch new/updated sessions and make them available for querying.`,
         case 'list_tags':
           return await handleListTags(api);
 
+        case 'add_note':
+          return await handleAddNote(api, args || {});
+
+        case 'get_notes':
+          return await handleGetNotes(api, args || {});
+
+        case 'get_bookmarks':
+          return await handleGetBookmarks(api, args || {});
+
+        case 'list_collections':
+          return await handleListCollections(api);
+
+        case 'get_collection':
+          return await handleGetCollection(api, args || {});
+
+        case 'rename_tag':
+          return await handleRenameTag(api, args || {});
+
         case 'list_projects':
           return await handleListProjects(api);
 
         case 'sync_sessions':
           return await handleSyncSessions(api, args || {});
 
+        case 'prune_sessions':
+          return await handlePruneSessions(api, args || {});
+
         default:
           throw new Error(`Unknown tool: ${name}`);
       }
@@ -368,6 +641,28 @@ This will fetch new/updated sessions and make them available for querying.`,
 
   // Log startup (goes to stderr, won't interfere with protocol)
   console.error('Cursor Context MCP Server started');
+
+  // Optional watch mode: keep the metadata DB synced in the background
+  if (isWatchEnabled()) {
+    const watcher = new SessionWatcher(api);
+    watcher.on('sync', event => {
+      if (event.sessionIds.length > 0) {
+        console.error(`Watch: synced ${event.sessionIds.length} session(s) from ${event.source}`);
+      }
+    });
+    watcher.on('error', error => console.error('Watch error:', error.message));
+
+    const watched = await watcher.start();
+    console.error(`Watching ${watched.length} path(s) for session changes`);
+  }
+}
+
+/**
+ * Watch mode is enabled with --watch or CURSOR_CONTEXT_WATCH=1
+ */
+function isWatchEnabled(): boolean {
+  const env = process.env.CURSOR_CONTEXT_WATCH?.toLowerCase();
+  return process.argv.includes('--watch') || env === '1' || env === 'true';
 }
 
 // Handle errors
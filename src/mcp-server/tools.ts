@@ -4,7 +4,7 @@
  * Implementation of each MCP tool using the core library
  */
 
-import { CursorContext, formatSessionMarkdown, formatSessionJSON } from '../core/index.js';
+import { CursorContext, formatSessionMarkdown, formatSessionJSON, formatSearchResults, formatBookmarksMarkdown, formatCollectionQuery, type SessionMetadata, type SessionFilterOptions } from '../core/index.js';
 
 /**
  * List sessions
@@ -16,22 +16,12 @@ export async function handleListSessions(api: CursorContext, args: any) {
     tag: args.tag,
     taggedOnly: args.taggedOnly || false,
     sortBy: args.sort || 'newest',
-    source: (args.source || 'all') as 'cursor' | 'claude' | 'all',
-  });
-
-  // Format as readable text
-  const lines = sessions.map((s, i) => {
-    const nickname = s.nickname || s.session_id;
-    const project = s.project_name || 'no project';
-    const msgs = s.message_count || 0;
-    const tags = s.tags && s.tags.length > 0 ? s.tags.join(', ') : 'no tags';
-    const date = s.created_at ? formatDate(s.created_at) : 'unknown';
-
-    return `${i + 1}. ${nickname} | ${project} | ${msgs} msgs | ${tags} | ${date}`;
+    source: args.source || 'all',
+    ...sessionFilters(args),
   });
 
   const result = sessions.length > 0
-    ? `Found ${sessions.length} session(s):\n\n${lines.join('\n')}`
+    ? `Found ${sessions.length} session(s):\n\n${formatSessionLines(sessions)}`
     : 'No sessions found matching criteria.';
 
   return {
@@ -52,11 +42,14 @@ export async function handleSearchSessions(api: CursorContext, args: any) {
     throw new Error('query is required');
   }
 
-  const results = await api.searchSessions({
+  const { text } = api.parseQuery(args.query);
+  const results = await api.searchWithContext({
     query: args.query,
     projectPath: args.project,
     taggedOnly: args.taggedOnly || false,
     limit: args.limit || 10,
+    contextWindow: args.contextWindow ?? 1,
+    ...sessionFilters(args),
   });
 
   if (results.length === 0) {
@@ -70,19 +63,7 @@ export async function handleSearchSessions(api: CursorContext, args: any) {
     };
   }
 
-  // Format results
-  const lines = results.map((s, i) => {
-    const nickname = s.nickname || s.session_id.substring(0, 8) + '...';
-    const project = s.project_name || 'no project';
-    const preview = s.first_message_preview 
-      ? s.first_message_preview.substring(0, 80) + '...'
-      : 'no preview';
-    const tags = s.tags && s.tags.length > 0 ? ` [${s.tags.join(', ')}]` : '';
-    
-    return `${i + 1}. **${nickname}** (${project})${tags}\n   ID: ${s.session_id}\n   Preview: "${preview}"`;
-  });
-
-  const result = `Found ${results.length} session(s) matching "${args.query}":\n\n${lines.join('\n\n')}`;
+  const result = `Found ${results.length} session(s) matching "${args.query}":\n\n${formatSearchResults(results, text)}`;
 
   return {
     content: [
@@ -106,6 +87,7 @@ export async function handleGetSession(api: CursorContext, args: any) {
     parseOptions: {
       maxContentLength: 100000,
     },
+    includeSubagents: args.includeSubagents || false,
   });
 
   // Limit messages if requested
@@ -117,7 +99,11 @@ export async function handleGetSession(api: CursorContext, args: any) {
   const format = args.format || 'markdown';
   const content = format === 'json'
     ? formatSessionJSON(session)
-    : formatSessionMarkdown(session, { maxMessages: args.maxMessages });
+    : formatSessionMarkdown(session, {
+        maxMessages: args.maxMessages,
+        includeMessageDetails: args.includeDetails || false,
+        includeReasoning: args.includeReasoning || false,
+      });
 
   return {
     content: [
@@ -129,6 +115,51 @@ export async function handleGetSession(api: CursorContext, args: any) {
   };
 }
 
+/**
+ * Get the chain of sessions a session belongs to, in order
+ */
+export async function handleGetSessionThread(api: CursorContext, args: any) {
+  if (!args.idOrNickname) {
+    throw new Error('idOrNickname is required');
+  }
+
+  const thread = await api.getSessionThread(args.idOrNickname);
+  const names = new Map(thread.sessions.map(s => [s.session_id, s.nickname || s.session_id]));
+
+  const outline = thread.sessions.map((session, i) => {
+    const links = thread.links
+      .filter(link => link.from_session_id === session.session_id)
+      .map(link => `${link.type} ${names.get(link.to_session_id)}`);
+    const project = session.project_name ? ` [${session.project_name}]` : '';
+    const created = session.created_at ? `, ${formatDate(session.created_at)}` : '';
+    const relation = links.length > 0 ? ` — ${links.join(', ')}` : '';
+
+    return `${i + 1}. **${names.get(session.session_id)}** (${session.session_id})${project}: ${session.message_count || 0} messages${created}${relation}`;
+  });
+
+  const sections = [`# Session thread (${thread.sessions.length} sessions)\n\n${outline.join('\n')}`];
+
+  if (args.includeMessages) {
+    for (const metadata of thread.sessions) {
+      const session = await api.getSession(metadata.session_id, {
+        parseOptions: {
+          maxContentLength: 100000,
+        },
+      });
+      sections.push(formatSessionMarkdown(session, { maxMessages: args.maxMessages || 20 }));
+    }
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: sections.join('\n\n---\n\n'),
+      },
+    ],
+  };
+}
+
 /**
  * Nickname current session
  */
@@ -248,6 +279,148 @@ export async function handleListTags(api: CursorContext) {
   };
 }
 
+/**
+ * Add a note to a session or message
+ */
+export async function handleAddNote(api: CursorContext, args: any) {
+  if (!args.sessionId || !args.content) {
+    throw new Error('sessionId and content are required');
+  }
+
+  const note = await api.addNote(args.sessionId, args.content, { messageId: args.messageId });
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `✓ Added note ${note.id} to ${note.bubble_id ? `message ${note.bubble_id}` : 'session'} ${note.session_id}`,
+      },
+    ],
+  };
+}
+
+/**
+ * Get the notes on a session
+ */
+export async function handleGetNotes(api: CursorContext, args: any) {
+  if (!args.sessionId) {
+    throw new Error('sessionId is required');
+  }
+
+  const notes = await api.getNotes(args.sessionId);
+
+  if (notes.length === 0) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'No notes found for this session.',
+        },
+      ],
+    };
+  }
+
+  const sections = notes.map(note => {
+    const target = note.bubble_id ? `message ${note.bubble_id}` : 'session';
+    return `### Note ${note.id} (${target}, ${new Date(note.updated_at).toLocaleString()})\n\n${note.content}`;
+  });
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: sections.join('\n\n'),
+      },
+    ],
+  };
+}
+
+/**
+ * Get bookmarked exchanges
+ */
+export async function handleGetBookmarks(api: CursorContext, args: any) {
+  const exchanges = await api.getBookmarks({
+    sessionId: args.sessionId,
+    limit: args.limit || 20,
+  });
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: formatBookmarksMarkdown(exchanges),
+      },
+    ],
+  };
+}
+
+/**
+ * List saved collections
+ */
+export async function handleListCollections(api: CursorContext) {
+  const collections = api.getCollections();
+
+  const lines = collections.map(c => {
+    const description = c.description ? ` - ${c.description}` : '';
+    return `- **${c.name}**${description}\n  Filters: ${formatCollectionQuery(c.query)}`;
+  });
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: collections.length > 0
+          ? `Saved collections (${collections.length}):\n\n${lines.join('\n')}`
+          : 'No saved collections. Create one with: cursor-context collection save <name> [filters]',
+      },
+    ],
+  };
+}
+
+/**
+ * Run a saved collection
+ */
+export async function handleGetCollection(api: CursorContext, args: any) {
+  if (!args.name) {
+    throw new Error('name is required');
+  }
+
+  const { collection, sessions } = await api.runCollection(args.name);
+  const header = `Collection "${collection.name}" (${formatCollectionQuery(collection.query)})`;
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: sessions.length > 0
+          ? `${header} matches ${sessions.length} session(s):\n\n${formatSessionLines(sessions)}`
+          : `${header} matches no sessions.`,
+      },
+    ],
+  };
+}
+
+/**
+ * Rename a tag or merge it into another
+ */
+export async function handleRenameTag(api: CursorContext, args: any) {
+  if (!args.from || !args.to) {
+    throw new Error('from and to are required');
+  }
+
+  const result = args.merge ? api.mergeTags(args.from, args.to) : api.renameTag(args.from, args.to);
+  const lines = result.changes.map(change => `- ${change.from} → ${change.to}`);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `✓ ${args.merge ? 'Merged' : 'Renamed'} ${result.changes.length} tag(s) on ${result.sessions} session(s):\n\n${lines.join('\n')}`,
+      },
+    ],
+  };
+}
+
 /**
  * List all projects
  */
@@ -281,38 +454,134 @@ export async function handleListProjects(api: CursorContext) {
 }
 
 /**
- * Sync sessions from Cursor DB and/or Claude Code to Metadata DB
+ * Sync sessions from the registered session sources to Metadata DB
  */
 export async function handleSyncSessions(api: CursorContext, args: any) {
   const limit = args.limit || undefined; // undefined = sync all
-  const source = (args.source || 'all') as 'cursor' | 'claude' | 'all';
+  const source: string = args.source || 'all';
+  const sourceLabel = api.getSourceLabel(source);
+
+  const report = await api.sync(limit, source);
+  const { totals } = report;
+
+  const sourceLines = report.sources.map(r => {
+    if (r.error) {
+      return `   ${r.label}: could not be read (${r.error.error}: ${r.error.message})`;
+    }
+    const failed = r.failed.length > 0 ? `, ${r.failed.length} failed` : '';
+    const missing = r.missing.length > 0 ? `, ${r.missing.length} missing` : '';
+    return `   ${r.label}: ${r.added.length} new, ${r.updated.length} updated, ${r.unchanged} unchanged${failed}${missing} (${r.durationMs}ms)`;
+  });
+
+  const failures = report.sources.flatMap(r => r.failed).slice(0, 10)
+    .map(f => `   ${f.sessionId}: ${f.error}: ${f.message}`);
 
-  const sourceLabel = source === 'all'
-    ? 'Cursor and Claude Code'
-    : source === 'cursor'
-      ? 'Cursor'
-      : 'Claude Code';
+  let text = `✅ Synced ${totals.added + totals.updated} session(s) from ${sourceLabel} (${totals.added} new, ${totals.updated} updated, ${totals.skippedEmpty} empty skipped)
 
-  const synced = await api.syncSessions(limit, source);
-  const stats = api.getStats();
+📊 By source:
+${sourceLines.join('\n')}`;
+
+  if (failures.length > 0) {
+    text += `\n\n⚠️ Failed sessions:\n${failures.join('\n')}`;
+  }
 
   return {
     content: [
       {
         type: 'text',
-        text: `✅ Synced ${synced} session(s) from ${sourceLabel}
-
-📊 Current Stats:
-   Total sessions in Cursor: ${stats.totalSessionsInCursor || 0}
-   Total sessions with metadata: ${stats.totalSessionsWithMetadata || 0}
-   Sessions with projects: ${stats.sessionsWithProjects || 0}
-   Total projects: ${stats.totalProjects || 0}
-   Total tags: ${stats.totalTags || 0}`,
+        text,
       },
     ],
   };
 }
 
+/**
+ * List, purge or restore sessions deleted from their source
+ */
+export async function handlePruneSessions(api: CursorContext, args: any) {
+  const action: string = args.action || 'list';
+  if (!['list', 'purge', 'restore'].includes(action)) {
+    throw new Error('action must be: list, purge or restore');
+  }
+
+  const source: string = args.source || 'all';
+  await api.syncSessions(undefined, source);
+
+  const result = await api.pruneSessions({
+    source,
+    sessionIds: args.sessionIds,
+    purge: action === 'purge',
+    restore: action === 'restore',
+    dryRun: args.dryRun || false
+  });
+
+  if (result.missing.length === 0) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'No missing sessions.',
+        },
+      ],
+    };
+  }
+
+  const lines = result.missing.map((s, i) => {
+    const name = s.nickname || s.session_id;
+    const project = s.project_name || 'no project';
+    return `${i + 1}. ${name} | ${project} | missing since ${formatDate(s.missing_since!)}`;
+  });
+
+  let summary = `${result.missing.length} session(s) no longer exist in their source. Use action "purge" to delete them or "restore" to re-sync any that have come back.`;
+  if (action === 'purge') {
+    summary = args.dryRun ? `Would purge ${result.purged.length} session(s).` : `Purged ${result.purged.length} session(s).`;
+  } else if (action === 'restore') {
+    summary = `${args.dryRun ? 'Would restore' : 'Restored'} ${result.restored.length} of ${result.missing.length} session(s).`;
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `${summary}\n\n${lines.join('\n')}`,
+      },
+    ],
+  };
+}
+
+/**
+ * Helper to pick the date, size, model and branch filters from tool arguments
+ */
+function sessionFilters(args: any): SessionFilterOptions {
+  return {
+    since: args.since,
+    until: args.until,
+    minMessages: args.minMessages,
+    maxMessages: args.maxMessages,
+    model: args.model,
+    gitBranch: args.branch,
+  };
+}
+
+/**
+ * Helper to format sessions as numbered lines
+ */
+function formatSessionLines(sessions: SessionMetadata[]): string {
+  const lines = sessions.map((s, i) => {
+    const nickname = s.nickname || s.session_id;
+    // Without a nickname, the generated summary says what the session was about
+    const title = !s.nickname && s.summary_title ? ` "${s.summary_title}"` : '';
+    const project = s.project_name || 'no project';
+    const msgs = s.message_count || 0;
+    const tags = s.tags && s.tags.length > 0 ? s.tags.join(', ') : 'no tags';
+    const date = s.created_at ? formatDate(s.created_at) : 'unknown';
+
+    return `${i + 1}. ${nickname}${title} | ${project} | ${msgs} msgs | ${tags} | ${date}`;
+  });
+
+  return lines.join('\n');
+}
+
 /**
  * Helper to format dates
  */
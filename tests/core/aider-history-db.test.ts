@@ -0,0 +1,135 @@
+/**
+ * Tests for the Aider chat history reader and session source
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { AiderHistoryDB, parseAiderHistory } from '../../src/core/aider-history-db.js';
+import { AiderSessionSource } from '../../src/core/session-sources.js';
+import { CursorContext } from '../../src/core/api.js';
+import { getAiderRoots } from '../../src/core/platform.js';
+
+const TRANSCRIPT = `
+# aider chat started at 2024-05-01 10:23:45
+
+> /usr/local/bin/aider --model gpt-4o
+> Aider v0.50.1
+> Git repo: .git with 42 files
+
+#### add a retry to the fetch call
+#### and log each attempt
+
+Sure, here is the change:
+
+src/fetch.ts
+<<<<<<< SEARCH
+=======
+>>>>>>> REPLACE
+
+> Applied edit to src/fetch.ts
+> Commit abc1234 feat: Retry fetch calls
+
+# aider chat started at 2024-05-02 09:00:00
+
+#### /ask what does the retry policy do?
+
+It retries three times with exponential backoff.
+`;
+
+describe('Aider History', () => {
+  describe('parseAiderHistory', () => {
+    it('should split the transcript into sessions and turns', () => {
+      const sessions = parseAiderHistory(TRANSCRIPT);
+
+      expect(sessions).toHaveLength(2);
+      expect(sessions[0]?.messages.map(m => m.role)).toEqual(['tool', 'user', 'assistant', 'tool']);
+      expect(sessions[0]?.messages[1]?.content).toBe('add a retry to the fetch call\nand log each attempt');
+      expect(sessions[0]?.messages[2]?.content).toContain('<<<<<<< SEARCH');
+      expect(sessions[1]?.messages[1]?.content).toBe('It retries three times with exponential backoff.');
+      expect(sessions[1]?.startedAt).toBe(new Date('2024-05-02T09:00:00').getTime());
+    });
+
+    it('should ignore text before the first session header', () => {
+      expect(parseAiderHistory('#### orphaned\n\nreply')).toEqual([]);
+    });
+  });
+
+  describe('AiderHistoryDB', () => {
+    let root: string;
+    let repo: string;
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'aider-root-'));
+      repo = path.join(root, 'code', 'fetcher');
+      fs.mkdirSync(path.join(repo, '.git'), { recursive: true });
+      fs.writeFileSync(path.join(repo, '.aider.chat.history.md'), TRANSCRIPT);
+
+      // Transcripts inside skipped directories are ignored
+      fs.mkdirSync(path.join(root, 'node_modules', 'pkg'), { recursive: true });
+      fs.writeFileSync(path.join(root, 'node_modules', 'pkg', '.aider.chat.history.md'), TRANSCRIPT);
+    });
+
+    afterEach(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should find transcripts under the roots and use the repo as project', () => {
+      const db = new AiderHistoryDB([root]);
+      const sessions = db.getAllSessions();
+
+      expect(db.findHistoryFiles()).toEqual([path.join(repo, '.aider.chat.history.md')]);
+      expect(sessions).toHaveLength(2);
+      expect(sessions[0]?.projectPath).toBe(repo);
+      expect(sessions[0]?.lastUpdatedAt).toBe(sessions[1]?.startedAt);
+    });
+
+    it('should keep session IDs stable across reads', () => {
+      const first = new AiderHistoryDB([root]).getSessionTimestamps();
+      const second = new AiderHistoryDB([root]).getSessionTimestamps();
+
+      expect(Array.from(first.keys())).toEqual(Array.from(second.keys()));
+    });
+
+    it('should respect the scan depth', () => {
+      expect(new AiderHistoryDB([root], 1).findHistoryFiles()).toEqual([]);
+    });
+
+    it('should only scan the directories set in CURSOR_CONTEXT_AIDER_ROOTS', () => {
+      const configured = process.env.CURSOR_CONTEXT_AIDER_ROOTS;
+
+      try {
+        delete process.env.CURSOR_CONTEXT_AIDER_ROOTS;
+        expect(getAiderRoots()).toEqual([]);
+        expect(new AiderHistoryDB().findHistoryFiles()).toEqual([]);
+
+        process.env.CURSOR_CONTEXT_AIDER_ROOTS = [root, path.join(root, 'other')].join(path.delimiter);
+        expect(getAiderRoots()).toEqual([root, path.join(root, 'other')]);
+        expect(new AiderHistoryDB().findHistoryFiles()).toHaveLength(1);
+      } finally {
+        if (configured === undefined) {
+          delete process.env.CURSOR_CONTEXT_AIDER_ROOTS;
+        } else {
+          process.env.CURSOR_CONTEXT_AIDER_ROOTS = configured;
+        }
+      }
+    });
+
+    it('should sync Aider sessions with an aider: prefix', async () => {
+      const metadataDBPath = path.join(root, 'metadata.db');
+      const api = new CursorContext(path.join(root, 'missing-cursor.vscdb'), metadataDBPath, false);
+      api.registerSource(new AiderSessionSource(new AiderHistoryDB([root])));
+
+      try {
+        expect(await api.syncSessions(undefined, 'aider')).toBe(2);
+
+        const sessions = await api.listSessions({ source: 'aider' });
+        expect(sessions.every(s => s.session_id.startsWith('aider:'))).toBe(true);
+        expect(sessions[0]?.project_name).toBe('fetcher');
+      } finally {
+        api.close();
+      }
+    });
+  });
+});
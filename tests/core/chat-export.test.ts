@@ -0,0 +1,140 @@
+/**
+ * Tests for importing ChatGPT and claude.ai data exports
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { parseConversationsExport, detectExportProvider } from '../../src/core/chat-export.js';
+import { CursorContext } from '../../src/core/api.js';
+import { DataCorruptionError } from '../../src/core/errors.js';
+
+function chatGPTNode(id: string, parent: string | null, children: string[], role?: string, text?: string, createTime = 1700000000) {
+  return {
+    id,
+    parent,
+    children,
+    message: role ? {
+      id,
+      author: { role },
+      create_time: createTime,
+      content: { content_type: 'text', parts: [text] },
+      metadata: {}
+    } : null
+  };
+}
+
+const CHATGPT_EXPORT = [
+  {
+    conversation_id: 'c-1',
+    title: 'Rate limiter design',
+    create_time: 1700000000,
+    update_time: 1700000300.5,
+    current_node: 'a2',
+    mapping: {
+      root: chatGPTNode('root', null, ['sys']),
+      sys: chatGPTNode('sys', 'root', ['u1'], 'system', 'You are ChatGPT'),
+      u1: chatGPTNode('u1', 'sys', ['a1', 'a2'], 'user', 'How should the token bucket refill?'),
+      // Regenerated answer: a1 is the abandoned branch
+      a1: chatGPTNode('a1', 'u1', [], 'assistant', 'Abandoned answer'),
+      a2: chatGPTNode('a2', 'u1', [], 'assistant', 'Refill lazily on each request.')
+    }
+  }
+];
+
+const CLAUDE_EXPORT = [
+  {
+    uuid: 'k-1',
+    name: 'Schema review',
+    created_at: '2024-03-01T10:00:00Z',
+    updated_at: '2024-03-01T10:10:00Z',
+    chat_messages: [
+      { uuid: 'm1', sender: 'human', text: 'Review this schema', created_at: '2024-03-01T10:00:00Z', content: [] },
+      {
+        uuid: 'm2', sender: 'assistant', text: '', created_at: '2024-03-01T10:01:00Z',
+        content: [
+          { type: 'text', text: 'Checking the docs.' },
+          { type: 'tool_use', name: 'web_search', input: { query: 'postgres partial index' } },
+          { type: 'text', text: 'Add a partial index on active rows.' }
+        ]
+      }
+    ]
+  }
+];
+
+describe('Chat Export Import', () => {
+  describe('parseConversationsExport', () => {
+    it('should follow the active ChatGPT branch and skip system messages', () => {
+      const [conversation] = parseConversationsExport(CHATGPT_EXPORT);
+
+      expect(conversation?.provider).toBe('chatgpt');
+      expect(conversation?.updatedAt).toBe(1700000300500);
+      expect(conversation?.messages.map(m => m.content)).toEqual([
+        'How should the token bucket refill?',
+        'Refill lazily on each request.'
+      ]);
+    });
+
+    it('should fall back to the newest leaf without current_node', () => {
+      const mapping = { ...CHATGPT_EXPORT[0]!.mapping, a1: chatGPTNode('a1', 'u1', [], 'assistant', 'Newer answer', 1700000900) };
+      const [conversation] = parseConversationsExport([{ ...CHATGPT_EXPORT[0], current_node: undefined, mapping }]);
+
+      expect(conversation?.messages[1]?.content).toBe('Newer answer');
+    });
+
+    it('should split claude.ai messages around tool use', () => {
+      const [conversation] = parseConversationsExport(CLAUDE_EXPORT);
+
+      expect(conversation?.provider).toBe('claude');
+      expect(conversation?.messages.map(m => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+      expect(conversation?.messages[2]?.toolData).toEqual({ name: 'web_search', params: { query: 'postgres partial index' } });
+    });
+
+    it('should reject unknown formats', () => {
+      expect(() => detectExportProvider({ conversations: [] })).toThrow(DataCorruptionError);
+    });
+  });
+
+  describe('CursorContext.importExport', () => {
+    let dir: string;
+    let api: CursorContext;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chat-export-'));
+      fs.writeFileSync(path.join(dir, 'conversations.json'), JSON.stringify(CHATGPT_EXPORT));
+      fs.writeFileSync(path.join(dir, 'claude.json'), JSON.stringify(CLAUDE_EXPORT));
+      api = new CursorContext(path.join(dir, 'missing-cursor.vscdb'), path.join(dir, 'metadata.db'), false);
+    });
+
+    afterEach(() => {
+      api.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should import conversations as searchable import: sessions', async () => {
+      const result = await api.importExport(dir, { projectRules: [{ pattern: 'rate limit', projectPath: '/work/gateway' }] });
+
+      expect(result).toMatchObject({ provider: 'chatgpt', total: 1, added: 1, sessionIds: ['import:chatgpt-c-1'] });
+
+      const session = await api.getSession('import:chatgpt-c-1');
+      expect(session.metadata.project_name).toBe('gateway');
+      expect(session.messages).toHaveLength(2);
+
+      const results = await api.searchSessions({ query: 'lazily' });
+      expect(results.map(s => s.session_id)).toEqual(['import:chatgpt-c-1']);
+    });
+
+    it('should skip unchanged conversations and keep the assigned project on re-import', async () => {
+      await api.importExport(path.join(dir, 'claude.json'), { projectPath: '/work/db' });
+      const again = await api.importExport(path.join(dir, 'claude.json'));
+
+      expect(again).toMatchObject({ provider: 'claude', added: 0, updated: 0, unchanged: 1 });
+      expect((await api.getSession('import:claude-k-1')).metadata.project_path).toBe('/work/db');
+    });
+
+    it('should fail for missing export files', async () => {
+      await expect(api.importExport(path.join(dir, 'nope.json'))).rejects.toThrow(/Export file not found/);
+    });
+  });
+});
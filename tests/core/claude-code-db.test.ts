@@ -0,0 +1,321 @@
+/**
+ * Tests for ClaudeCodeDB and its file index
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ClaudeCodeDB } from '../../src/core/claude-code-db.js';
+import { ClaudeFileIndex } from '../../src/core/claude-file-index.js';
+import { claudeToUnified } from '../../src/core/format-adapters.js';
+import { ClaudeCodeSessionSource } from '../../src/core/session-sources.js';
+import { CursorContext } from '../../src/core/api.js';
+
+function line(sessionId: string, type: 'user' | 'assistant', text: string, timestamp: string): string {
+  return JSON.stringify({
+    sessionId,
+    type,
+    cwd: '/work/app',
+    timestamp,
+    uuid: `${sessionId}-${timestamp}`,
+    parentUuid: null,
+    message: { role: type, content: text }
+  }) + '\n';
+}
+
+describe('ClaudeCodeDB', () => {
+  let tmpDir: string;
+  let projectsPath: string;
+  let projectDir: string;
+  let indexPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cursor-context-claude-'));
+    projectsPath = path.join(tmpDir, 'projects');
+    projectDir = path.join(projectsPath, '-work-app');
+    indexPath = path.join(tmpDir, 'claude-file-index.json');
+    fs.mkdirSync(projectDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should read session metadata and messages', () => {
+    fs.writeFileSync(path.join(projectDir, 'abc.jsonl'),
+      line('abc', 'user', 'Fix the login bug', '2025-01-01T10:00:00.000Z') +
+      line('abc', 'assistant', 'Done.', '2025-01-01T10:05:00.000Z'));
+
+    const db = new ClaudeCodeDB(projectsPath, indexPath);
+    const [session] = db.getAllSessions();
+
+    expect(session).toMatchObject({
+      sessionId: 'abc',
+      projectPath: '/work/app',
+      projectName: 'app',
+      messageCount: 2,
+      createdAt: Date.parse('2025-01-01T10:00:00.000Z'),
+      lastAccessedAt: Date.parse('2025-01-01T10:05:00.000Z'),
+      firstMessagePreview: 'Fix the login bug'
+    });
+    expect(db.getSessionMessages('abc')).toHaveLength(2);
+    expect(db.hasSession('missing')).toBe(false);
+  });
+
+  it('should emit every tool call with its result', () => {
+    const record = (type: 'user' | 'assistant', uuid: string, content: unknown[]) => JSON.stringify({
+      sessionId: 'tools', type, cwd: '/work/app', timestamp: '2025-01-01T10:00:00.000Z', uuid, parentUuid: null,
+      message: { role: type, content }
+    }) + '\n';
+
+    fs.writeFileSync(path.join(projectDir, 'tools.jsonl'),
+      line('tools', 'user', 'Run the tests', '2025-01-01T09:59:00.000Z') +
+      record('assistant', 'a1', [
+        { type: 'text', text: 'Reading the config first.' },
+        { type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: 'vitest.config.ts' } },
+        { type: 'tool_use', id: 'toolu_2', name: 'Bash', input: { command: 'npm test' } }
+      ]) +
+      record('user', 'u1', [
+        { type: 'tool_result', tool_use_id: 'toolu_2', content: 'exit code 1', is_error: true },
+        { type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: 'export default {}' }] }
+      ]));
+
+    const messages = claudeToUnified(new ClaudeCodeDB(projectsPath, indexPath).getSessionMessages('tools'));
+
+    expect(messages.map(m => [m.role, m.bubbleId])).toEqual([
+      ['user', 'tools-2025-01-01T09:59:00.000Z'],
+      ['assistant', 'a1'],
+      ['tool', 'a1:toolu_1'],
+      ['tool', 'a1:toolu_2']
+    ]);
+    expect(messages[2]?.toolData).toEqual({ name: 'Read', params: { file_path: 'vitest.config.ts' }, result: 'export default {}' });
+    expect(messages[3]?.toolData).toEqual({ name: 'Bash', params: { command: 'npm test' }, result: 'exit code 1', isError: true });
+  });
+
+  it('should keep model, usage, branch and reasoning per message', () => {
+    const response = (uuid: string, content: unknown[], outputTokens: number) => JSON.stringify({
+      sessionId: 'meta', type: 'assistant', cwd: '/work/app', gitBranch: 'feature/login',
+      timestamp: '2025-01-01T10:00:00.000Z', uuid, parentUuid: null,
+      message: {
+        id: 'msg_1', role: 'assistant', model: 'claude-sonnet-4-5', content,
+        usage: { input_tokens: 12, output_tokens: outputTokens, cache_read_input_tokens: 3000 }
+      }
+    }) + '\n';
+
+    fs.writeFileSync(path.join(projectDir, 'meta.jsonl'),
+      line('meta', 'user', 'Why does login fail?', '2025-01-01T09:59:00.000Z') +
+      response('a1', [{ type: 'thinking', thinking: 'Check the session cookie first.' }], 5) +
+      response('a2', [{ type: 'text', text: 'The cookie expires too early.' }], 40) +
+      response('a3', [{ type: 'tool_use', id: 'toolu_1', name: 'Read', input: {} }], 80));
+
+    const [question, answer, tool] = claudeToUnified(new ClaudeCodeDB(projectsPath, indexPath).getSessionMessages('meta'));
+
+    expect(question?.model).toBeUndefined();
+    expect(answer).toMatchObject({
+      bubbleId: 'a2',
+      model: 'claude-sonnet-4-5',
+      gitBranch: 'feature/login',
+      reasoning: 'Check the session cookie first.',
+      usage: { inputTokens: 12, outputTokens: 80, cacheReadTokens: 3000 }
+    });
+    expect(tool).toMatchObject({ model: 'claude-sonnet-4-5', gitBranch: 'feature/login' });
+    expect(tool?.usage).toBeUndefined();
+    expect(tool?.reasoning).toBeUndefined();
+  });
+
+  it('should split subagent conversations off the main conversation', () => {
+    const record = (uuid: string, parentUuid: string | null, type: 'user' | 'assistant', content: unknown, isSidechain = false) =>
+      JSON.stringify({
+        sessionId: 'agents', type, cwd: '/work/app', timestamp: '2025-01-01T10:00:00.000Z',
+        uuid, parentUuid, isSidechain, message: { role: type, content }
+      }) + '\n';
+    const prompt = 'Find where login errors are handled';
+
+    fs.writeFileSync(path.join(projectDir, 'agents.jsonl'),
+      record('m1', null, 'user', 'Why does login fail?') +
+      record('m2', 'm1', 'assistant', [
+        { type: 'tool_use', id: 'toolu_task', name: 'Task', input: { description: 'Find login errors', subagent_type: 'general-purpose', prompt } }
+      ]) +
+      record('s1', null, 'user', prompt, true) +
+      record('s2', 's1', 'assistant', [{ type: 'text', text: 'In auth/login.ts.' }], true) +
+      record('m3', 'm2', 'user', [{ type: 'tool_result', tool_use_id: 'toolu_task', content: 'In auth/login.ts.' }]) +
+      record('m4', 'm3', 'assistant', [{ type: 'text', text: 'The handler swallows the error.' }]));
+
+    const db = new ClaudeCodeDB(projectsPath, indexPath);
+    const transcript = db.getSessionTranscript('agents');
+
+    expect(transcript.main.map(m => m.uuid)).toEqual(['m1', 'm2', 'm3', 'm4']);
+    expect(transcript.sidechains.map(thread => thread.map(m => m.uuid))).toEqual([['s1', 's2']]);
+    expect(db.getSessionMessages('agents')).toHaveLength(4);
+
+    const source = new ClaudeCodeSessionSource(db);
+    expect(source.getMessages('agents').map(m => m.content)).not.toContain('In auth/login.ts.');
+    expect(source.getSubConversations('agents')).toEqual([{
+      parentBubbleId: 'm2',
+      description: 'Find login errors',
+      agentType: 'general-purpose',
+      messages: [
+        { role: 'user', content: prompt, bubbleId: 's1', timestamp: '2025-01-01T10:00:00.000Z' },
+        expect.objectContaining({ role: 'assistant', content: 'In auth/login.ts.', bubbleId: 's2' })
+      ]
+    }]);
+  });
+
+  it('should mark compactions and keep the latest summary', () => {
+    const record = (fields: Record<string, unknown>) => JSON.stringify({
+      sessionId: 'long', cwd: '/work/app', timestamp: '2025-01-01T10:00:00.000Z', parentUuid: null, ...fields
+    }) + '\n';
+
+    fs.writeFileSync(path.join(projectDir, 'long.jsonl'),
+      JSON.stringify({ type: 'summary', summary: 'Login debugging', leafUuid: 'm2' }) + '\n' +
+      record({ uuid: 'm1', type: 'user', message: { role: 'user', content: 'Why does login fail?' } }) +
+      record({ uuid: 'm2', parentUuid: 'm1', type: 'assistant', message: { role: 'assistant', content: [{ type: 'text', text: 'The cookie expires.' }] } }) +
+      record({ uuid: 'c1', logicalParentUuid: 'm2', type: 'system', subtype: 'compact_boundary', compactMetadata: { trigger: 'auto', preTokens: 155000 } }) +
+      record({ uuid: 'c2', parentUuid: 'c1', type: 'user', isCompactSummary: true, message: { role: 'user', content: 'We found the cookie bug.' } }) +
+      record({ uuid: 'm3', parentUuid: 'c2', type: 'user', message: { role: 'user', content: 'Now fix it' } }) +
+      JSON.stringify({ type: 'summary', summary: 'Fix login cookie expiry', leafUuid: 'm3' }) + '\n');
+
+    const db = new ClaudeCodeDB(projectsPath, indexPath);
+    expect(db.getAllSessions()[0]).toMatchObject({ firstMessagePreview: 'Why does login fail?', summary: 'Fix login cookie expiry' });
+
+    const messages = claudeToUnified(db.getSessionMessages('long'));
+    expect(messages.map(m => m.content)).toEqual(['Why does login fail?', 'The cookie expires.', 'Now fix it']);
+    expect(messages[2]?.boundary).toEqual({ type: 'compaction', trigger: 'auto', preTokens: 155000, summary: 'We found the cookie bug.' });
+    expect(new ClaudeCodeSessionSource(db).loadSession('long')?.summaryTitle).toBe('Fix login cookie expiry');
+  });
+
+  it('should stitch resumed sessions into one', () => {
+    const record = (sessionId: string, uuid: string, parentUuid: string | null, type: 'user' | 'assistant', text: string, timestamp: string) =>
+      JSON.stringify({ sessionId, type, cwd: '/work/app', timestamp, uuid, parentUuid, message: { role: type, content: text } }) + '\n';
+
+    fs.writeFileSync(path.join(projectDir, 'first.jsonl'),
+      record('first', 'a1', null, 'user', 'Start the migration', '2025-01-01T10:00:00.000Z') +
+      record('first', 'a2', 'a1', 'assistant', 'Step one done.', '2025-01-01T10:05:00.000Z'));
+    fs.writeFileSync(path.join(projectDir, 'second.jsonl'),
+      record('second', 'b1', 'a2', 'user', 'Continue', '2025-01-02T09:00:00.000Z') +
+      record('second', 'b2', 'b1', 'assistant', 'Step two done.', '2025-01-02T09:10:00.000Z'));
+    fs.writeFileSync(path.join(projectDir, 'other.jsonl'), line('other', 'user', 'Unrelated', '2025-01-03T10:00:00.000Z'));
+
+    const db = new ClaudeCodeDB(projectsPath, indexPath);
+    const sessions = db.getAllSessions();
+
+    expect(sessions.map(s => s.sessionId)).toEqual(['first', 'other']);
+    expect(sessions[0]).toMatchObject({
+      messageCount: 4,
+      createdAt: Date.parse('2025-01-01T10:00:00.000Z'),
+      lastAccessedAt: Date.parse('2025-01-02T09:10:00.000Z'),
+      resumedSessionIds: ['second']
+    });
+
+    // Either ID reads the whole conversation, re-checking only the session's own files
+    const refresh = vi.spyOn(ClaudeFileIndex.prototype, 'refresh');
+    const messages = claudeToUnified(db.getSessionMessages('second'));
+    expect(messages.map(m => m.bubbleId)).toEqual(['a1', 'a2', 'b1', 'b2']);
+    expect(messages[2]?.boundary).toEqual({ type: 'resume', sessionId: 'second' });
+    expect(refresh.mock.calls.map(([file]) => path.basename(file))).toEqual(['first.jsonl', 'second.jsonl']);
+    refresh.mockRestore();
+  });
+
+  it('should keep resumed sessions under their first ID when syncing', async () => {
+    const record = (sessionId: string, uuid: string, parentUuid: string | null, type: 'user' | 'assistant', text: string, timestamp: string) =>
+      JSON.stringify({ sessionId, type, cwd: '/work/app', timestamp, uuid, parentUuid, message: { role: type, content: text } }) + '\n';
+    const second = (parentUuid: string | null) =>
+      record('second', 'b1', parentUuid, 'user', 'Continue', '2025-01-02T09:00:00.000Z') +
+      record('second', 'b2', 'b1', 'assistant', 'Step two done.', '2025-01-02T09:10:00.000Z');
+
+    fs.writeFileSync(path.join(projectDir, 'first.jsonl'),
+      record('first', 'a1', null, 'user', 'Start the migration', '2025-01-01T10:00:00.000Z') +
+      record('first', 'a-last', 'a1', 'assistant', 'Step one done.', '2025-01-01T10:05:00.000Z'));
+    // Stored on its own, as before resumed sessions were stitched together
+    fs.writeFileSync(path.join(projectDir, 'second.jsonl'), second(null));
+
+    const open = () => new CursorContext(path.join(tmpDir, 'missing-cursor.vscdb'), path.join(tmpDir, 'metadata.db'), false, 100000, projectsPath);
+    const before = open();
+    await before.syncSessions(undefined, 'claude');
+    await before.setNickname('claude:second', 'migration');
+    await before.addNote('claude:second', 'Step two needs a rollback plan');
+    before.close();
+
+    // Upgrading discards the file index (its format changed)
+    fs.writeFileSync(path.join(projectDir, 'second.jsonl'), second('a-last'));
+    fs.rmSync(path.join(tmpDir, 'claude-file-index.json'));
+
+    const api = open();
+    try {
+      const report = await api.sync(undefined, 'claude');
+
+      expect(report.sources[0]?.missing).toEqual([]);
+      const sessions = await api.listSessions({ source: 'claude', includeMissing: true });
+      expect(sessions.map(s => [s.session_id, s.nickname])).toEqual([['claude:first', 'migration']]);
+      const session = await api.getSession('migration');
+      expect(session.messages).toHaveLength(4);
+      expect(session.notes.map(n => n.content)).toEqual(['Step two needs a rollback plan']);
+
+      // The continuation file's ID and its file changes lead to the first session
+      const source = api.getSources().find(s => s.name === 'claude')!;
+      expect(source.sessionIdFromPath?.('-work-app/second.jsonl')).toBe('first');
+      await api.addTag('claude:second', 'db');
+      expect((await api.getSession('migration', { includeMessages: false })).metadata.tags).toEqual(['db']);
+    } finally {
+      api.close();
+    }
+  });
+
+  it('should only parse bytes appended since the last sync', () => {
+    const file = path.join(projectDir, 'abc.jsonl');
+    fs.writeFileSync(file, line('abc', 'user', 'Start', '2025-01-01T10:00:00.000Z'));
+
+    const index = new ClaudeFileIndex();
+    const first = index.refresh(file, '-work-app')!;
+    expect(first.offset).toBe(fs.statSync(file).size);
+
+    // Corrupt the already-parsed bytes: an incremental read never looks at them again
+    const original = fs.readFileSync(file);
+    fs.writeFileSync(file, Buffer.concat([Buffer.alloc(original.length, 0x20), Buffer.from(line('abc', 'assistant', 'More', '2025-01-01T11:00:00.000Z'))]));
+
+    const second = index.refresh(file, '-work-app')!;
+    expect(second.messageCount).toBe(2);
+    expect(second.firstMessagePreview).toBe('Start');
+    expect(second.lastAccessedAt).toBe(Date.parse('2025-01-01T11:00:00.000Z'));
+  });
+
+  it('should not consume a partially written last line', () => {
+    const file = path.join(projectDir, 'abc.jsonl');
+    const complete = line('abc', 'user', 'Start', '2025-01-01T10:00:00.000Z');
+    const next = line('abc', 'assistant', 'Reply', '2025-01-01T10:01:00.000Z');
+    fs.writeFileSync(file, complete + next.substring(0, 20));
+
+    const index = new ClaudeFileIndex();
+    expect(index.refresh(file, '-work-app')).toMatchObject({ messageCount: 1, offset: Buffer.byteLength(complete) });
+
+    fs.appendFileSync(file, next.substring(20));
+    expect(index.refresh(file, '-work-app')?.messageCount).toBe(2);
+  });
+
+  it('should persist the index and resolve sessions without scanning', () => {
+    fs.writeFileSync(path.join(projectDir, 'abc.jsonl'), line('abc', 'user', 'Hello', '2025-01-01T10:00:00.000Z'));
+
+    const db = new ClaudeCodeDB(projectsPath, indexPath);
+    db.getSessionTimestamps();
+    db.close();
+
+    const saved = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+    expect(Object.keys(saved.entries)).toEqual([path.join(projectDir, 'abc.jsonl')]);
+
+    const index = new ClaudeFileIndex(indexPath);
+    expect(index.findFile('abc')).toBe(path.join(projectDir, 'abc.jsonl'));
+  });
+
+  it('should drop deleted files from the index', () => {
+    const file = path.join(projectDir, 'abc.jsonl');
+    fs.writeFileSync(file, line('abc', 'user', 'Hello', '2025-01-01T10:00:00.000Z'));
+
+    const db = new ClaudeCodeDB(projectsPath, indexPath);
+    expect(db.getAllSessions()).toHaveLength(1);
+
+    fs.unlinkSync(file);
+    expect(db.getAllSessions()).toHaveLength(0);
+    expect(db.hasSession('abc')).toBe(false);
+  });
+});
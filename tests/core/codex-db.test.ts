@@ -0,0 +1,113 @@
+/**
+ * Tests for the Codex CLI rollout reader
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { CodexDB } from '../../src/core/codex-db.js';
+import { codexToUnified } from '../../src/core/format-adapters.js';
+import { CodexSessionSource } from '../../src/core/session-sources.js';
+
+const SESSION_ID = '5973b6c0-94b8-487b-a530-2aeb6098ae0e';
+
+function line(timestamp: string, type: string, payload: Record<string, unknown>): string {
+  return JSON.stringify({ timestamp, type, payload });
+}
+
+describe('CodexDB', () => {
+  let sessionsPath: string;
+
+  beforeEach(() => {
+    sessionsPath = fs.mkdtempSync(path.join(os.tmpdir(), 'codex-sessions-'));
+    const dayDir = path.join(sessionsPath, '2025', '05', '07');
+    fs.mkdirSync(dayDir, { recursive: true });
+
+    fs.writeFileSync(path.join(dayDir, `rollout-2025-05-07T17-24-21-${SESSION_ID}.jsonl`), [
+      line('2025-05-07T17:24:21.000Z', 'session_meta', { id: SESSION_ID, cwd: '/home/me/code/parser', cli_version: '0.40.0' }),
+      line('2025-05-07T17:24:22.000Z', 'response_item', {
+        type: 'message', role: 'user',
+        content: [{ type: 'input_text', text: '<environment_context>\n  <cwd>/home/me/code/parser</cwd>\n</environment_context>' }]
+      }),
+      line('2025-05-07T17:24:23.000Z', 'response_item', {
+        type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Why does the tokenizer drop tabs?' }]
+      }),
+      line('2025-05-07T17:24:25.000Z', 'response_item', {
+        type: 'function_call', name: 'shell', call_id: 'call_1',
+        arguments: JSON.stringify({ command: ['rg', 'tab', 'src'], workdir: '/home/me/code/parser' })
+      }),
+      line('2025-05-07T17:24:26.000Z', 'response_item', {
+        type: 'function_call_output', call_id: 'call_1',
+        output: JSON.stringify({ output: 'src/lexer.ts:12: skip tab', metadata: { exit_code: 0 } })
+      }),
+      line('2025-05-07T17:24:30.000Z', 'response_item', {
+        type: 'message', role: 'assistant', content: [{ type: 'output_text', text: 'The lexer skips them on line 12.' }]
+      }),
+      'not json'
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(sessionsPath, { recursive: true, force: true });
+  });
+
+  it('should list sessions with cwd-based project detection', () => {
+    const sessions = new CodexDB(sessionsPath).getAllSessions();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({
+      sessionId: SESSION_ID,
+      projectPath: '/home/me/code/parser',
+      projectName: 'parser',
+      messageCount: 3,
+      firstMessagePreview: 'Why does the tokenizer drop tabs?',
+      lastAccessedAt: Date.parse('2025-05-07T17:24:30.000Z')
+    });
+  });
+
+  it('should convert tool calls to ToolInfo with their output', () => {
+    const messages = codexToUnified(new CodexDB(sessionsPath).getSessionMessages(SESSION_ID));
+
+    expect(messages.map(m => m.role)).toEqual(['user', 'tool', 'assistant']);
+    expect(messages[1]?.toolData).toEqual({
+      name: 'shell',
+      params: { command: ['rg', 'tab', 'src'], workdir: '/home/me/code/parser' },
+      result: 'src/lexer.ts:12: skip tab'
+    });
+  });
+
+  it('should read legacy rollout files without payload wrappers', () => {
+    const legacyId = '11111111-2222-3333-4444-555555555555';
+    fs.writeFileSync(path.join(sessionsPath, `rollout-2025-04-01-${legacyId}.jsonl`), [
+      JSON.stringify({ id: legacyId, timestamp: '2025-04-01T08:00:00.000Z', instructions: null }),
+      JSON.stringify({ record_type: 'state' }),
+      JSON.stringify({ type: 'message', role: 'user', content: [{ type: 'input_text', text: 'hello' }] })
+    ].join('\n'));
+
+    const source = new CodexSessionSource(new CodexDB(sessionsPath));
+    const session = source.loadSession(legacyId);
+
+    expect(session?.messages.map(m => m.content)).toEqual(['hello']);
+    expect(session?.createdAt).toBe(Date.parse('2025-04-01T08:00:00.000Z'));
+    expect(Array.from(source.getSessionTimestamps().keys())).toContain(legacyId);
+  });
+
+  it('should load listed sessions without walking the sessions directory', () => {
+    const source = new CodexSessionSource(new CodexDB(sessionsPath));
+    source.getSessionTimestamps();
+    const walk = vi.spyOn(CodexDB.prototype as any, 'getRolloutFiles');
+
+    try {
+      expect(source.hasSession(SESSION_ID)).toBe(true);
+      expect(source.loadSession(SESSION_ID)?.messages).toHaveLength(3);
+      expect(walk).not.toHaveBeenCalled();
+    } finally {
+      walk.mockRestore();
+    }
+  });
+
+  it('should return no sessions when Codex is not installed', () => {
+    expect(new CodexDB(path.join(sessionsPath, 'missing')).getAllSessions()).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for the Copilot Chat reader and session source
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { CopilotChatDB } from '../../src/core/copilot-chat-db.js';
+import { copilotToUnified } from '../../src/core/format-adapters.js';
+import { CursorContext } from '../../src/core/api.js';
+import { DataCorruptionError } from '../../src/core/errors.js';
+
+describe('CopilotChatDB', () => {
+  let userDataPath: string;
+
+  beforeEach(() => {
+    userDataPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vscode-user-'));
+
+    const workspaceDir = path.join(userDataPath, 'workspaceStorage', 'f00d');
+    fs.mkdirSync(path.join(workspaceDir, 'chatSessions'), { recursive: true });
+    fs.writeFileSync(path.join(workspaceDir, 'workspace.json'), JSON.stringify({ folder: 'file:///home/me/code/billing' }));
+
+    fs.writeFileSync(path.join(workspaceDir, 'chatSessions', 'chat-1.json'), JSON.stringify({
+      version: 3,
+      sessionId: 'chat-1',
+      creationDate: 1710000000000,
+      lastMessageDate: 1710000600000,
+      requests: [
+        {
+          requestId: 'request_1',
+          timestamp: 1710000000000,
+          message: { text: 'How are invoices rounded?' },
+          response: [
+            { value: 'Rounding happens in ' },
+            { kind: 'inlineReference', inlineReference: { uri: { path: '/home/me/code/billing/src/money.ts' } } },
+            { value: '.' },
+            { kind: 'toolInvocationSerialized', toolId: 'copilot_readFile', invocationMessage: { value: 'Reading money.ts' }, pastTenseMessage: { value: 'Read money.ts' } },
+            { kind: 'markdownContent', content: { value: 'It uses banker\'s rounding.' } }
+          ]
+        }
+      ]
+    }));
+
+    // Workspace without chat sessions
+    fs.mkdirSync(path.join(userDataPath, 'workspaceStorage', 'beef'), { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(userDataPath, { recursive: true, force: true });
+  });
+
+  it('should discover session files and map them to their workspace folder', () => {
+    const db = new CopilotChatDB(userDataPath);
+
+    expect(Array.from(db.getSessionTimestamps().keys())).toEqual(['chat-1']);
+    expect(db.getSession('chat-1')?.workspaceFolder).toBe('/home/me/code/billing');
+    expect(db.getSession('missing')).toBeNull();
+  });
+
+  it('should look up listed sessions without listing every workspace again', () => {
+    const db = new CopilotChatDB(userDataPath);
+    db.getSessionTimestamps();
+    const list = vi.spyOn(db, 'listSessionFiles');
+
+    expect(db.hasSession('chat-1')).toBe(true);
+    expect(db.getSession('chat-1')?.requests).toHaveLength(1);
+    expect(list).not.toHaveBeenCalled();
+
+    // Sessions started after the listing are still found
+    fs.copyFileSync(
+      path.join(userDataPath, 'workspaceStorage', 'f00d', 'chatSessions', 'chat-1.json'),
+      path.join(userDataPath, 'workspaceStorage', 'f00d', 'chatSessions', 'chat-2.json')
+    );
+    expect(db.hasSession('chat-2')).toBe(true);
+    expect(list).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop session fields of the wrong type', () => {
+    const chatSessionsDir = path.join(userDataPath, 'workspaceStorage', 'f00d', 'chatSessions');
+    fs.writeFileSync(path.join(chatSessionsDir, 'chat-2.json'), JSON.stringify({
+      creationDate: '2024-03-09', lastMessageDate: null, customTitle: 42, requests: {}
+    }));
+    fs.writeFileSync(path.join(chatSessionsDir, 'chat-3.json'), 'null');
+
+    const db = new CopilotChatDB(userDataPath);
+    expect(db.getSession('chat-2')).toEqual({
+      sessionId: 'chat-2',
+      creationDate: undefined,
+      lastMessageDate: undefined,
+      customTitle: undefined,
+      requests: [],
+      workspaceFolder: '/home/me/code/billing'
+    });
+    expect(() => db.getSession('chat-3')).toThrow(DataCorruptionError);
+  });
+
+  it('should split responses around tool invocations', () => {
+    const messages = copilotToUnified(new CopilotChatDB(userDataPath).getSession('chat-1')!);
+
+    expect(messages.map(m => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+    expect(messages[1]?.content).toBe('Rounding happens in `money.ts`.');
+    expect(messages[2]?.toolData).toEqual({
+      name: 'copilot_readFile',
+      params: { message: 'Reading money.ts' },
+      result: 'Read money.ts'
+    });
+    expect(messages[3]?.content).toBe('It uses banker\'s rounding.');
+  });
+
+  it('should sync Copilot sessions with a copilot: prefix and project', async () => {
+    const metadataDBPath = path.join(userDataPath, 'metadata.db');
+    const api = new CursorContext(
+      path.join(userDataPath, 'missing-cursor.vscdb'), metadataDBPath, false, 100000,
+      undefined, path.join(userDataPath, 'no-windsurf'), userDataPath
+    );
+
+    try {
+      expect(await api.syncSessions(undefined, 'copilot')).toBe(1);
+
+      const sessions = await api.listSessions({ source: 'copilot' });
+      expect(sessions[0]?.session_id).toBe('copilot:chat-1');
+      expect(sessions[0]?.project_name).toBe('billing');
+
+      const projects = api.getProjects();
+      expect(projects.map(p => p.name)).toContain('billing');
+    } finally {
+      api.close();
+    }
+  });
+});
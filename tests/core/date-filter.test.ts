@@ -0,0 +1,42 @@
+/**
+ * Tests for date filter parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseDateFilter } from '../../src/core/date-filter.js';
+
+describe('parseDateFilter', () => {
+  const now = new Date(2025, 9, 15, 12, 30).getTime();
+  const DAY = 24 * 60 * 60 * 1000;
+
+  it('should parse relative dates back from now', () => {
+    expect(parseDateFilter('7d', { now })).toBe(now - 7 * DAY);
+    expect(parseDateFilter('2w', { now })).toBe(now - 14 * DAY);
+    expect(parseDateFilter('12h', { now })).toBe(now - 12 * 60 * 60 * 1000);
+    expect(parseDateFilter('3m', { now })).toBe(new Date(2025, 6, 15, 12, 30).getTime());
+    expect(parseDateFilter('1Y', { now })).toBe(new Date(2024, 9, 15, 12, 30).getTime());
+  });
+
+  it('should resolve today and yesterday to day bounds', () => {
+    expect(parseDateFilter('today', { now })).toBe(new Date(2025, 9, 15).getTime());
+    expect(parseDateFilter('yesterday', { now, endOfDay: true })).toBe(new Date(2025, 9, 14, 23, 59, 59, 999).getTime());
+  });
+
+  it('should parse ISO dates as local days and keep explicit times', () => {
+    expect(parseDateFilter('2025-10-01')).toBe(new Date(2025, 9, 1).getTime());
+    expect(parseDateFilter('2025-10-01', { endOfDay: true })).toBe(new Date(2025, 9, 1, 23, 59, 59, 999).getTime());
+    expect(parseDateFilter('2025-10-01T08:00:00Z')).toBe(Date.UTC(2025, 9, 1, 8));
+    expect(parseDateFilter('2025-10-01 14:00')).toBe(new Date(2025, 9, 1, 14).getTime());
+    expect(parseDateFilter('2025-10-01T08:00:00.500+02:00')).toBe(Date.UTC(2025, 9, 1, 6, 0, 0, 500));
+  });
+
+  it('should reject anything else', () => {
+    expect(() => parseDateFilter('last week')).toThrow(/Invalid date 'last week'/);
+    expect(() => parseDateFilter('2025-02-30')).toThrow(/Invalid date/);
+    expect(() => parseDateFilter('7 days')).toThrow(/Invalid date/);
+    // Date.parse reads these as dates in 2001
+    expect(() => parseDateFilter('5')).toThrow(/Invalid date '5'/);
+    expect(() => parseDateFilter('foo 12')).toThrow(/Invalid date/);
+    expect(() => parseDateFilter('Oct 1 2025')).toThrow(/Invalid date/);
+  });
+});
@@ -9,9 +9,13 @@ import {
   formatSessionPreview,
   formatSessionPreviewPlain,
   formatSessionList,
-  formatMessage
+  formatMessage,
+  formatSearchResults,
+  formatBookmarksMarkdown,
+  highlightMatches,
+  createSnippet
 } from '../../src/core/formatter.js';
-import type { SessionWithMessages, SessionMetadata, ParsedMessage } from '../../src/core/types.js';
+import type { SessionWithMessages, SessionMetadata, ParsedMessage, SearchResult, BookmarkedExchange } from '../../src/core/types.js';
 
 describe('Formatter', () => {
   const mockMetadata: SessionMetadata = {
@@ -91,6 +95,80 @@ describe('Formatter', () => {
       expect(markdown).toContain('**Workspace:**');
     });
     
+    it('should show tool results and errors, cutting long output', () => {
+      const markdown = formatSessionMarkdown({
+        metadata: mockMetadata,
+        messages: [
+          { role: 'tool', content: '', bubbleId: 't1', toolData: { name: 'Read', params: {}, result: 'x'.repeat(2500) } },
+          { role: 'tool', content: '', bubbleId: 't2', toolData: { name: 'Bash', params: {}, result: 'exit code 1', isError: true } }
+        ]
+      });
+
+      expect(markdown).toContain('**Result:**');
+      expect(markdown).toContain('… (500 more characters)');
+      expect(markdown).toContain('**Error:**\n```\nexit code 1\n```');
+    });
+    
+    it('should show message details and reasoning only when asked', () => {
+      const session: SessionWithMessages = {
+        metadata: mockMetadata,
+        messages: [{
+          role: 'assistant',
+          content: 'The cookie expires too early.',
+          bubbleId: 'a1',
+          model: 'claude-sonnet-4-5',
+          usage: { inputTokens: 1200, outputTokens: 40, cacheReadTokens: 3000 },
+          gitBranch: 'main',
+          reasoning: 'Check the session cookie first.'
+        }]
+      };
+
+      const plain = formatSessionMarkdown(session);
+      expect(plain).not.toContain('claude-sonnet-4-5');
+      expect(plain).not.toContain('Reasoning');
+
+      const detailed = formatSessionMarkdown(session, { includeMessageDetails: true, includeReasoning: true });
+      expect(detailed).toContain('_claude-sonnet-4-5 · 1,200 in / 40 out tokens · cache 3,000 read / 0 written · branch main_');
+      expect(detailed).toContain('<summary>💭 Reasoning</summary>\n\nCheck the session cookie first.');
+      expect(formatMessage(session.messages[0]!, true, true)).toContain('[ASSISTANT] (claude-sonnet-4-5 ·');
+    });
+    
+    it('should nest subagent conversations under the call that started them', () => {
+      const markdown = formatSessionMarkdown({
+        ...mockSession,
+        subConversations: [
+          {
+            parentBubbleId: 'bubble-3',
+            description: 'Read the file',
+            agentType: 'general-purpose',
+            messages: [{ role: 'assistant', content: 'The file is empty.', bubbleId: 's1' }]
+          },
+          { messages: [{ role: 'assistant', content: 'Unmatched subagent', bubbleId: 's2' }] }
+        ]
+      });
+
+      const subagent = markdown.indexOf('🧩 Subagent general-purpose: Read the file (1 messages)');
+      expect(subagent).toBeGreaterThan(markdown.indexOf('Let me check that file.'));
+      expect(markdown).toContain('### 🤖 Assistant\n\nThe file is empty.');
+      expect(markdown.indexOf('🧩 Subagent conversation')).toBeGreaterThan(subagent);
+    });
+    
+    it('should mark where the conversation was compacted or resumed', () => {
+      const markdown = formatSessionMarkdown({
+        ...mockSession,
+        metadata: { ...mockMetadata, summary_title: 'Greeting and file check' },
+        messages: [
+          mockMessages[0]!,
+          { ...mockMessages[1]!, boundary: { type: 'compaction', trigger: 'auto', preTokens: 155000, summary: 'The user said hello.' } },
+          { ...mockMessages[2]!, boundary: { type: 'resume', sessionId: 'def-456' } }
+        ]
+      }, { includeTools: false });
+
+      expect(markdown).toContain('**Summary:** Greeting and file check');
+      expect(markdown).toContain('<summary>✂️ Conversation compacted (auto · 155,000 tokens)</summary>\n\nThe user said hello.');
+      expect(markdown).toContain('_↩️ Session resumed (def-456)_');
+    });
+    
     it('should exclude tool information', () => {
       const markdown = formatSessionMarkdown(mockSession, { includeTools: false });
       
@@ -107,8 +185,46 @@ describe('Formatter', () => {
       const markdown = formatSessionMarkdown(emptySession);
       expect(markdown).toContain('# Cursor Session');
     });
+
+    it('should render notes next to the message they annotate', () => {
+      const annotated: SessionWithMessages = {
+        ...mockSession,
+        notes: [
+          { id: 1, session_id: 'test-session-123', content: 'Final design lives here', created_at: 1, updated_at: 1 },
+          { id: 2, session_id: 'test-session-123', bubble_id: 'bubble-2', content: 'Wrong answer\nsee later fix', created_at: 2, updated_at: 2 }
+        ]
+      };
+
+      const markdown = formatSessionMarkdown(annotated);
+      expect(markdown).toContain('> 📝 Final design lives here');
+      expect(markdown.indexOf('> 📝 Final design')).toBeLessThan(markdown.indexOf('## 👤 User'));
+
+      const noteAt = markdown.indexOf('> 📝 Wrong answer\n> see later fix');
+      expect(noteAt).toBeGreaterThan(markdown.indexOf('I am doing well'));
+      expect(noteAt).toBeLessThan(markdown.indexOf('Let me check that file.'));
+
+      expect(formatSessionMarkdown(annotated, { includeNotes: false })).not.toContain('📝');
+    });
   });
   
+  describe('formatBookmarksMarkdown', () => {
+    it('should render the full exchange and mark the bookmarked message', () => {
+      const exchange: BookmarkedExchange = {
+        bookmark: { id: 7, session_id: 'test-session-123', bubble_id: 'bubble-2', message_index: 1, label: 'greeting', created_at: 1 },
+        session: mockMetadata,
+        question: mockMessages[0],
+        answer: [mockMessages[1]!]
+      };
+
+      const markdown = formatBookmarksMarkdown([exchange]);
+      expect(markdown).toContain('## greeting');
+      expect(markdown).toContain('Bookmark 7');
+      expect(markdown).toContain('**👤 User:**\n\nHello, how are you?');
+      expect(markdown).toContain('**🤖 Assistant ⭐:**\n\nI am doing well, thank you!');
+      expect(formatBookmarksMarkdown([])).toBe('No bookmarks found.');
+    });
+  });
+
   describe('formatSessionJSON', () => {
     it('should format session as JSON', () => {
       const json = formatSessionJSON(mockSession);
@@ -309,5 +425,40 @@ describe('Formatter', () => {
       expect(formatted).not.toContain('Tool: read_file');
     });
   });
+  
+  describe('Search Results', () => {
+    it('should highlight query terms case-insensitively', () => {
+      const highlighted = highlightMatches('Refresh the Token before the token expires', 'token');
+      expect(highlighted).toBe('Refresh the **Token** before the **token** expires');
+    });
+    
+    it('should support custom highlight wrappers', () => {
+      const highlighted = highlightMatches('auth tokens', 'token', term => `[${term}]`);
+      expect(highlighted).toBe('auth [tokens]');
+    });
+    
+    it('should centre long snippets on the first match', () => {
+      const text = 'a'.repeat(300) + ' needle ' + 'b'.repeat(300);
+      const snippet = createSnippet(text, 'needle', 100);
+      expect(snippet).toContain('needle');
+      expect(snippet.startsWith('...')).toBe(true);
+      expect(snippet.endsWith('...')).toBe(true);
+    });
+    
+    it('should render matches with context', () => {
+      const results: SearchResult[] = [{
+        session: mockMetadata,
+        matches: [{
+          message: { role: 'assistant', content: 'Use refreshToken to renew it', bubbleId: 'b2' },
+          contextBefore: [{ role: 'user', content: 'How do I renew the token?', bubbleId: 'b1' }],
+          contextAfter: []
+        }]
+      }];
+      
+      const formatted = formatSearchResults(results, 'refreshToken');
+      expect(formatted).toContain('**test-session**');
+      expect(formatted).toContain('How do I renew the token?');
+      expect(formatted).toContain('**refreshToken**');
+    });
+  });
 });
-
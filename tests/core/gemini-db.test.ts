@@ -0,0 +1,96 @@
+/**
+ * Tests for the Gemini CLI conversation reader
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+import { GeminiDB } from '../../src/core/gemini-db.js';
+import { geminiToUnified } from '../../src/core/format-adapters.js';
+import { GeminiSessionSource } from '../../src/core/session-sources.js';
+
+const PROJECT = '/home/me/code/weather';
+const PROJECT_HASH = crypto.createHash('sha256').update(PROJECT).digest('hex');
+
+describe('GeminiDB', () => {
+  let tmpPath: string;
+
+  beforeEach(() => {
+    tmpPath = fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-tmp-'));
+    const chatsDir = path.join(tmpPath, PROJECT_HASH, 'chats');
+    fs.mkdirSync(chatsDir, { recursive: true });
+
+    fs.writeFileSync(path.join(chatsDir, 'session-2025-09-18T10-00-abcd1234.json'), JSON.stringify({
+      sessionId: 'abcd1234-0000-0000-0000-000000000000',
+      projectHash: PROJECT_HASH,
+      startTime: '2025-09-18T10:00:00.000Z',
+      lastUpdated: '2025-09-18T10:05:00.000Z',
+      messages: [
+        { id: 'm1', timestamp: '2025-09-18T10:00:00.000Z', type: 'user', content: 'Where is the forecast cached?' },
+        {
+          id: 'm2', timestamp: '2025-09-18T10:00:10.000Z', type: 'gemini', content: 'Let me look.',
+          toolCalls: [
+            { id: 'read-1', name: 'read_file', args: { absolute_path: `${PROJECT}/src/cache.ts` }, resultDisplay: 'Read cache.ts', status: 'success' },
+            { id: 'nick-1', name: 'nickname_current_session', args: { nickname: 'forecast-cache' } }
+          ]
+        },
+        { id: 'm3', timestamp: '2025-09-18T10:00:20.000Z', type: 'info', content: 'Request cancelled.' },
+        { id: 'm4', timestamp: '2025-09-18T10:05:00.000Z', type: 'gemini', content: [{ text: 'In src/cache.ts, for 10 minutes.' }] }
+      ]
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpPath, { recursive: true, force: true });
+  });
+
+  it('should list sessions and detect the project from its hash', () => {
+    const sessions = new GeminiDB(tmpPath).getAllSessions();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({
+      sessionId: 'abcd1234-0000-0000-0000-000000000000',
+      projectPath: PROJECT,
+      projectName: 'weather',
+      messageCount: 3,
+      firstMessagePreview: 'Where is the forecast cached?'
+    });
+  });
+
+  it('should convert tool calls to ToolInfo and skip info messages', () => {
+    const messages = geminiToUnified(new GeminiDB(tmpPath).getSessionMessages('abcd1234-0000-0000-0000-000000000000'));
+
+    expect(messages.map(m => m.role)).toEqual(['user', 'assistant', 'tool', 'tool', 'assistant']);
+    expect(messages[2]?.toolData).toEqual({
+      name: 'read_file',
+      params: { absolute_path: `${PROJECT}/src/cache.ts` },
+      result: 'Read cache.ts'
+    });
+  });
+
+  it('should pick up nicknames through the session source', () => {
+    const session = new GeminiSessionSource(new GeminiDB(tmpPath)).loadSession('abcd1234-0000-0000-0000-000000000000');
+
+    expect(session?.nickname).toBe('forecast-cache');
+    expect(session?.projectPath).toBe(PROJECT);
+  });
+
+  it('should load listed sessions without scanning every chat file', () => {
+    const db = new GeminiDB(tmpPath);
+    db.getAllSessions();
+    const scan = vi.spyOn(GeminiDB.prototype as any, 'getSessionFiles');
+
+    try {
+      expect(db.getSessionMessages('abcd1234-0000-0000-0000-000000000000')).toHaveLength(4);
+      expect(scan).not.toHaveBeenCalled();
+
+      // Unknown IDs still fall back to a scan
+      expect(db.getConversation('missing')).toBeNull();
+      expect(scan).toHaveBeenCalledTimes(1);
+    } finally {
+      scan.mockRestore();
+    }
+  });
+});
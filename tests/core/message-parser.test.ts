@@ -3,16 +3,22 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
 import {
   parseBubble,
   parseBubbles,
   parseLexicalText,
+  parseLexicalRichText,
   filterMessagesByRole,
   getConversationOnly,
   estimateTokens
 } from '../../src/core/message-parser.js';
 import type { BubbleData } from '../../src/core/types.js';
 
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'lexical');
+
 describe('Message Parser', () => {
   describe('parseLexicalText', () => {
     it('should parse simple text', () => {
@@ -147,6 +153,25 @@ describe('Message Parser', () => {
     });
   });
   
+  describe('parseLexicalRichText', () => {
+    // Each fixture is Cursor richText (<name>.json) with the Markdown it converts to (<name>.md)
+    const fixtures = fs.readdirSync(FIXTURES).filter(file => file.endsWith('.json')).map(file => path.basename(file, '.json'));
+
+    it.each(fixtures)('should convert the %s fixture to Markdown', (name) => {
+      const richText = fs.readFileSync(path.join(FIXTURES, `${name}.json`), 'utf-8');
+      const expected = fs.readFileSync(path.join(FIXTURES, `${name}.md`), 'utf-8');
+
+      expect(parseLexicalRichText(richText).markdown).toBe(expected.trimEnd());
+    });
+
+    it('should collect mentioned files once, leaving out other mentions', () => {
+      const richText = fs.readFileSync(path.join(FIXTURES, 'mentions.json'), 'utf-8');
+
+      expect(parseLexicalRichText(richText).mentionedFiles).toEqual(['/work/app/src/auth.ts', 'src/session/refresh.ts']);
+      expect(parseLexicalRichText('not valid json {')).toEqual({ markdown: '', mentionedFiles: [] });
+    });
+  });
+  
   describe('parseBubble', () => {
     it('should parse user message with richText', () => {
       const bubble: BubbleData = {
@@ -176,6 +201,15 @@ describe('Message Parser', () => {
       expect(message.bubbleId).toBe('test-bubble');
     });
     
+    it('should record the files a user message mentions', () => {
+      const richText = fs.readFileSync(path.join(FIXTURES, 'mentions.json'), 'utf-8');
+      const message = parseBubble({ type: 1, bubbleId: 'mentions', richText });
+
+      expect(message.content).toMatch(/^Why does @auth\.ts reject/);
+      expect(message.mentionedFiles).toEqual(['/work/app/src/auth.ts', 'src/session/refresh.ts']);
+      expect(parseBubble({ type: 1, bubbleId: 'plain', text: 'No mentions' }).mentionedFiles).toBeUndefined();
+    });
+    
     it('should parse assistant message with plain text', () => {
       const bubble: BubbleData = {
         type: 2,
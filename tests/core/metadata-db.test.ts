@@ -4,6 +4,7 @@
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { MetadataDB } from '../../src/core/metadata-db.js';
+import { parseSearchQuery } from '../../src/core/query-parser.js';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
@@ -374,7 +375,371 @@ describe('MetadataDB', () => {
       expect(sessions[0]?.session_id).toBe('session-1');
     });
   });
+
+  describe('Date, Size, Model and Branch Filters', () => {
+    beforeEach(() => {
+      db.upsertSessionMetadata({
+        session_id: 'claude:a',
+        source: 'claude',
+        has_project: false,
+        created_at: 1000,
+        message_count: 4,
+        model: 'claude-sonnet-4-5',
+        git_branch: 'main'
+      });
+      db.upsertSessionMetadata({
+        session_id: 'claude:b',
+        source: 'claude',
+        has_project: false,
+        created_at: 2000,
+        message_count: 40,
+        model: 'claude-opus-4-1',
+        git_branch: 'feature/login'
+      });
+      db.upsertSessionMetadata({
+        session_id: 'cursor:c',
+        source: 'cursor',
+        has_project: false,
+        created_at: 3000,
+        message_count: 12
+      });
+    });
+
+    it('should filter by creation date range', () => {
+      expect(db.listSessions({ since: 2000 }).map(s => s.session_id)).toEqual(['cursor:c', 'claude:b']);
+      expect(db.listSessions({ since: 1500, until: 2500 }).map(s => s.session_id)).toEqual(['claude:b']);
+    });
+
+    it('should filter by message count', () => {
+      expect(db.listSessions({ min_messages: 10 }).map(s => s.session_id)).toEqual(['cursor:c', 'claude:b']);
+      expect(db.listSessions({ min_messages: 10, max_messages: 20 }).map(s => s.session_id)).toEqual(['cursor:c']);
+    });
+
+    it('should match models by substring, ignoring case', () => {
+      expect(db.listSessions({ model: 'Sonnet' }).map(s => s.session_id)).toEqual(['claude:a']);
+      expect(db.listSessions({ model: 'claude' })).toHaveLength(2);
+    });
+
+    it('should filter by git branch', () => {
+      const sessions = db.listSessions({ git_branch: 'feature/login' });
+      expect(sessions.map(s => s.session_id)).toEqual(['claude:b']);
+      expect(sessions[0]?.model).toBe('claude-opus-4-1');
+    });
+
+    it('should filter by tag and apply the limit after filtering', () => {
+      db.addTag('claude:a', 'area/auth');
+      db.addTag('cursor:c', 'area');
+      expect(db.listSessions({ tag: 'area', limit: 1 }).map(s => s.session_id)).toEqual(['cursor:c']);
+      expect(db.listSessions({ has_tags: true, sort_by: 'oldest' }).map(s => s.session_id)).toEqual(['claude:a', 'cursor:c']);
+    });
+
+    it('should sort by most messages and by recent activity', () => {
+      expect(db.listSessions({ sort_by: 'most_messages' }).map(s => s.session_id)).toEqual(['claude:b', 'cursor:c', 'claude:a']);
+
+      db.upsertSessionMetadata({ session_id: 'claude:a', source: 'claude', has_project: false, created_at: 1000, last_accessed: Date.now() + 1000 });
+      expect(db.listSessions({ sort_by: 'recently_active' })[0]?.session_id).toBe('claude:a');
+    });
+  });
   
+  describe('Full-Text Index', () => {
+    beforeEach(() => {
+      db.upsertSessionMetadata({
+        session_id: 'cursor:session-1',
+        source: 'cursor',
+        has_project: false
+      });
+      db.upsertSessionMetadata({
+        session_id: 'claude:session-2',
+        source: 'claude',
+        has_project: false
+      });
+
+      db.indexSessionMessages('cursor:session-1', [
+        { role: 'user', content: 'How do I refresh the auth token?', bubbleId: 'b1' },
+        { role: 'assistant', content: 'Call refreshToken() before the token expires.', bubbleId: 'b2' },
+        { role: 'user', content: 'And where is the token stored?', bubbleId: 'b3' }
+      ]);
+      db.indexSessionMessages('claude:session-2', [
+        { role: 'user', content: 'Set up the database schema', bubbleId: 'c1' },
+        { role: 'assistant', content: 'The token table stores API keys.', bubbleId: 'c2' }
+      ]);
+    });
+
+    it('should find sessions by message content beyond the first message', () => {
+      const results = db.searchSessionContent('database schema');
+      expect(results).toHaveLength(1);
+      expect(results[0]?.session_id).toBe('claude:session-2');
+    });
+
+    it('should rank sessions with more matching messages first', () => {
+      const results = db.searchSessionContent('token');
+      expect(results.map(r => r.session_id)).toEqual(['cursor:session-1', 'claude:session-2']);
+      expect(results[0]?.hits).toBe(3);
+    });
+
+    it('should match sessions whose terms are spread over several messages', () => {
+      // 'refresh' and 'stored' are in different messages of session-1 only
+      expect(db.searchSessionContent('refresh stored').map(r => r.session_id)).toEqual(['cursor:session-1']);
+      expect(db.searchSessionContent('token schema').map(r => r.session_id)).toEqual(['claude:session-2']);
+      expect(db.searchSessionContent('refresh schema')).toEqual([]);
+
+      // A negated term anywhere in the session excludes it
+      expect(db.searchSessionContent(parseSearchQuery('token -expires').terms).map(r => r.session_id))
+        .toEqual(['claude:session-2']);
+
+      const hits = db.searchMessages('refresh stored', { sessionId: 'cursor:session-1' });
+      expect(hits.map(h => h.message_index).sort()).toEqual([0, 2]);
+    });
+
+    it('should treat punctuation in queries literally', () => {
+      expect(() => db.searchSessionContent('refreshToken() "quoted')).not.toThrow();
+      expect(db.searchSessionContent('')).toEqual([]);
+      expect(db.searchSessionContent('schema & --').map(r => r.session_id)).toEqual(['claude:session-2']);
+    });
+
+    it('should replace index entries when a session is re-indexed', () => {
+      db.indexSessionMessages('cursor:session-1', [
+        { role: 'user', content: 'Completely different topic', bubbleId: 'b1' }
+      ]);
+
+      const results = db.searchSessionContent('token');
+      expect(results.map(r => r.session_id)).toEqual(['claude:session-2']);
+    });
+
+    it('should return individual matching messages', () => {
+      const hits = db.searchMessages('token', { sessionId: 'cursor:session-1' });
+      expect(hits).toHaveLength(3);
+      expect(hits.every(h => h.session_id === 'cursor:session-1')).toBe(true);
+    });
+    
+    it('should return surrounding messages as context', () => {
+      const context = db.getMessageContext('cursor:session-1', 1, 1);
+      expect(context?.message.bubbleId).toBe('b2');
+      expect(context?.before.map(m => m.bubbleId)).toEqual(['b1']);
+      expect(context?.after.map(m => m.bubbleId)).toEqual(['b3']);
+    });
+    
+    it('should drop index entries when session metadata is deleted', () => {
+      db.deleteSessionMetadata('claude:session-2');
+      expect(db.searchSessionContent('schema')).toEqual([]);
+    });
+  });
+
+  describe('Hierarchical Tags', () => {
+    beforeEach(() => {
+      for (const id of ['cursor:s1', 'cursor:s2', 'cursor:s3']) {
+        db.upsertSessionMetadata({ session_id: id, source: 'cursor', has_project: false });
+      }
+      db.addTag('cursor:s1', 'area/auth');
+      db.addTag('cursor:s2', 'area/auth/oauth');
+      db.addTag('cursor:s3', 'area');
+      db.addTag('cursor:s3', 'areas');
+    });
+
+    it('should include child tags when filtering by a parent', () => {
+      expect(db.findByTag('area').map(s => s.session_id).sort()).toEqual(['cursor:s1', 'cursor:s2', 'cursor:s3']);
+      expect(db.findByTag('area/auth').map(s => s.session_id).sort()).toEqual(['cursor:s1', 'cursor:s2']);
+      expect(db.findByTag('areas').map(s => s.session_id)).toEqual(['cursor:s3']);
+    });
+
+    it('should normalize tag names', () => {
+      db.addTag('cursor:s1', ' area / auth/ ');
+      expect(db.getSessionMetadata('cursor:s1')?.tags).toEqual(['area/auth']);
+    });
+
+    it('should keep tags when sync upserts metadata without them', () => {
+      db.upsertSessionMetadata({ session_id: 'cursor:s1', source: 'cursor', has_project: false, message_count: 5 });
+      expect(db.getSessionMetadata('cursor:s1')?.tags).toEqual(['area/auth']);
+    });
+
+    it('should rename a tag together with its children', () => {
+      const result = db.renameTag('area/auth', 'security');
+
+      expect(result.changes).toEqual([
+        { from: 'area/auth', to: 'security' },
+        { from: 'area/auth/oauth', to: 'security/oauth' }
+      ]);
+      expect(result.sessions).toBe(2);
+      expect(db.getSessionMetadata('cursor:s2')?.tags).toEqual(['security/oauth']);
+      expect(db.findByTag('area').map(s => s.session_id)).toEqual(['cursor:s3']);
+    });
+
+    it('should refuse to rename onto an existing tag', () => {
+      expect(() => db.renameTag('areas', 'area')).toThrow(/already exists/);
+      expect(() => db.renameTag('unknown', 'other')).toThrow(/not found/);
+      expect(() => db.renameTag('area', 'area/sub')).toThrow();
+    });
+
+    it('should merge tags without duplicating them on a session', () => {
+      db.addTag('cursor:s3', 'area/auth');
+      const result = db.mergeTags('areas', 'area/auth');
+
+      expect(result.sessions).toBe(1);
+      expect(db.getSessionMetadata('cursor:s3')?.tags).toEqual(['area', 'area/auth']);
+      expect(db.listAllTags().map(t => t.tag)).not.toContain('areas');
+    });
+
+    it('should count tags with indexed queries and drop unused ones', () => {
+      db.removeTag('cursor:s3', 'areas');
+
+      expect(db.listAllTags()).toEqual([
+        { tag: 'area', count: 1 },
+        { tag: 'area/auth', count: 1 },
+        { tag: 'area/auth/oauth', count: 1 }
+      ]);
+      expect(db.getStats()).toMatchObject({ sessions_with_tags: 3, total_tags: 3 });
+    });
+  });
+
+  describe('Notes', () => {
+    beforeEach(() => {
+      db.upsertSessionMetadata({ session_id: 'cursor:s1', source: 'cursor', has_project: false });
+      db.upsertSessionMetadata({ session_id: 'cursor:s2', source: 'cursor', has_project: false });
+      db.indexSessionMessages('cursor:s1', [
+        { role: 'user', content: 'How should we cache tokens?', bubbleId: 'b1' }
+      ]);
+    });
+
+    it('should store session and message notes in order', () => {
+      const sessionNote = db.addNote('cursor:s1', 'Why this matters');
+      const messageNote = db.addNote('cursor:s1', 'Good question', 'b1');
+
+      expect(sessionNote).toMatchObject({ session_id: 'cursor:s1', content: 'Why this matters', bubble_id: undefined });
+      expect(db.listNotes('cursor:s1').map(n => n.id)).toEqual([sessionNote.id, messageNote.id]);
+      expect(db.listNotes('cursor:s1')[1]?.bubble_id).toBe('b1');
+      expect(db.listNotes('cursor:s2')).toEqual([]);
+    });
+
+    it('should edit and delete notes', () => {
+      const note = db.addNote('cursor:s1', 'Draft');
+
+      expect(db.updateNote(note.id, 'Final')?.content).toBe('Final');
+      expect(db.updateNote(9999, 'Nope')).toBeNull();
+      expect(db.deleteNote(note.id)).toBe(true);
+      expect(db.deleteNote(note.id)).toBe(false);
+    });
+
+    it('should include notes in full-text search', () => {
+      const note = db.addNote('cursor:s2', 'Decided on redis eviction policy');
+
+      expect(db.searchSessionContent('redis').map(r => r.session_id)).toEqual(['cursor:s2']);
+
+      db.updateNote(note.id, 'Decided on memcached');
+      expect(db.searchSessionContent('redis')).toEqual([]);
+      expect(db.searchSessionContent('memcached').map(r => r.session_id)).toEqual(['cursor:s2']);
+
+      db.addNote('cursor:s1', 'Token caching follow-up');
+      expect(db.searchSessionContent('token')).toEqual([
+        expect.objectContaining({ session_id: 'cursor:s1', hits: 2 })
+      ]);
+    });
+
+    it('should drop notes when session metadata is deleted', () => {
+      db.addNote('cursor:s2', 'Decided on redis');
+      db.deleteSessionMetadata('cursor:s2');
+
+      expect(db.listNotes('cursor:s2')).toEqual([]);
+      expect(db.searchSessionContent('redis')).toEqual([]);
+    });
+  });
+
+  describe('Bookmarks', () => {
+    beforeEach(() => {
+      db.upsertSessionMetadata({ session_id: 'cursor:s1', source: 'cursor', has_project: false });
+      db.indexSessionMessages('cursor:s1', [
+        { role: 'assistant', content: 'Welcome back', bubbleId: 'b0' },
+        { role: 'user', content: 'Which cache?', bubbleId: 'b1' },
+        { role: 'assistant', content: 'Let me look.', bubbleId: 'b2' },
+        { role: 'tool', content: '', bubbleId: 'b3' },
+        { role: 'assistant', content: 'Use an LRU cache.', bubbleId: 'b4' },
+        { role: 'user', content: 'Thanks', bubbleId: 'b5' }
+      ]);
+    });
+
+    it('should return the whole exchange around a bookmarked answer', () => {
+      const exchange = db.getMessageExchange('cursor:s1', 'b4', 4);
+      expect(exchange.question?.bubbleId).toBe('b1');
+      expect(exchange.answer.map(m => m.bubbleId)).toEqual(['b2', 'b4']);
+
+      // The question itself, and tool-only messages found by position
+      expect(db.getMessageExchange('cursor:s1', 'b1', 1).answer.map(m => m.bubbleId)).toEqual(['b2', 'b4']);
+      expect(db.getMessageExchange('cursor:s1', 'b3', 3).question?.bubbleId).toBe('b1');
+    });
+
+    it('should handle replies before the first question', () => {
+      const exchange = db.getMessageExchange('cursor:s1', 'b0', 0);
+      expect(exchange.question).toBeUndefined();
+      expect(exchange.answer.map(m => m.bubbleId)).toEqual(['b0']);
+    });
+
+    it('should list bookmarks newest first and drop them with the session', () => {
+      const first = db.addBookmark('cursor:s1', 'b4', 4, 'lru');
+      const second = db.addBookmark('cursor:s1', 'b2', 2);
+
+      expect(db.listBookmarks().map(b => b.id)).toEqual([second.id, first.id]);
+      expect(db.addBookmark('cursor:s1', 'b4', 4).label).toBe('lru');
+
+      db.deleteSessionMetadata('cursor:s1');
+      expect(db.listBookmarks()).toEqual([]);
+    });
+  });
+
+  describe('Session Links', () => {
+    it('should store typed links and list them from both ends', () => {
+      const link = db.addLink('cursor:s2', 'cursor:s1', 'continues');
+      expect(link).toMatchObject({ from_session_id: 'cursor:s2', to_session_id: 'cursor:s1', type: 'continues', origin: 'manual' });
+
+      db.addLink('cursor:s3', 'cursor:s2', 'related');
+      expect(db.listLinks('cursor:s2').map(l => l.type)).toEqual(['continues', 'related']);
+      expect(db.listLinks('cursor:s1')).toHaveLength(1);
+      expect(() => db.addLink('cursor:s1', 'cursor:s1', 'related')).toThrow(/itself/);
+    });
+
+    it('should store related links once per pair', () => {
+      db.addLink('cursor:s1', 'cursor:s2', 'related');
+      db.addLink('cursor:s2', 'cursor:s1', 'related');
+      expect(db.listLinks('cursor:s1')).toHaveLength(1);
+    });
+
+    it('should let manual links take over detected ones', () => {
+      db.addLink('cursor:s2', 'cursor:s1', 'continues', 'detected');
+      expect(db.addLink('cursor:s2', 'cursor:s1', 'continues').origin).toBe('manual');
+      expect(db.addLink('cursor:s2', 'cursor:s1', 'continues', 'detected').origin).toBe('manual');
+    });
+
+    it('should remove links in either direction and with the session', () => {
+      db.addLink('cursor:s2', 'cursor:s1', 'continues');
+      db.addLink('cursor:s2', 'cursor:s1', 'supersedes');
+      expect(db.removeLinks('cursor:s1', 'cursor:s2', 'supersedes')).toBe(1);
+      expect(db.listLinks('cursor:s1').map(l => l.type)).toEqual(['continues']);
+
+      db.upsertSessionMetadata({ session_id: 'cursor:s2', source: 'cursor', has_project: false });
+      db.deleteSessionMetadata('cursor:s2');
+      expect(db.listLinks('cursor:s1')).toEqual([]);
+    });
+  });
+
+  describe('Collections', () => {
+    it('should save, replace and list collections', () => {
+      const saved = db.saveCollection('auth', { tag: 'auth', since: '30d' }, 'Auth work');
+      expect(saved).toMatchObject({ name: 'auth', description: 'Auth work', query: { tag: 'auth', since: '30d' } });
+
+      // Saving again replaces the filters but keeps the description
+      const replaced = db.saveCollection('auth', { tag: 'area/auth' });
+      expect(replaced).toMatchObject({ id: saved.id, description: 'Auth work', query: { tag: 'area/auth' } });
+
+      db.saveCollection('bugs', { query: 'crash' });
+      expect(db.listCollections().map(c => c.name)).toEqual(['auth', 'bugs']);
+    });
+
+    it('should delete collections', () => {
+      db.saveCollection('auth', { tag: 'auth' });
+      expect(db.deleteCollection('auth')).toBe(true);
+      expect(db.deleteCollection('auth')).toBe(false);
+      expect(db.getCollection('auth')).toBeNull();
+    });
+  });
+
   describe('Statistics', () => {
     it('should return correct stats', () => {
       db.upsertSessionMetadata({
@@ -0,0 +1,158 @@
+/**
+ * Tests for the metadata database migration framework
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import Database from 'better-sqlite3';
+import { MetadataDB } from '../../src/core/metadata-db.js';
+import { MIGRATIONS, LATEST_SCHEMA_VERSION } from '../../src/core/migrations.js';
+import { MigrationError } from '../../src/core/errors.js';
+
+/**
+ * Build a database the way releases before the migration framework left it at version 3
+ */
+function createLegacyDB(dbPath: string): void {
+  const db = new Database(dbPath);
+  db.exec(`
+    CREATE TABLE schema_version (version INTEGER PRIMARY KEY);
+    INSERT INTO schema_version (version) VALUES (3);
+  `);
+  for (const migration of MIGRATIONS.filter(m => m.version <= 3)) {
+    migration.up(db);
+  }
+  db.prepare(`INSERT INTO session_metadata (session_id, source, nickname, tags, created_at) VALUES (?, ?, ?, ?, ?)`)
+    .run('cursor:legacy', 'cursor', 'old-work', JSON.stringify(['backend', 'area/auth']), 1700000000000);
+  db.close();
+}
+
+describe('MetadataDB migrations', () => {
+  let tmpDir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cursor-context-migrations-'));
+    dbPath = path.join(tmpDir, 'metadata.db');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should have consecutive migration versions', () => {
+    expect(MIGRATIONS.map(m => m.version)).toEqual(MIGRATIONS.map((_, i) => i + 1));
+  });
+
+  it('should run every migration on a new database without a backup', () => {
+    const db = new MetadataDB(dbPath);
+    const result = db.migrate();
+
+    expect(result).toMatchObject({ fromVersion: 0, toVersion: LATEST_SCHEMA_VERSION, dryRun: false });
+    expect(result.backupPath).toBeUndefined();
+
+    const status = db.getSchemaStatus();
+    expect(status.pending).toEqual([]);
+    expect(status.history.map(h => h.version)).toEqual(MIGRATIONS.map(m => m.version));
+    expect(status.history.every(h => h.applied_at)).toBe(true);
+    db.close();
+  });
+
+  it('should upgrade a legacy database, keep its data and back it up first', () => {
+    createLegacyDB(dbPath);
+
+    const db = new MetadataDB(dbPath);
+    const result = db.migrate();
+
+    expect(result.fromVersion).toBe(3);
+    expect(result.applied.map(m => m.version)).toEqual(MIGRATIONS.filter(m => m.version > 3).map(m => m.version));
+    expect(fs.existsSync(result.backupPath!)).toBe(true);
+    expect(db.getSessionMetadata('cursor:legacy')).toMatchObject({ nickname: 'old-work', tags: ['backend', 'area/auth'] });
+    expect(db.findByTag('area').map(s => s.session_id)).toEqual(['cursor:legacy']);
+
+    // Versions applied before history was kept are backfilled without a timestamp
+    const history = db.getSchemaStatus().history;
+    expect(history.map(h => h.version)).toEqual(MIGRATIONS.map(m => m.version));
+    expect(history[0]).toMatchObject({ description: MIGRATIONS[0]!.description, applied_at: undefined });
+    db.close();
+
+    const backup = new Database(result.backupPath!, { readonly: true });
+    expect(backup.prepare('SELECT version FROM schema_version').get()).toEqual({ version: 3 });
+    backup.close();
+  });
+
+  it('should not change anything on a dry run', () => {
+    createLegacyDB(dbPath);
+
+    const db = new MetadataDB(dbPath);
+    const result = db.migrate({ dryRun: true });
+
+    expect(result).toMatchObject({ fromVersion: 3, toVersion: LATEST_SCHEMA_VERSION, dryRun: true });
+    expect(result.applied.length).toBeGreaterThan(0);
+    expect(db.getSchemaStatus().currentVersion).toBe(3);
+    expect(fs.readdirSync(tmpDir).filter(f => f.endsWith('.bak'))).toEqual([]);
+    db.close();
+  });
+
+  it('should refuse an outdated schema when auto-migration is off', () => {
+    createLegacyDB(dbPath);
+
+    const db = new MetadataDB(dbPath, { autoMigrate: false });
+    expect(() => db.getSessionMetadata('cursor:legacy')).toThrow(MigrationError);
+    expect(db.getSchemaStatus().pending.length).toBeGreaterThan(0);
+    db.close();
+  });
+
+  it('should migrate automatically on first use by default', () => {
+    createLegacyDB(dbPath);
+
+    const db = new MetadataDB(dbPath);
+    expect(db.getSessionMetadata('cursor:legacy')?.nickname).toBe('old-work');
+    expect(db.getSchemaStatus().currentVersion).toBe(LATEST_SCHEMA_VERSION);
+    db.close();
+  });
+
+  it('should refuse a database from a newer release', () => {
+    const db = new MetadataDB(dbPath);
+    db.migrate();
+    db.close();
+
+    const raw = new Database(dbPath);
+    raw.prepare('INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)')
+      .run(LATEST_SCHEMA_VERSION + 1, 'From the future', Date.now());
+    raw.close();
+
+    const reopened = new MetadataDB(dbPath);
+    expect(() => reopened.listSessions()).toThrow(MigrationError);
+    reopened.close();
+  });
+
+  it('should roll back a failing migration and keep the last good version', () => {
+    const failing = {
+      version: LATEST_SCHEMA_VERSION + 1,
+      description: 'Broken',
+      up(db: Database.Database) {
+        db.exec('CREATE TABLE half_done (id INTEGER)');
+        throw new Error('boom');
+      }
+    };
+    MIGRATIONS.push(failing);
+
+    try {
+      const db = new MetadataDB(dbPath);
+      expect(() => db.migrate()).toThrow(/Migration \d+ \(Broken\) failed: boom/);
+
+      const status = db.getSchemaStatus();
+      expect(status.currentVersion).toBe(LATEST_SCHEMA_VERSION);
+      expect(status.pending.map(m => m.version)).toEqual([failing.version]);
+      db.close();
+
+      const raw = new Database(dbPath, { readonly: true });
+      expect(raw.prepare(`SELECT name FROM sqlite_master WHERE name = 'half_done'`).get()).toBeUndefined();
+      raw.close();
+    } finally {
+      MIGRATIONS.pop();
+    }
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Tests for search query parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSearchQuery } from '../../src/core/query-parser.js';
+import { QueryParseError } from '../../src/core/errors.js';
+import { toFtsQuery } from '../../src/core/metadata-db.js';
+
+describe('parseSearchQuery', () => {
+  it('should split operators from full-text terms', () => {
+    const parsed = parseSearchQuery('project:api tag:bug source:claude after:2025-10-01 "token refresh" -draft');
+
+    expect(parsed.filters).toEqual({ projectName: 'api', tag: 'bug', source: 'claude', since: '2025-10-01' });
+    expect(parsed.terms).toEqual([
+      { text: 'token refresh', phrase: true, negated: false },
+      { text: 'draft', phrase: false, negated: true }
+    ]);
+    expect(parsed.text).toBe('token refresh');
+  });
+
+  it('should read paths, quoted values and the remaining operators', () => {
+    const parsed = parseSearchQuery('project:/work/my-api model:"gpt 5" branch:feature/login before:7d messages:10..50 cache');
+
+    expect(parsed.filters).toEqual({
+      projectPath: '/work/my-api',
+      model: 'gpt 5',
+      gitBranch: 'feature/login',
+      until: '7d',
+      minMessages: 10,
+      maxMessages: 50
+    });
+    expect(parsed.text).toBe('cache');
+    expect(parseSearchQuery('messages:>20').filters).toEqual({ minMessages: 21 });
+    expect(parseSearchQuery('messages:<=5').filters).toEqual({ maxMessages: 5 });
+  });
+
+  it('should search unknown prefixes as text', () => {
+    expect(parseSearchQuery('localhost:3000 TypeError:').terms.map(t => t.text)).toEqual(['localhost:3000', 'TypeError:']);
+  });
+
+  it('should report errors with their position', () => {
+    const error = (query: string) => {
+      try {
+        parseSearchQuery(query, { sources: ['claude', 'cursor'] });
+      } catch (e) {
+        expect(e).toBeInstanceOf(QueryParseError);
+        return (e as Error).message;
+      }
+      throw new Error(`'${query}' parsed`);
+    };
+
+    expect(error('tag:bug "token refresh')).toBe('Invalid search query: Unterminated quote at column 9');
+    expect(error('cache tag:')).toBe("Invalid search query: Missing value for 'tag:' at column 7");
+    expect(error('tag:a tag:b')).toMatch(/'tag:' can only be used once at column 7/);
+    expect(error('-tag:wip')).toMatch(/can't be excluded/);
+    expect(error('after:lastweek')).toMatch(/Invalid date 'lastweek'.*\(in 'after:'\) at column 1/);
+    expect(error('messages:lots')).toMatch(/Invalid message count/);
+    expect(error('source:nope')).toMatch(/Unknown session source 'nope'/);
+  });
+});
+
+describe('toFtsQuery', () => {
+  it('should quote terms and exclude negated ones', () => {
+    expect(toFtsQuery('token "refresh')).toBe('"token" OR """refresh"');
+    expect(toFtsQuery(parseSearchQuery('"token refresh" bug -draft -wip').terms))
+      .toBe('("token refresh" OR "bug") NOT ("draft" OR "wip")');
+    expect(toFtsQuery(parseSearchQuery('-draft').terms)).toBe('');
+  });
+
+  it('should leave out terms made only of punctuation', () => {
+    expect(toFtsQuery(parseSearchQuery('token & -- "..."').terms)).toBe('"token"');
+    expect(toFtsQuery(parseSearchQuery('& -draft').terms)).toBe('');
+    expect(toFtsQuery('r&d')).toBe('"r&d"');
+  });
+});
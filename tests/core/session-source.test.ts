@@ -0,0 +1,553 @@
+/**
+ * Tests for pluggable session sources
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import {
+  CursorContext,
+  SessionSourceRegistry,
+  SessionNotFoundError,
+  SessionMissingError,
+  DataCorruptionError,
+  DBConnectionError,
+  QueryParseError,
+  parseSessionId,
+  type SessionSource,
+  type SourceSession
+} from '../../src/core/index.js';
+import type { ParsedMessage } from '../../src/core/types.js';
+
+/**
+ * In-memory source used to exercise the generic sync/get code paths
+ */
+class FakeSource implements SessionSource {
+  readonly label: string;
+  closed = false;
+
+  constructor(
+    readonly name: string,
+    private sessions: Record<string, { updatedAt: number; messages: ParsedMessage[]; projectPath?: string; model?: string; gitBranch?: string }>
+  ) {
+    this.label = `Fake ${name}`;
+  }
+
+  getSessionTimestamps(): Map<string, number> {
+    return new Map(Object.entries(this.sessions).map(([id, s]) => [id, s.updatedAt]));
+  }
+
+  hasSession(sessionId: string): boolean {
+    return sessionId in this.sessions;
+  }
+
+  loadSession(sessionId: string): SourceSession | null {
+    const session = this.sessions[sessionId];
+    return session
+      ? { messages: session.messages, projectPath: session.projectPath, createdAt: session.updatedAt, model: session.model, gitBranch: session.gitBranch }
+      : null;
+  }
+
+  getMessages(sessionId: string): ParsedMessage[] {
+    const session = this.sessions[sessionId];
+    if (!session) {
+      throw new SessionNotFoundError(sessionId);
+    }
+    return session.messages;
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+/**
+ * Source whose sessions or session list can't be read
+ */
+class BrokenSource extends FakeSource {
+  constructor(name: string, sessions: ConstructorParameters<typeof FakeSource>[1], private readonly brokenList = false) {
+    super(name, sessions);
+  }
+
+  getSessionTimestamps(): Map<string, number> {
+    if (this.brokenList) {
+      throw new DataCorruptionError('store unreadable');
+    }
+    return new Map([...super.getSessionTimestamps(), ['corrupt', 5000]]);
+  }
+
+  loadSession(sessionId: string): SourceSession | null {
+    if (sessionId === 'corrupt') {
+      throw new SyntaxError('Unexpected token');
+    }
+    return super.loadSession(sessionId);
+  }
+}
+
+describe('Session Sources', () => {
+  describe('parseSessionId', () => {
+    it('should split on the first colon only', () => {
+      expect(parseSessionId('aider:abc:2024')).toEqual({ source: 'aider', rawId: 'abc:2024' });
+    });
+
+    it('should return null for unprefixed IDs', () => {
+      expect(parseSessionId('abc-123')).toBeNull();
+      expect(parseSessionId(':abc')).toBeNull();
+    });
+  });
+
+  describe('SessionSourceRegistry', () => {
+    it('should select all sources or a single source by name', () => {
+      const registry = new SessionSourceRegistry();
+      registry.register(new FakeSource('one', {}));
+      registry.register(new FakeSource('two', {}));
+
+      expect(registry.select('all').map(s => s.name)).toEqual(['one', 'two']);
+      expect(registry.select('two').map(s => s.name)).toEqual(['two']);
+      expect(() => registry.select('three')).toThrow(/Unknown session source/);
+    });
+
+    it('should close a source when it is replaced', () => {
+      const registry = new SessionSourceRegistry();
+      const first = new FakeSource('one', {});
+      registry.register(first);
+      registry.register(new FakeSource('one', {}));
+
+      expect(first.closed).toBe(true);
+      expect(registry.names()).toEqual(['one']);
+    });
+  });
+
+  describe('CursorContext with a registered source', () => {
+    let api: CursorContext;
+    let metadataDBPath: string;
+
+    beforeEach(() => {
+      metadataDBPath = path.join(os.tmpdir(), `cursor-context-sources-${Date.now()}.db`);
+      api = new CursorContext(path.join(os.tmpdir(), 'missing-cursor.vscdb'), metadataDBPath, false);
+      api.registerSource(new FakeSource('fake', {
+        'session-a': {
+          updatedAt: 1000,
+          projectPath: '/work/app',
+          messages: [
+            { role: 'user', content: 'Explain the retry policy', bubbleId: 'm1' },
+            { role: 'assistant', content: 'Retries use exponential backoff.', bubbleId: 'm2' }
+          ]
+        }
+      }));
+    });
+
+    afterEach(() => {
+      api.close();
+      if (fs.existsSync(metadataDBPath)) {
+        fs.unlinkSync(metadataDBPath);
+      }
+    });
+
+    it('should sync and list sessions from the source', async () => {
+      const synced = await api.syncSessions(undefined, 'fake');
+      expect(synced).toBe(1);
+
+      const sessions = await api.listSessions({ source: 'fake' });
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0]?.session_id).toBe('fake:session-a');
+      expect(sessions[0]?.project_name).toBe('app');
+    });
+
+    it('should sort recently active sessions by when they changed, not when they were synced', async () => {
+      const message = (text: string): ParsedMessage[] => [{ role: 'user', content: text, bubbleId: text }];
+      api.registerSource(new FakeSource('fake', {
+        active: { updatedAt: 5000, messages: message('active') },
+        stale: { updatedAt: 1000, messages: message('stale') }
+      }));
+
+      // 'stale' is synced last
+      await api.syncSessions(undefined, 'fake');
+      const sessions = await api.listSessions({ source: 'fake', sortBy: 'recently_active' });
+
+      expect(sessions.map(s => [s.session_id, s.last_accessed])).toEqual([['fake:active', 5000], ['fake:stale', 1000]]);
+    });
+
+    it('should resolve unprefixed IDs against registered sources', async () => {
+      await api.syncSessions(undefined, 'fake');
+
+      const session = await api.getSession('session-a');
+      expect(session.metadata.source).toBe('fake');
+      expect(session.messages).toHaveLength(2);
+    });
+
+    it('should skip unreadable sources when looking up unprefixed IDs', async () => {
+      const autoSyncPath = path.join(os.tmpdir(), `cursor-context-unreadable-${Date.now()}.db`);
+      const autoSyncing = new CursorContext(path.join(os.tmpdir(), 'missing-cursor.vscdb'), autoSyncPath, true);
+
+      try {
+        // Cursor is probed first and its database is missing
+        expect(() => autoSyncing.getSources()[0]!.hasSession('session-a')).toThrow(DBConnectionError);
+        autoSyncing.registerSource(new FakeSource('fake', {
+          'session-a': { updatedAt: 1000, messages: [{ role: 'user', content: 'Explain the retry policy', bubbleId: 'm1' }] }
+        }));
+
+        expect((await autoSyncing.getSession('session-a')).metadata.session_id).toBe('fake:session-a');
+        await autoSyncing.addTag('session-a', 'retries');
+        expect((await autoSyncing.getSession('fake:session-a')).metadata.tags).toEqual(['retries']);
+
+        await expect(autoSyncing.getSession('5973b6c0-94b8-487b-a530-2aeb6098ae0e')).rejects.toBeInstanceOf(SessionNotFoundError);
+      } finally {
+        autoSyncing.close();
+        fs.rmSync(autoSyncPath, { force: true });
+      }
+    });
+
+    it('should only look for unprefixed IDs in sources they could belong to', async () => {
+      const picky = new FakeSource('picky', {});
+      Object.assign(picky, { matchesSessionId: (id: string) => id.startsWith('p-') });
+      api.registerSource(picky);
+      await api.syncSessions(undefined, 'fake');
+
+      const fakeProbe = vi.spyOn(api.getSources().find(s => s.name === 'fake')!, 'hasSession');
+      const pickyProbe = vi.spyOn(picky, 'hasSession');
+
+      // Synced sessions are resolved from the metadata database
+      await api.addTag('session-a', 'retries');
+      expect(fakeProbe).not.toHaveBeenCalled();
+
+      await expect(api.addTag('retry-policy', 'typo')).rejects.toBeInstanceOf(SessionNotFoundError);
+      expect(fakeProbe).toHaveBeenCalledWith('retry-policy');
+      expect(pickyProbe).not.toHaveBeenCalled();
+    });
+
+    it('should attach notes to sessions and messages', async () => {
+      await api.syncSessions(undefined, 'fake');
+
+      await api.addNote('session-a', 'Keep this policy');
+      const note = await api.addNote('fake:session-a', 'Backoff caps at 30s', { messageId: 'm2' });
+      expect(note.bubble_id).toBe('m2');
+
+      await expect(api.addNote('session-a', 'Nope', { messageId: 'm9' })).rejects.toThrow(/not found/);
+      await expect(api.addNote('session-a', 'Nope', { messageId: 'm' })).rejects.toThrow(/Ambiguous/);
+
+      const session = await api.getSession('session-a');
+      expect(session.notes?.map(n => n.content)).toEqual(['Keep this policy', 'Backoff caps at 30s']);
+
+      const results = await api.searchSessions({ query: 'caps' });
+      expect(results.map(s => s.session_id)).toEqual(['fake:session-a']);
+
+      api.deleteNote(note.id);
+      expect(() => api.deleteNote(note.id)).toThrow(/not found/);
+      expect(await api.getNotes('session-a')).toHaveLength(1);
+    });
+
+    it('should bookmark messages and return their exchange', async () => {
+      await api.syncSessions(undefined, 'fake');
+
+      const bookmark = await api.bookmarkMessage('session-a', 'm2', { label: 'retry policy' });
+      expect(bookmark).toMatchObject({ session_id: 'fake:session-a', bubble_id: 'm2', message_index: 1 });
+
+      const [exchange] = await api.getBookmarks();
+      expect(exchange?.session.session_id).toBe('fake:session-a');
+      expect(exchange?.question?.content).toBe('Explain the retry policy');
+      expect(exchange?.answer.map(m => m.bubbleId)).toEqual(['m2']);
+
+      // Bookmarking again keeps one bookmark
+      await api.bookmarkMessage('session-a', 'm2');
+      expect(await api.getBookmarks({ sessionId: 'session-a' })).toHaveLength(1);
+
+      api.deleteBookmark(bookmark.id);
+      expect(await api.getBookmarks()).toEqual([]);
+    });
+
+    it('should describe source filters with labels', () => {
+      expect(api.getSourceNames()).toEqual(['cursor', 'claude', 'windsurf', 'copilot', 'aider', 'codex', 'gemini', 'import', 'fake']);
+      expect(api.getSourceLabel('fake')).toBe('Fake fake');
+      expect(api.getSourceLabel('all')).toBe('Cursor, Claude Code, Windsurf, Copilot Chat, Aider, Codex CLI, Gemini CLI, Imported and Fake fake');
+    });
+  });
+
+  describe('Session links', () => {
+    let api: CursorContext;
+    let metadataDBPath: string;
+
+    const getSessionCall = (bubbleId: string, params: Record<string, unknown>): ParsedMessage => ({
+      role: 'tool',
+      content: '',
+      bubbleId,
+      toolData: { name: 'mcp_cursor-context_get_session', params }
+    });
+
+    beforeEach(async () => {
+      metadataDBPath = path.join(os.tmpdir(), `cursor-context-links-${Date.now()}.db`);
+      api = new CursorContext(path.join(os.tmpdir(), 'missing-cursor.vscdb'), metadataDBPath, false);
+      api.registerSource(new FakeSource('fake', {
+        // Listed newest first, like the real sources
+        'part-3': {
+          updatedAt: 3000,
+          messages: [
+            { role: 'user', content: 'Unrelated question', bubbleId: 'c1' },
+            { role: 'user', content: 'What did we decide on auth?', bubbleId: 'c2' },
+            getSessionCall('c3', { tools: [{ parameters: JSON.stringify({ idOrNickname: 'fake:part-2' }) }] })
+          ]
+        },
+        'part-2': {
+          updatedAt: 2000,
+          messages: [
+            { role: 'user', content: 'Continue the auth refactor', bubbleId: 'b1' },
+            getSessionCall('b2', { idOrNickname: 'part-1' }),
+            { role: 'user', content: 'Now the tokens', bubbleId: 'b3' }
+          ]
+        },
+        'part-1': {
+          updatedAt: 1000,
+          messages: [{ role: 'user', content: 'Start the auth refactor', bubbleId: 'a1' }]
+        }
+      }));
+      await api.syncSessions(undefined, 'fake');
+    });
+
+    afterEach(() => {
+      api.close();
+      if (fs.existsSync(metadataDBPath)) {
+        fs.unlinkSync(metadataDBPath);
+      }
+    });
+
+    it('should detect links from get_session calls', async () => {
+      const linked = await api.getLinkedSessions('part-2');
+      expect(linked.map(r => [r.relation, r.session.session_id, r.link.origin])).toEqual([
+        ['related', 'fake:part-3', 'detected'],
+        ['continues', 'fake:part-1', 'detected']
+      ]);
+      expect((await api.getLinkedSessions('part-1'))[0]?.relation).toBe('continued_by');
+    });
+
+    it('should return the thread in order from any session in it', async () => {
+      await api.linkSessions('part-3', 'part-2', 'supersedes');
+
+      for (const id of ['part-1', 'part-2', 'fake:part-3']) {
+        const thread = await api.getSessionThread(id);
+        expect(thread.sessions.map(s => s.session_id)).toEqual(['fake:part-1', 'fake:part-2', 'fake:part-3']);
+        expect(thread.links.map(l => l.type)).toEqual(['continues', 'supersedes']);
+      }
+    });
+
+    it('should survive cycles and remove links', async () => {
+      await api.linkSessions('part-1', 'part-2', 'continues');
+      const thread = await api.getSessionThread('part-1');
+      expect(thread.sessions.map(s => s.session_id)).toEqual(['fake:part-1', 'fake:part-2']);
+
+      expect(await api.unlinkSessions('part-1', 'part-2', 'continues')).toBe(2);
+      await expect(api.unlinkSessions('part-1', 'part-2')).rejects.toThrow(/not linked/);
+      expect((await api.getSessionThread('part-1')).sessions).toHaveLength(1);
+    });
+  });
+
+  describe('Collections', () => {
+    let api: CursorContext;
+    let metadataDBPath: string;
+    const DAY = 24 * 60 * 60 * 1000;
+
+    beforeEach(async () => {
+      const now = Date.now();
+      metadataDBPath = path.join(os.tmpdir(), `cursor-context-collections-${Date.now()}.db`);
+      api = new CursorContext(path.join(os.tmpdir(), 'missing-cursor.vscdb'), metadataDBPath, false);
+      api.registerSource(new FakeSource('fake', {
+        recent: {
+          updatedAt: now - DAY,
+          projectPath: '/work/api',
+          messages: [{ role: 'user', content: 'Fix the token refresh bug', bubbleId: 'r1' }]
+        },
+        old: {
+          updatedAt: now - 60 * DAY,
+          projectPath: '/work/api',
+          messages: [{ role: 'user', content: 'Design token refresh', bubbleId: 'o1' }]
+        },
+        other: {
+          updatedAt: now - 2 * DAY,
+          projectPath: '/work/web',
+          model: 'claude-sonnet-4-5',
+          gitBranch: 'feature/login',
+          messages: [
+            { role: 'user', content: 'Style the login page', bubbleId: 'x1' },
+            { role: 'assistant', content: 'Done', bubbleId: 'x2' }
+          ]
+        }
+      }));
+      await api.syncSessions(undefined, 'fake');
+      await api.addTag('fake:recent', 'area/auth');
+      await api.addTag('fake:old', 'area/auth');
+    });
+
+    afterEach(() => {
+      api.close();
+      if (fs.existsSync(metadataDBPath)) {
+        fs.unlinkSync(metadataDBPath);
+      }
+    });
+
+    it('should re-evaluate listing filters with relative dates', async () => {
+      api.saveCollection('recent-api', { projectPath: '/work/api', since: '30d' });
+      api.saveCollection('all-api', { projectPath: '/work/api', sortBy: 'oldest' });
+
+      expect((await api.runCollection('recent-api')).sessions.map(s => s.session_id)).toEqual(['fake:recent']);
+      expect((await api.runCollection('all-api')).sessions.map(s => s.session_id)).toEqual(['fake:old', 'fake:recent']);
+    });
+
+    it('should apply tag, source and date filters to searches', async () => {
+      api.saveCollection('auth', { query: 'token refresh', tag: 'area', source: 'fake', until: '30d' });
+      expect((await api.runCollection('auth')).sessions.map(s => s.session_id)).toEqual(['fake:old']);
+
+      api.saveCollection('auth', { query: 'token refresh', source: 'cursor' });
+      expect((await api.runCollection('auth')).sessions).toEqual([]);
+    });
+
+    it('should list and search with date, size, model and branch filters', async () => {
+      expect((await api.listSessions({ since: '7d', until: 'today' })).map(s => s.session_id)).toEqual(['fake:recent', 'fake:other']);
+      expect((await api.listSessions({ minMessages: 2 })).map(s => s.session_id)).toEqual(['fake:other']);
+      expect((await api.listSessions({ model: 'sonnet', gitBranch: 'feature/login' }))[0]?.git_branch).toBe('feature/login');
+      expect(await api.listSessions({ model: 'opus' })).toEqual([]);
+      expect((await api.searchSessions({ query: 'token refresh', since: '30d' })).map(s => s.session_id)).toEqual(['fake:recent']);
+    });
+
+    it('should search with operators, phrases and excluded terms', async () => {
+      const ids = async (query: string) => (await api.searchSessions({ query })).map(s => s.session_id);
+
+      expect((await ids('project:api token')).sort()).toEqual(['fake:old', 'fake:recent']);
+      expect(await ids('"refresh bug"')).toEqual(['fake:recent']);
+      expect(await ids('token -design')).toEqual(['fake:recent']);
+      expect(await ids('tag:area after:30d')).toEqual(['fake:recent']);
+      expect(await ids('project:api')).toEqual(['fake:recent', 'fake:old']);
+      expect((await api.searchWithContext({ query: 'project:api token -fix' }))[0]?.matches[0]?.message.bubbleId).toBe('o1');
+      await expect(api.searchSessions({ query: 'source:nope token' })).rejects.toBeInstanceOf(QueryParseError);
+    });
+
+    it('should validate filters when saving', async () => {
+      expect(() => api.saveCollection('bad', { since: 'last week' })).toThrow(/Invalid date/);
+      expect(() => api.saveCollection('bad', { source: 'nope' })).toThrow(/Unknown session source/);
+      expect(() => api.saveCollection(' ', {})).toThrow(/empty/);
+      expect(() => api.saveCollection('bad', { query: 'tag:' })).toThrow(/Missing value/);
+      await expect(api.runCollection('bad')).rejects.toThrow(/not found/);
+      expect(() => api.deleteCollection('bad')).toThrow(/not found/);
+    });
+  });
+
+  describe('Missing sessions', () => {
+    let api: CursorContext;
+    let metadataDBPath: string;
+    let sessions: Record<string, { updatedAt: number; messages: ParsedMessage[] }>;
+
+    const messages = (text: string): ParsedMessage[] => [
+      { role: 'user', content: text, bubbleId: `${text}-1` },
+      { role: 'assistant', content: 'OK', bubbleId: `${text}-2` }
+    ];
+
+    beforeEach(async () => {
+      metadataDBPath = path.join(os.tmpdir(), `cursor-context-missing-${Date.now()}.db`);
+      api = new CursorContext(path.join(os.tmpdir(), 'missing-cursor.vscdb'), metadataDBPath, false);
+      sessions = {
+        kept: { updatedAt: 1000, messages: messages('kept') },
+        deleted: { updatedAt: 2000, messages: messages('deleted') }
+      };
+      api.registerSource(new FakeSource('fake', sessions));
+
+      await api.syncSessions(undefined, 'fake');
+      await api.setNickname('fake:deleted', 'old-work');
+      delete sessions.deleted;
+      await api.syncSessions(undefined, 'fake');
+    });
+
+    afterEach(() => {
+      api.close();
+      if (fs.existsSync(metadataDBPath)) {
+        fs.unlinkSync(metadataDBPath);
+      }
+    });
+
+    it('should mark sessions gone from the source and hide them from listings', async () => {
+      expect((await api.listSessions({ source: 'fake' })).map(s => s.session_id)).toEqual(['fake:kept']);
+
+      const all = await api.listSessions({ source: 'fake', includeMissing: true });
+      expect(all.find(s => s.session_id === 'fake:deleted')?.missing_since).toBeGreaterThan(0);
+    });
+
+    it('should not mark sessions missing when the listing was cut off by the limit', async () => {
+      sessions.other = { updatedAt: 3000, messages: messages('other') };
+      await api.syncSessions(1, 'fake');
+
+      const pruned = await api.pruneSessions({ source: 'fake' });
+      expect(pruned.missing.map(s => s.session_id)).toEqual(['fake:deleted']);
+    });
+
+    it('should throw SessionMissingError for a missing session', async () => {
+      await expect(api.getSession('old-work')).rejects.toBeInstanceOf(SessionMissingError);
+      await expect(api.getSession('old-work')).rejects.toThrow(/no longer exists in Fake fake/);
+    });
+
+    it('should restore sessions that come back', async () => {
+      sessions.deleted = { updatedAt: 2000, messages: messages('deleted') };
+
+      const result = await api.pruneSessions({ restore: true });
+      expect(result.restored).toEqual(['fake:deleted']);
+
+      const session = await api.getSession('old-work');
+      expect(session.metadata.missing_since).toBeUndefined();
+      expect(session.metadata.nickname).toBe('old-work');
+    });
+
+    it('should purge missing sessions (dry run changes nothing)', async () => {
+      const dryRun = await api.pruneSessions({ purge: true, dryRun: true });
+      expect(dryRun.purged).toEqual(['fake:deleted']);
+      expect(await api.getSession('old-work', { includeMessages: false })).toBeDefined();
+
+      await api.pruneSessions({ purge: true });
+      await expect(api.getSession('old-work')).rejects.toBeInstanceOf(SessionNotFoundError);
+      expect((await api.pruneSessions()).missing).toHaveLength(0);
+    });
+  });
+
+  describe('Sync report', () => {
+    let api: CursorContext;
+    let metadataDBPath: string;
+
+    beforeEach(() => {
+      metadataDBPath = path.join(os.tmpdir(), `cursor-context-report-${Date.now()}.db`);
+      api = new CursorContext(path.join(os.tmpdir(), 'missing-cursor.vscdb'), metadataDBPath, false);
+      api.registerSource(new BrokenSource('fake', {
+        full: { updatedAt: 1000, messages: [{ role: 'user', content: 'Hello', bubbleId: 'b1' }] },
+        empty: { updatedAt: 2000, messages: [] }
+      }));
+      api.registerSource(new BrokenSource('down', {}, true));
+    });
+
+    afterEach(() => {
+      api.close();
+      if (fs.existsSync(metadataDBPath)) {
+        fs.unlinkSync(metadataDBPath);
+      }
+    });
+
+    it('should report added, empty and failed sessions', async () => {
+      const report = await api.sync(undefined, 'fake');
+      const [fake] = report.sources;
+
+      expect(fake).toMatchObject({
+        source: 'fake',
+        added: ['fake:full'],
+        updated: [],
+        unchanged: 0,
+        skippedEmpty: ['fake:empty'],
+        failed: [{ sessionId: 'fake:corrupt', error: 'SyntaxError', message: 'Unexpected token' }]
+      });
+      expect(report.totals).toMatchObject({ added: 1, skippedEmpty: 1, failed: 1 });
+
+      const second = await api.sync(undefined, 'fake');
+      expect(second.sources[0]?.unchanged).toBe(1);
+    });
+
+    it('should record unreadable sources instead of throwing', async () => {
+      const report = await api.sync(undefined, 'down');
+
+      expect(report.sources[0]?.error).toEqual({ sessionId: 'down', error: 'DataCorruptionError', message: 'Data corruption: store unreadable' });
+      await expect(api.syncSessions(undefined, 'down')).rejects.toBeInstanceOf(DataCorruptionError);
+    });
+  });
+});
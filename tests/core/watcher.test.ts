@@ -0,0 +1,144 @@
+/**
+ * Tests for the session watcher
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import {
+  CursorContext,
+  SessionWatcher,
+  SessionNotFoundError,
+  type SessionSource,
+  type SessionWatchEvent,
+  type SourceSession,
+  type WatchTarget
+} from '../../src/core/index.js';
+import type { ParsedMessage } from '../../src/core/types.js';
+
+/**
+ * Source backed by one JSON file of messages per session
+ */
+class FileSource implements SessionSource {
+  readonly name = 'files';
+  readonly label = 'Files';
+
+  constructor(private dir: string) {}
+
+  getSessionTimestamps(): Map<string, number> {
+    return new Map(fs.readdirSync(this.dir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => [path.basename(file, '.json'), fs.statSync(path.join(this.dir, file)).mtimeMs]));
+  }
+
+  hasSession(sessionId: string): boolean {
+    return fs.existsSync(path.join(this.dir, `${sessionId}.json`));
+  }
+
+  loadSession(sessionId: string): SourceSession | null {
+    return this.hasSession(sessionId) ? { messages: this.getMessages(sessionId) } : null;
+  }
+
+  getMessages(sessionId: string): ParsedMessage[] {
+    if (!this.hasSession(sessionId)) {
+      throw new SessionNotFoundError(`files:${sessionId}`);
+    }
+    return JSON.parse(fs.readFileSync(path.join(this.dir, `${sessionId}.json`), 'utf-8'));
+  }
+
+  getWatchTargets(): WatchTarget[] {
+    return [{ path: this.dir, match: filename => filename.endsWith('.json') }];
+  }
+
+  sessionIdFromPath(filename: string): string | null {
+    return filename.endsWith('.json') ? path.basename(filename, '.json') : null;
+  }
+
+  close(): void {}
+}
+
+function writeSession(dir: string, sessionId: string, text: string): void {
+  const messages: ParsedMessage[] = [
+    { role: 'user', content: text, bubbleId: `${sessionId}-1` },
+    { role: 'assistant', content: `Reply to ${text}`, bubbleId: `${sessionId}-2` }
+  ];
+  fs.writeFileSync(path.join(dir, `${sessionId}.json`), JSON.stringify(messages));
+}
+
+/**
+ * Resolve with the next 'change' sync event
+ */
+function nextChange(watcher: SessionWatcher): Promise<SessionWatchEvent> {
+  return new Promise(resolve => {
+    const listener = (event: SessionWatchEvent) => {
+      if (event.trigger === 'change') {
+        watcher.off('sync', listener);
+        resolve(event);
+      }
+    };
+    watcher.on('sync', listener);
+  });
+}
+
+describe('SessionWatcher', () => {
+  let tmpDir: string;
+  let sessionsDir: string;
+  let api: CursorContext;
+  let watcher: SessionWatcher | null;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cursor-context-watch-'));
+    sessionsDir = path.join(tmpDir, 'sessions');
+    fs.mkdirSync(sessionsDir);
+    writeSession(sessionsDir, 'existing', 'Existing session');
+
+    api = new CursorContext(path.join(tmpDir, 'missing.vscdb'), path.join(tmpDir, 'metadata.db'), false);
+    api.registerSource(new FileSource(sessionsDir));
+    watcher = null;
+  });
+
+  afterEach(async () => {
+    await watcher?.stop();
+    api.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should sync on start and watch source paths', async () => {
+    watcher = new SessionWatcher(api, { source: 'files', debounceMs: 50, fullSyncIntervalMs: 0 });
+    const events: SessionWatchEvent[] = [];
+    watcher.on('sync', event => events.push(event));
+
+    const watched = await watcher.start();
+
+    expect(watched).toEqual([sessionsDir]);
+    expect(events[0]?.trigger).toBe('initial');
+    expect((await api.listSessions({ source: 'files' })).map(s => s.session_id)).toEqual(['files:existing']);
+  });
+
+  it('should debounce changes and sync only the affected sessions', async () => {
+    watcher = new SessionWatcher(api, { source: 'files', debounceMs: 50, fullSyncIntervalMs: 0 });
+    await watcher.start();
+
+    const change = nextChange(watcher);
+    writeSession(sessionsDir, 'new-one', 'First new session');
+    writeSession(sessionsDir, 'new-two', 'Second new session');
+
+    const event = await change;
+    expect(event.source).toBe('files');
+    expect(event.sessionIds.sort()).toEqual(['files:new-one', 'files:new-two']);
+
+    const session = await api.getSession('files:new-two');
+    expect(session.messages[0]?.content).toBe('Second new session');
+  });
+
+  it('should sync the given sessions with syncSourceChanges', async () => {
+    writeSession(sessionsDir, 'other', 'Other session');
+
+    const synced = await api.syncSourceChanges('files', ['other', 'deleted']);
+    expect(synced).toEqual(['files:other']);
+
+    const all = await api.syncSourceChanges('files');
+    expect(all).toEqual(['files:existing']);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for the Windsurf Cascade reader and session source
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { WindsurfDB } from '../../src/core/windsurf-db.js';
+import { getWindsurfWorkspaceInfo } from '../../src/core/windsurf-workspace-extractor.js';
+import { windsurfToUnified } from '../../src/core/format-adapters.js';
+import { CursorContext } from '../../src/core/api.js';
+
+/**
+ * Create a state.vscdb with the given ItemTable entries
+ */
+function writeStateDB(dbPath: string, items: Record<string, unknown>): void {
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+  db.exec('CREATE TABLE ItemTable (key TEXT UNIQUE ON CONFLICT REPLACE, value BLOB)');
+  const insert = db.prepare('INSERT INTO ItemTable (key, value) VALUES (?, ?)');
+  for (const [key, value] of Object.entries(items)) {
+    insert.run(key, typeof value === 'string' ? value : JSON.stringify(value));
+  }
+  db.close();
+}
+
+describe('WindsurfDB', () => {
+  let userDataPath: string;
+
+  beforeEach(() => {
+    userDataPath = fs.mkdtempSync(path.join(os.tmpdir(), 'windsurf-user-'));
+
+    writeStateDB(path.join(userDataPath, 'globalStorage', 'state.vscdb'), {
+      'windsurf.cascadeViewState': 'not json',
+      'codeium.cascade.conversations': {
+        conversations: [
+          {
+            cascadeId: 'global-1',
+            title: 'Refactor logger',
+            createdAt: 1700000000000,
+            lastModifiedTime: 1700000500000,
+            messages: [
+              { role: 'user', text: 'Refactor the logger module' },
+              {
+                role: 'assistant',
+                text: 'Splitting it into transports.',
+                toolCalls: [
+                  { id: 't1', name: 'edit_file', arguments: '{"TargetFile":"/home/me/code/api/src/logger.ts"}' },
+                  { id: 't2', name: 'nickname_current_session', arguments: { nickname: 'logger-refactor' } }
+                ]
+              }
+            ]
+          }
+        ]
+      }
+    });
+
+    const workspaceDir = path.join(userDataPath, 'workspaceStorage', 'abc123');
+    writeStateDB(path.join(workspaceDir, 'state.vscdb'), {
+      'cascade.sessions': {
+        sessions: {
+          'ws-1': {
+            createdTime: 1700001000,
+            steps: [
+              { type: 'USER_INPUT', userInput: { text: 'Why is the build failing?' } },
+              { type: 'PLANNER_RESPONSE', plannerResponse: { response: 'A missing import in index.ts.' } },
+              { type: 'CHECKPOINT' }
+            ]
+          }
+        }
+      }
+    });
+    fs.writeFileSync(path.join(workspaceDir, 'workspace.json'), JSON.stringify({ folder: 'file:///home/me/code/web%20app' }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(userDataPath, { recursive: true, force: true });
+  });
+
+  it('should read conversations from global and workspace storage, newest first', () => {
+    const db = new WindsurfDB(userDataPath);
+    const timestamps = db.getAllSessionTimestamps();
+
+    expect(Array.from(timestamps.keys())).toEqual(['ws-1', 'global-1']);
+    expect(timestamps.get('ws-1')).toBe(1700001000000);
+    expect(Array.from(db.getAllSessionTimestamps(1).keys())).toEqual(['ws-1']);
+  });
+
+  it('should normalize steps and skip non-message steps', () => {
+    const conversation = new WindsurfDB(userDataPath).getConversation('ws-1');
+
+    expect(conversation?.workspaceFolder).toBe('/home/me/code/web app');
+    expect(conversation?.messages.map(m => [m.role, m.text])).toEqual([
+      ['user', 'Why is the build failing?'],
+      ['assistant', 'A missing import in index.ts.']
+    ]);
+  });
+
+  it('should extract workspace and nickname from tool calls', () => {
+    const conversation = new WindsurfDB(userDataPath).getConversation('global-1')!;
+    const info = getWindsurfWorkspaceInfo(conversation);
+
+    expect(info.primaryPath).toBe('/home/me/code/api/src');
+    expect(info.nickname).toBe('logger-refactor');
+  });
+
+  it('should convert tool calls to separate tool messages', () => {
+    const conversation = new WindsurfDB(userDataPath).getConversation('global-1')!;
+    const messages = windsurfToUnified(conversation);
+
+    expect(messages.map(m => m.role)).toEqual(['user', 'assistant', 'tool', 'tool']);
+    expect(messages[2]?.toolData?.params).toEqual({ TargetFile: '/home/me/code/api/src/logger.ts' });
+  });
+
+  it('should return no conversations when Windsurf is not installed', () => {
+    const db = new WindsurfDB(path.join(userDataPath, 'missing'));
+    expect(db.getAllSessionTimestamps().size).toBe(0);
+    expect(db.getConversation('ws-1')).toBeNull();
+  });
+
+  it('should sync Windsurf sessions with a windsurf: prefix', async () => {
+    const metadataDBPath = path.join(userDataPath, 'metadata.db');
+    const api = new CursorContext(path.join(userDataPath, 'missing-cursor.vscdb'), metadataDBPath, false, 100000, undefined, userDataPath);
+
+    try {
+      expect(await api.syncSessions(undefined, 'windsurf')).toBe(2);
+
+      const sessions = await api.listSessions({ source: 'windsurf' });
+      expect(sessions.map(s => s.session_id).sort()).toEqual(['windsurf:global-1', 'windsurf:ws-1']);
+
+      const session = await api.getSession('logger-refactor');
+      expect(session.metadata.source).toBe('windsurf');
+      expect(session.messages[0]?.content).toBe('Refactor the logger module');
+    } finally {
+      api.close();
+    }
+  });
+});